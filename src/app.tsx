@@ -1,6 +1,6 @@
-import { useState, useCallback, useRef, useMemo } from 'preact/hooks';
-import { DATA_TYPE_INFO } from './types';
-import type { Definition, Parameter } from './types';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'preact/hooks';
+import { DATA_TYPE_INFO, DEFINITION_FORMAT_VERSION } from './types';
+import type { AddressMap, BinaryMode, Definition, MemorySegment, Parameter } from './types';
 import { FileLoader } from './components/FileLoader';
 import { XdfLoader } from './components/XdfLoader';
 import { CategoryTree } from './components/CategoryTree';
@@ -8,12 +8,28 @@ import { ValueEditor } from './components/ValueEditor';
 import { LogViewer } from './components/LogViewer';
 import { BLEConnector } from './components/BLEConnector';
 import { Modal } from './components/Modal';
-import { PatchManager, mergeDefinitions } from './components/PatchManager';
+import { PatchManager, mergeDefinitions, hasPatchDefinition, loadPatchDefinition, type PatchIndexEntry } from './components/PatchManager';
+import { LibraryPanel } from './components/LibraryPanel';
+import { ChecksumPanel } from './components/ChecksumPanel';
+import { LintPanel } from './components/LintPanel';
+import { DefinitionsPanel } from './components/DefinitionsPanel';
+import { HexEditor } from './components/HexEditor';
+import { DefinitionEditor } from './components/DefinitionEditor';
+import { PortPanel } from './components/PortPanel';
+import { lintDefinition } from './lib/definitionLinter';
+import { parseDefinition } from './lib/definitionSchema';
 import { parseBtp, verifyCrc32, checkPatch } from './lib/btpParser';
+import { generateXdf } from './lib/xdfWriter';
+import type { BinLayout } from './lib/definitionPorter';
+import { addLibraryDefinition, listLibraryPatches } from './lib/library';
 import type { PatchCheckResult } from './lib/btpParser';
-import { readParameterValue, readTableData, readAxisData, formatValue, debugHexDump, debugLayoutComparison, debugFindDataOffset, debugTableAddresses, debugEccBlock, addressToOffset } from './lib/binUtils';
-import { loadDefinitionIndex, loadDefinition, findMatchingDefinitions, type DefinitionIndexEntry } from './lib/definitionLoader';
+import { readTableData, readAxisData, formatValue, debugHexDump, debugLayoutComparison, debugFindDataOffset, debugTableAddresses, debugEccBlock, addressToOffset, getAddressMap, logicalToPhysical, stripEccBytes, storedAxes, axisByteLength } from './lib/binUtils';
+import type { ParamDiff } from './lib/diffEngine';
+import type { DiffRequest, DiffResponse } from './lib/diffWorker';
+import type { MapFinderRequest, MapFinderResponse } from './lib/mapFinderWorker';
+import { getAllDefinitions, loadDefinition, findMatchingDefinitions, type DefinitionIndexEntry, type DefinitionMatch } from './lib/definitionLoader';
 import { s19ToBinary, isS19File, hexToBinary, isHexFile } from './lib/s19Parser';
+import { verifyChecksums, fixChecksums as fixDefinitionChecksums, type ChecksumResult } from './lib/checksum';
 import './app.css';
 
 // Vehicle settings interface
@@ -64,6 +80,69 @@ function saveSettings(settings: VehicleSettings) {
   }
 }
 
+function downloadDefinition(definition: Definition, fileName: string) {
+  const blob = new Blob([JSON.stringify({ ...definition, formatVersion: DEFINITION_FORMAT_VERSION }, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Text of a loaded S19/HEX file, laid out again when a definition with memory segments is selected
+interface ImageSource {
+  fileName: string;
+  text: string;
+}
+
+function layoutImage(source: ImageSource, segments: MemorySegment[] | undefined): Uint8Array {
+  return isS19File(source.fileName) ? s19ToBinary(source.text, segments) : hexToBinary(source.text, segments);
+}
+
+/**
+ * Check the bundled and local library patches against a binary
+ * Only patches made for a binary of the same size are returned
+ */
+async function checkAvailablePatches(data: Uint8Array): Promise<PatchCheckResult[]> {
+  const results: PatchCheckResult[] = [];
+  const check = (btpData: Uint8Array, entry: Pick<PatchCheckResult, 'name' | 'file' | 'definition' | 'category' | 'libraryId' | 'xdf'>) => {
+    const crcValid = verifyCrc32(btpData);
+    const { header, blocks } = parseBtp(btpData);
+    if (header.fileSize === data.length) {
+      results.push({ ...entry, status: checkPatch(blocks, data), blocks, header, crcValid });
+    }
+  };
+
+  try {
+    const response = await fetch('./patches/index.json');
+    if (response.ok) {
+      const patchIndex: PatchIndexEntry[] = await response.json();
+      for (const entry of patchIndex) {
+        try {
+          const btpResponse = await fetch(`./patches/${entry.file}`);
+          if (!btpResponse.ok) continue;
+          check(new Uint8Array(await btpResponse.arrayBuffer()), entry);
+        } catch {
+          // Skip individual patch load failures
+        }
+      }
+    }
+  } catch {
+    // Patch index not available, only the library is checked
+  }
+
+  for (const patch of await listLibraryPatches()) {
+    try {
+      check(patch.data, { name: patch.name, file: `library:${patch.id}`, libraryId: patch.id, xdf: patch.xdf?.text });
+    } catch (err) {
+      console.error(`Failed to parse library patch ${patch.fileName}:`, err);
+    }
+  }
+
+  return results;
+}
+
 function calculateWheelCircumference(width: number, aspect: number, rimDiameter: number): number {
   // Tire sidewall height = width * (aspect / 100)
   const sidewallHeight = width * (aspect / 100);
@@ -74,30 +153,6 @@ function calculateWheelCircumference(width: number, aspect: number, rimDiameter:
   return Math.round(Math.PI * totalDiameter);
 }
 
-interface CellDiff {
-  row: number;
-  col: number;
-  original: number;
-  current: number;
-}
-
-interface AxisDiff {
-  axis: 'x' | 'y';
-  original: number[];
-  current: number[];
-  changedIndices: number[];
-}
-
-interface ParamDiff {
-  param: Parameter;
-  originalValue: number | number[][];
-  currentValue: number | number[][];
-  cellDiffs?: CellDiff[];
-  axisDiffs?: AxisDiff[];
-  xAxis?: number[];
-  yAxis?: number[];
-}
-
 export function App() {
   const [showConverter, setShowConverter] = useState(false);
   const [showXdfConverter, setShowXdfConverter] = useState(false);
@@ -106,13 +161,15 @@ export function App() {
   const [showSettings, setShowSettings] = useState(false);
   const [showLogViewer, setShowLogViewer] = useState(false);
   const [showBLEConnector, setShowBLEConnector] = useState(false);
+  const [logChannels, setLogChannels] = useState<string[]>([]); // A2L measurements logged by the BLE datalogger
   const [showDefinitions, setShowDefinitions] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
   const [logViewerData, setLogViewerData] = useState<string | null>(null);
   const [showChanges, setShowChanges] = useState(false);
   const [showDefinitionPicker, setShowDefinitionPicker] = useState(false);
-  const [definitionMatches, setDefinitionMatches] = useState<{ entry: DefinitionIndexEntry; mode: 'full' | 'cal' }[]>([]);
+  const [definitionMatches, setDefinitionMatches] = useState<DefinitionMatch[]>([]);
   const [allDefinitions, setAllDefinitions] = useState<DefinitionIndexEntry[]>([]);
-  const [detectedMode, setDetectedMode] = useState<'full' | 'cal' | null>(null);
+  const [detectedMode, setDetectedMode] = useState<BinaryMode | null>(null);
   const [calOffset, setCalOffset] = useState<number>(0);
   const [definition, setDefinition] = useState<Definition | null>(null);
   const [binData, setBinData] = useState<Uint8Array | null>(null);
@@ -126,13 +183,48 @@ export function App() {
   const [dragOverBin, setDragOverBin] = useState(false);
   const [showPatchManager, setShowPatchManager] = useState(false);
   const [patchResults, setPatchResults] = useState<PatchCheckResult[]>([]);
+  const [checksumResults, setChecksumResults] = useState<ChecksumResult[]>([]);
+  const [showChecksums, setShowChecksums] = useState(false);
+  const [showLint, setShowLint] = useState(false);
+  const [showHex, setShowHex] = useState(false);
+  const [showDefEditor, setShowDefEditor] = useState(false);
+  const [showPort, setShowPort] = useState(false);
+  const [findingMaps, setFindingMaps] = useState(false);
+  const [binVersion, setBinVersion] = useState(0);  // Bumped by edits, which change binData in place
+  // Map finder candidates, valid for the BIN and address translation they were found with
+  const [foundMaps, setFoundMaps] = useState<{ params: Parameter[]; binData: Uint8Array; calOffset: number; addressMap: AddressMap } | null>(null);
+  const [changes, setChanges] = useState<ParamDiff[]>([]);
 
   const jsonInputRef = useRef<HTMLInputElement>(null);
   const binInputRef = useRef<HTMLInputElement>(null);
+  const imageSourceRef = useRef<ImageSource | null>(null);
+  const diffWorkerRef = useRef<Worker | null>(null);
+  const diffGenerationRef = useRef(0);
+  const requestDiffUpdate = useRef<(() => void) | null>(null);
+  const mapFinderRef = useRef<Worker | null>(null);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('./lib/diffWorker.ts', import.meta.url), { type: 'module' });
+    diffWorkerRef.current = worker;
+    return () => {
+      worker.terminate();
+      mapFinderRef.current?.terminate();
+    };
+  }, []);
 
   // Expose debug functions to window for console debugging
-  const baseAddress = definition?.baseAddress ?? 0xa0000000;
+  const baseAddress = getAddressMap(definition);
   const bigEndian = definition?.bigEndian ?? false;
+  const ecc = detectedMode === 'ecc';
+  const editingDefinition = showDefEditor && definition !== null;
+  const foundMapParams = foundMaps && foundMaps.binData === binData && foundMaps.calOffset === calOffset && foundMaps.addressMap === baseAddress
+    ? foundMaps.params
+    : null;
+  const isFoundMap = !!selectedParam && !!foundMapParams?.includes(selectedParam);
+  const treeParameters = useMemo(
+    () => foundMapParams?.length ? [...(definition?.parameters ?? []), ...foundMapParams] : definition?.parameters ?? [],
+    [definition, foundMapParams]
+  );
   (window as any).debug = {
     getBinData: () => binData,
     getDefinition: () => definition,
@@ -143,14 +235,14 @@ export function App() {
     readTable: (paramName?: string) => {
       const p = paramName ? definition?.parameters.find(x => x.name === paramName) : selectedParam;
       if (!p || !binData) return null;
-      return readTableData(binData, p, calOffset, baseAddress, bigEndian, true); // debug=true
+      return readTableData(binData, p, calOffset, baseAddress, bigEndian, ecc, true); // debug=true
     },
     readAxis: (paramName?: string, axis: 'x' | 'y' = 'x') => {
       const p = paramName ? definition?.parameters.find(x => x.name === paramName) : selectedParam;
       if (!p || !binData) return null;
       const axisDef = axis === 'x' ? p.xAxis : p.yAxis;
       if (!axisDef) return null;
-      return readAxisData(binData, axisDef, calOffset, baseAddress, bigEndian);
+      return readAxisData(binData, axisDef, calOffset, baseAddress, bigEndian, ecc);
     },
     // Compare ROW_DIR vs COLUMN_DIR layouts to identify actual storage format
     compareLayouts: (paramName?: string) => {
@@ -177,7 +269,8 @@ export function App() {
       if (offset !== undefined) {
         blockOffset = Math.floor(offset / 64) * 64; // Align to 64-byte block
       } else if (selectedParam) {
-        const fileOffset = addressToOffset(selectedParam.address, calOffset);
+        const logicalOffset = addressToOffset(selectedParam.address, calOffset, baseAddress);
+        const fileOffset = ecc ? logicalToPhysical(logicalOffset) : logicalOffset;
         blockOffset = Math.floor(fileOffset / 64) * 64;
       } else {
         console.log('No offset provided and no param selected');
@@ -201,20 +294,55 @@ export function App() {
     });
   }, []);
 
+  // Converted definitions are kept in the local library
   const handleDefinitionLoad = useCallback((def: Definition) => {
     setDefinition(def);
     setSelectedParam(null);
     setShowConverter(false);
     setShowXdfConverter(false);
+    addLibraryDefinition(def, def.name + '.json').catch(err => console.error('Failed to add definition to the library:', err));
   }, []);
 
   const handleModify = useCallback(() => {
     setModified(true);
+    setBinVersion(v => v + 1);
+    requestDiffUpdate.current?.();
   }, []);
 
+  // Verify checksums when a binary or definition is loaded, and after every edit
+  useEffect(() => {
+    if (!binData || !definition) {
+      setChecksumResults([]);
+      return;
+    }
+    setChecksumResults(verifyChecksums(binData, definition, calOffset, ecc));
+  }, [binData, binVersion, definition, calOffset, ecc]);
+
+  // Recalculate checksums (also done before every export); false if they could not be written,
+  // or if saving and the user declines to save with checksums that could not be verified
+  const fixChecksums = useCallback((beforeSave: boolean = false): boolean => {
+    if (!binData || !definition) return true;
+    let results: ChecksumResult[];
+    try {
+      results = fixDefinitionChecksums(binData, definition, calOffset, ecc);
+      setChecksumResults(results);
+    } catch (err) {
+      console.error('Checksum correction failed:', err);
+      alert(`Checksums could not be corrected\n\n${err instanceof Error ? err.message : err}`);
+      return false;
+    }
+
+    const unverified = results.filter(r => r.status === 'unverified');
+    if (beforeSave && unverified.length > 0) {
+      return confirm(`These checksums could not be verified or corrected:\n\n${unverified.map(r => `${r.name}: ${r.error}`).join('\n')}\n\nSave anyway?`);
+    }
+    return true;
+  }, [binData, definition, calOffset, ecc]);
+
   const handleSaveBin = useCallback(() => {
     if (!binData || !binFileName) return;
 
+    if (!fixChecksums(true)) return;
     const blob = new Blob([binData.buffer as ArrayBuffer], { type: 'application/octet-stream' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -224,7 +352,23 @@ export function App() {
     URL.revokeObjectURL(url);
     setModified(false);
     setShowFileMenu(false);
-  }, [binData, binFileName]);
+  }, [binData, binFileName, fixChecksums]);
+
+  // Save a raw ECC dump without the interleaved ECC bytes (plain logical image)
+  const handleSaveStripped = useCallback(() => {
+    if (!binData || !binFileName) return;
+
+    if (!fixChecksums(true)) return;
+    const stripped = stripEccBytes(binData);
+    const blob = new Blob([stripped.buffer as ArrayBuffer], { type: 'application/octet-stream' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = binFileName.replace(/\.[^.]+$/, '_noecc.bin');
+    a.click();
+    URL.revokeObjectURL(url);
+    setShowFileMenu(false);
+  }, [binData, binFileName, fixChecksums]);
 
   const handleSaveCal = useCallback(() => {
     if (!binData || !binFileName || !definition) return;
@@ -233,26 +377,24 @@ export function App() {
     if (!defCalOffset) return;
 
     // Compute CAL block extent from parameter addresses
-    const base = definition.baseAddress ?? 0xa0000000;
+    const addressMap = getAddressMap(definition);
     let maxFileOffset = 0;
     for (const p of definition.parameters) {
       const rows = p.rows || 1;
       const cols = p.cols || 1;
       const typeSize = DATA_TYPE_INFO[p.dataType].size;
-      const end = (p.address - base) + rows * cols * typeSize;
+      const count = p.type === 'ASCII' ? p.length ?? 1 : rows * cols;
+      const end = addressToOffset(p.address, 0, addressMap) + count * typeSize;
       if (end > maxFileOffset) maxFileOffset = end;
-      if (p.xAxis?.address) {
-        const axEnd = (p.xAxis.address - base) + p.xAxis.points * DATA_TYPE_INFO[p.xAxis.dataType ?? 'UWORD'].size;
-        if (axEnd > maxFileOffset) maxFileOffset = axEnd;
-      }
-      if (p.yAxis?.address) {
-        const axEnd = (p.yAxis.address - base) + p.yAxis.points * DATA_TYPE_INFO[p.yAxis.dataType ?? 'UWORD'].size;
+      for (const axis of [...storedAxes(p.xAxis), ...storedAxes(p.yAxis)]) {
+        const axEnd = addressToOffset(axis.address! + (axis.dataOffset ?? 0), 0, addressMap) + axisByteLength(axis);
         if (axEnd > maxFileOffset) maxFileOffset = axEnd;
       }
     }
 
     // Round up to 64KB boundary
     const calEnd = Math.min(Math.ceil(maxFileOffset / 0x10000) * 0x10000, binData.length);
+    if (!fixChecksums(true)) return;
     const calData = binData.slice(defCalOffset, calEnd);
 
     const blob = new Blob([calData.buffer as ArrayBuffer], { type: 'application/octet-stream' });
@@ -264,71 +406,78 @@ export function App() {
     URL.revokeObjectURL(url);
     setModified(false);
     setShowFileMenu(false);
-  }, [binData, binFileName, definition]);
+  }, [binData, binFileName, definition, fixChecksums]);
+
+  // Export the current definition for TunerPro users
+  const handleExportXdf = useCallback(() => {
+    if (!definition) return;
+
+    const { xml, skipped } = generateXdf(definition, { binSize: detectedMode === 'full' ? binData?.length : undefined });
+    const blob = new Blob([xml], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = definition.name + '.xdf';
+    a.click();
+    URL.revokeObjectURL(url);
+    setShowFileMenu(false);
+
+    if (skipped.length > 0) {
+      console.warn('Parameters not exported to XDF:', skipped);
+      alert(`${skipped.length} parameter${skipped.length !== 1 ? 's' : ''} could not be represented in XDF (see console)`);
+    }
+  }, [definition, detectedMode, binData]);
+
+  // Download the edited definition as a new JSON file
+  const handleSaveDefinition = useCallback(() => {
+    if (!definition) return;
+    downloadDefinition(definition, definition.name + '_edited.json');
+    setShowFileMenu(false);
+  }, [definition]);
+
+  const handleDefinitionEdit = useCallback((def: Definition, selected: Parameter | null) => {
+    setDefinition(def);
+    setSelectedParam(selected);
+  }, []);
+
+  // Validate a definition file before replacing the current definition
+  const loadDefinitionFile = useCallback(async (file: File) => {
+    try {
+      const def = parseDefinition(await file.text());
+      setDefinition(def);
+      setSelectedParam(null);
+    } catch (err) {
+      console.error('Failed to load definition:', err);
+      alert(`Failed to load ${file.name}\n\n${err instanceof Error ? err.message : err}`);
+    }
+  }, []);
 
   const handleOpenJson = useCallback(async () => {
     const file = jsonInputRef.current?.files?.[0];
     if (!file) return;
-    const text = await file.text();
-    const def = JSON.parse(text) as Definition;
-    setDefinition(def);
-    setSelectedParam(null);
+    await loadDefinitionFile(file);
     setShowFileMenu(false);
     if (jsonInputRef.current) jsonInputRef.current.value = '';
-  }, []);
+  }, [loadDefinitionFile]);
 
   // Auto-detect patches for a loaded binary
   const detectPatches = useCallback(async (data: Uint8Array, currentDef: Definition | null) => {
-    try {
-      const response = await fetch('./patches/index.json');
-      if (!response.ok) return;
-      const patchIndex: { name: string; file: string; definition?: string; category?: string }[] = await response.json();
-
-      const results: PatchCheckResult[] = [];
-      for (const entry of patchIndex) {
+    const results = await checkAvailablePatches(data);
+    setPatchResults(results);
+
+    // Auto-load definitions for applied patches
+    const appliedWithDef = results.filter(r => r.status === 'applied' && hasPatchDefinition(r));
+    if (appliedWithDef.length > 0 && currentDef) {
+      let mergedDef = currentDef;
+      for (const applied of appliedWithDef) {
         try {
-          const btpResponse = await fetch(`./patches/${entry.file}`);
-          if (!btpResponse.ok) continue;
-          const btpData = new Uint8Array(await btpResponse.arrayBuffer());
-          const crcValid = verifyCrc32(btpData);
-          const { header, blocks } = parseBtp(btpData);
-
-          if (header.fileSize === data.length) {
-            const status = checkPatch(blocks, data);
-            results.push({
-              name: entry.name,
-              file: entry.file,
-              status,
-              definition: entry.definition,
-              category: entry.category,
-              blocks,
-              header,
-              crcValid,
-            });
-          }
+          const patchDef = await loadPatchDefinition(applied);
+          mergedDef = mergeDefinitions(mergedDef, patchDef, applied.name);
         } catch {
-          // Skip individual patch load failures
-        }
-      }
-
-      setPatchResults(results);
-
-      // Auto-load definitions for applied patches
-      const appliedWithDef = results.filter(r => r.status === 'applied' && r.definition);
-      if (appliedWithDef.length > 0 && currentDef) {
-        let mergedDef = currentDef;
-        for (const applied of appliedWithDef) {
-          try {
-            const patchDef = await fetch(`./patches/definitions/${applied.definition}`).then(r => r.json()) as Definition;
-            mergedDef = mergeDefinitions(mergedDef, patchDef, applied.name);
-          } catch {
-            // Skip individual definition load failures
-          }
+          // Skip individual definition load failures
         }
-        setDefinition(mergedDef);
       }
-    } catch {
-      // Patch index not available, silently skip
+      setDefinition(mergedDef);
     }
   }, []);
 
@@ -338,15 +487,16 @@ export function App() {
 
     let data: Uint8Array;
     let displayName = file.name;
+    let sourceText: string | null = null;
 
     // Parse S19/HEX files, otherwise load as binary
     if (isS19File(file.name)) {
-      const text = await file.text();
-      data = s19ToBinary(text);
+      sourceText = await file.text();
+      data = s19ToBinary(sourceText, definition?.segments);
       displayName = file.name.replace(/\.(s19|srec|mot)$/i, '.bin');
     } else if (isHexFile(file.name)) {
-      const text = await file.text();
-      data = hexToBinary(text);
+      sourceText = await file.text();
+      data = hexToBinary(sourceText, definition?.segments);
       displayName = file.name.replace(/\.(hex|ihex)$/i, '.bin');
     } else {
       const buffer = await file.arrayBuffer();
@@ -357,23 +507,33 @@ export function App() {
     setBinFileName(displayName);
     setModified(false);
     setShowFileMenu(false);
+    imageSourceRef.current = sourceText !== null ? { fileName: file.name, text: sourceText } : null;
     if (binInputRef.current) binInputRef.current.value = '';
 
     // Auto-detect and load matching definition
     let loadedDef: Definition | null = null;
     try {
       const matches = await findMatchingDefinitions(data);
-      if (matches.length === 1) {
-        const match = matches[0];
-        const def = await loadDefinition(match.entry.file);
+      // Only a single exact match is loaded without asking; partial matches need confirmation
+      const exact = matches.filter(m => m.confidence === 'exact');
+      if (exact.length === 1) {
+        const match = exact[0];
+        const def = await loadDefinition(match.entry);
+        let mode = match.mode;
+        // Sparse S19/HEX images are laid out by the definition's memory segments into a full image
+        if (sourceText !== null && def.segments?.length) {
+          data = layoutImage({ fileName: file.name, text: sourceText }, def.segments);
+          setBinData(data);
+          mode = 'full';
+        }
         setDefinition(def);
-        setDetectedMode(match.mode);
+        setDetectedMode(mode);
         // Use definition.offset if available, otherwise fall back to verification.calOffset
         const defOffset = def.offset ?? match.entry.verification?.calOffset ?? 0;
-        setCalOffset(match.mode === 'cal' ? defOffset : 0);
+        setCalOffset(mode === 'cal' ? defOffset - match.calStart : 0);
         setSelectedParam(null);
         loadedDef = def;
-      } else if (matches.length > 1) {
+      } else if (matches.length > 0) {
         setDefinitionMatches(matches);
         setShowDefinitionPicker(true);
       }
@@ -383,29 +543,39 @@ export function App() {
 
     // Auto-detect patches
     detectPatches(data, loadedDef);
-  }, [detectPatches]);
+  }, [detectPatches, definition]);
 
-  const handleSelectDefinition = useCallback(async (entry: DefinitionIndexEntry, mode: 'full' | 'cal') => {
+  const handleSelectDefinition = useCallback(async (entry: DefinitionIndexEntry, mode: BinaryMode, calStart: number = 0) => {
     try {
-      const def = await loadDefinition(entry.file);
+      const def = await loadDefinition(entry);
+      // A loaded S19/HEX image is laid out again by the definition's memory segments
+      const source = imageSourceRef.current;
+      if (source && def.segments?.length && (!modified || confirm('Lay out the S19/HEX image by the memory segments of this definition? Unsaved changes will be lost.'))) {
+        const data = layoutImage(source, def.segments);
+        setBinData(data);
+        setModified(false);
+        mode = 'full';
+        detectPatches(data, def);
+      }
       setDefinition(def);
       setDetectedMode(mode);
       // Use definition.offset if available, otherwise fall back to verification.calOffset
+      // A CAL block found by scanning sits at calStart instead of the file start
       const defOffset = def.offset ?? entry.verification?.calOffset ?? 0;
-      setCalOffset(mode === 'cal' ? defOffset : 0);
+      setCalOffset(mode === 'cal' ? defOffset - calStart : 0);
       setSelectedParam(null);
       setShowDefinitionPicker(false);
       setDefinitionMatches([]); // Clear notification after loading
     } catch (err) {
       console.error('Failed to load definition:', err);
     }
-  }, []);
+  }, [modified, detectPatches]);
 
   const handleSearchDefinitions = useCallback(async () => {
     if (!binData) return;
     try {
       const matches = await findMatchingDefinitions(binData);
-      const all = await loadDefinitionIndex();
+      const all = await getAllDefinitions();
       setDefinitionMatches(matches);
       setAllDefinitions(all);
       setShowDefinitionPicker(true);
@@ -415,21 +585,89 @@ export function App() {
     }
   }, [binData]);
 
+  // Switch to the target BIN of a ported definition
+  const handlePortLoad = useCallback((def: Definition, data: Uint8Array, fileName: string, layout: BinLayout) => {
+    if (modified && !confirm(`Load ${fileName} with the ported definition? Unsaved changes to the current BIN will be lost.`)) return;
+    setDefinition(def);
+    setBinData(data);
+    setBinFileName(fileName);
+    // The compare BIN belongs to the other software version
+    setOriginalBinData(null);
+    setOriginalBinFileName(null);
+    setDetectedMode(layout.mode);
+    setCalOffset(layout.calOffset);
+    setSelectedParam(null);
+    setModified(false);
+    imageSourceRef.current = null;
+    setShowPort(false);
+    detectPatches(data, def);
+  }, [detectPatches, modified]);
+
+  // Scan the BIN for likely tables; without a definition the candidates go into a new one addressed by file offsets
+  const handleFindMaps = useCallback(() => {
+    if (!binData || mapFinderRef.current) return;
+    setShowToolsMenu(false);
+
+    const def: Definition = definition ?? { name: (binFileName ?? 'Found maps').replace(/\.[^.]+$/, ''), version: '1', baseAddress: 0, parameters: [] };
+    const offset = definition ? calOffset : 0;
+    const addressMap = getAddressMap(def);
+    if (!definition) {
+      setDefinition(def);
+      setCalOffset(0);
+      setSelectedParam(null);
+    }
+
+    // Scanned in a worker; results are shown for the BIN they were found in
+    const worker = new Worker(new URL('./lib/mapFinderWorker.ts', import.meta.url), { type: 'module' });
+    mapFinderRef.current = worker;
+    setFindingMaps(true);
+    const finish = () => {
+      worker.terminate();
+      mapFinderRef.current = null;
+      setFindingMaps(false);
+    };
+    worker.onmessage = (e: MessageEvent<MapFinderResponse>) => {
+      finish();
+      const { found } = e.data;
+      setFoundMaps({ params: found.map(f => f.param), binData, calOffset: offset, addressMap });
+      if (found.length === 0) alert('No likely maps found');
+    };
+    worker.onerror = (e: ErrorEvent) => {
+      finish();
+      console.error('Map finder failed:', e);
+      alert(`Map finder failed: ${e.message}`);
+    };
+
+    const data = ecc ? stripEccBytes(binData) : binData.slice();
+    worker.postMessage({ data, bigEndian: def.bigEndian ?? false, calOffset: offset, addressMap } satisfies MapFinderRequest, [data.buffer]);
+  }, [binData, binFileName, definition, calOffset, ecc]);
+
+  // Move a map finder candidate into the definition
+  const handlePromoteFoundMap = useCallback((param: Parameter) => {
+    if (!definition || !foundMaps) return;
+    const name = prompt('Name of the map', param.name);
+    if (name === null) return;
+
+    // Drop the "Found maps" category, keep Maps/Curves
+    const promoted: Parameter = { ...param, name: name.trim() || param.name, categories: param.categories.slice(1) };
+    setDefinition({ ...definition, parameters: [...definition.parameters, promoted] });
+    setFoundMaps({ ...foundMaps, params: foundMaps.params.filter(p => p !== param) });
+    setSelectedParam(promoted);
+  }, [definition, foundMaps]);
+
+  const handleDiscardFoundMap = useCallback((param: Parameter) => {
+    setFoundMaps(prev => prev && { ...prev, params: prev.params.filter(p => p !== param) });
+    setSelectedParam(null);
+  }, []);
+
   // Drag and drop handlers
   const handleDefDrop = useCallback(async (e: DragEvent) => {
     e.preventDefault();
     setDragOverDef(false);
     const file = e.dataTransfer?.files[0];
     if (!file || !file.name.endsWith('.json')) return;
-    try {
-      const text = await file.text();
-      const def = JSON.parse(text) as Definition;
-      setDefinition(def);
-      setSelectedParam(null);
-    } catch (err) {
-      console.error('Failed to load definition:', err);
-    }
-  }, []);
+    await loadDefinitionFile(file);
+  }, [loadDefinitionFile]);
 
   const handleBinDrop = useCallback(async (e: DragEvent) => {
     e.preventDefault();
@@ -445,15 +683,16 @@ export function App() {
 
     let data: Uint8Array;
     let displayName = file.name;
+    let sourceText: string | null = null;
 
     // Parse S19/HEX files, otherwise load as binary
     if (isS19) {
-      const text = await file.text();
-      data = s19ToBinary(text);
+      sourceText = await file.text();
+      data = s19ToBinary(sourceText, definition?.segments);
       displayName = file.name.replace(/\.(s19|srec|mot)$/i, '.bin');
     } else if (isHex) {
-      const text = await file.text();
-      data = hexToBinary(text);
+      sourceText = await file.text();
+      data = hexToBinary(sourceText, definition?.segments);
       displayName = file.name.replace(/\.(hex|ihex)$/i, '.bin');
     } else {
       const buffer = await file.arrayBuffer();
@@ -463,22 +702,32 @@ export function App() {
     setBinData(data);
     setBinFileName(displayName);
     setModified(false);
+    imageSourceRef.current = sourceText !== null ? { fileName: file.name, text: sourceText } : null;
 
     // Auto-detect and load matching definition
     let loadedDef: Definition | null = null;
     try {
       const matches = await findMatchingDefinitions(data);
-      if (matches.length === 1) {
-        const match = matches[0];
-        const def = await loadDefinition(match.entry.file);
+      // Only a single exact match is loaded without asking; partial matches need confirmation
+      const exact = matches.filter(m => m.confidence === 'exact');
+      if (exact.length === 1) {
+        const match = exact[0];
+        const def = await loadDefinition(match.entry);
+        let mode = match.mode;
+        // Sparse S19/HEX images are laid out by the definition's memory segments into a full image
+        if (sourceText !== null && def.segments?.length) {
+          data = layoutImage({ fileName: file.name, text: sourceText }, def.segments);
+          setBinData(data);
+          mode = 'full';
+        }
         setDefinition(def);
-        setDetectedMode(match.mode);
+        setDetectedMode(mode);
         // Use definition.offset if available, otherwise fall back to verification.calOffset
         const defOffset = def.offset ?? match.entry.verification?.calOffset ?? 0;
-        setCalOffset(match.mode === 'cal' ? defOffset : 0);
+        setCalOffset(mode === 'cal' ? defOffset - match.calStart : 0);
         setSelectedParam(null);
         loadedDef = def;
-      } else if (matches.length > 1) {
+      } else if (matches.length > 0) {
         setDefinitionMatches(matches);
         setShowDefinitionPicker(true);
       }
@@ -488,7 +737,7 @@ export function App() {
 
     // Auto-detect patches
     detectPatches(data, loadedDef);
-  }, [detectPatches]);
+  }, [detectPatches, definition]);
 
   const preventDefaults = useCallback((e: DragEvent) => {
     e.preventDefault();
@@ -505,91 +754,56 @@ export function App() {
     if (originalBinInputRef.current) originalBinInputRef.current.value = '';
   }, []);
 
-  // Calculate differences between original and current BIN
-  const changes = useMemo((): ParamDiff[] => {
-    if (!definition || !binData || !originalBinData) return [];
-
-    const diffs: ParamDiff[] = [];
-
-    const defBaseAddress = definition.baseAddress ?? 0xa0000000;
-    const defBigEndian = definition.bigEndian ?? false;
-
-    for (const param of definition.parameters) {
-      if (param.type === 'VALUE') {
-        const originalValue = readParameterValue(originalBinData, param, calOffset, defBaseAddress, defBigEndian);
-        const currentValue = readParameterValue(binData, param, calOffset, defBaseAddress, defBigEndian);
-        if (Math.abs(originalValue - currentValue) > 0.0001) {
-          diffs.push({ param, originalValue, currentValue });
-        }
-      } else {
-        const originalTable = readTableData(originalBinData, param, calOffset, defBaseAddress, defBigEndian);
-        const currentTable = readTableData(binData, param, calOffset, defBaseAddress, defBigEndian);
-        const cellDiffs: CellDiff[] = [];
-
-        for (let r = 0; r < originalTable.length; r++) {
-          for (let c = 0; c < originalTable[r].length; c++) {
-            if (Math.abs(originalTable[r][c] - currentTable[r][c]) > 0.0001) {
-              cellDiffs.push({
-                row: r,
-                col: c,
-                original: originalTable[r][c],
-                current: currentTable[r][c],
-              });
-            }
-          }
-        }
-
-        // Check axis changes
-        const axisDiffs: AxisDiff[] = [];
-
-        if (param.xAxis?.address) {
-          const originalXAxis = readAxisData(originalBinData, param.xAxis, calOffset, defBaseAddress, defBigEndian);
-          const currentXAxis = readAxisData(binData, param.xAxis, calOffset, defBaseAddress, defBigEndian);
-          const changedIndices: number[] = [];
-          for (let i = 0; i < originalXAxis.length; i++) {
-            if (Math.abs(originalXAxis[i] - currentXAxis[i]) > 0.0001) {
-              changedIndices.push(i);
-            }
-          }
-          if (changedIndices.length > 0) {
-            axisDiffs.push({ axis: 'x', original: originalXAxis, current: currentXAxis, changedIndices });
-          }
-        }
+  // Lint the definition against the loaded BIN while the dialog is open
+  const lintFindings = useMemo(() => {
+    if (!showLint || !definition || !binData) return [];
+    return lintDefinition(binData, definition, calOffset, ecc);
+  }, [showLint, definition, binData, calOffset, ecc]);
+
+  // Differences between original and current BIN, computed in a worker
+  // Edits only send the current bytes; the worker re-reads the parameters they touch
+  useEffect(() => {
+    const worker = diffWorkerRef.current;
+    if (!worker || !definition || !binData || !originalBinData) {
+      setChanges([]);
+      return;
+    }
 
-        if (param.yAxis?.address) {
-          const originalYAxis = readAxisData(originalBinData, param.yAxis, calOffset, defBaseAddress, defBigEndian);
-          const currentYAxis = readAxisData(binData, param.yAxis, calOffset, defBaseAddress, defBigEndian);
-          const changedIndices: number[] = [];
-          for (let i = 0; i < originalYAxis.length; i++) {
-            if (Math.abs(originalYAxis[i] - currentYAxis[i]) > 0.0001) {
-              changedIndices.push(i);
-            }
-          }
-          if (changedIndices.length > 0) {
-            axisDiffs.push({ axis: 'y', original: originalYAxis, current: currentYAxis, changedIndices });
-          }
-        }
+    const generation = ++diffGenerationRef.current;
+    let pending = true;
+    let dirty = false;
 
-        if (cellDiffs.length > 0 || axisDiffs.length > 0) {
-          // Read current axis data for display
-          const xAxis = param.xAxis ? readAxisData(binData, param.xAxis, calOffset, defBaseAddress, defBigEndian) : undefined;
-          const yAxis = param.yAxis ? readAxisData(binData, param.yAxis, calOffset, defBaseAddress, defBigEndian) : undefined;
-
-          diffs.push({
-            param,
-            originalValue: originalTable,
-            currentValue: currentTable,
-            cellDiffs,
-            axisDiffs,
-            xAxis,
-            yAxis,
-          });
-        }
+    const update = () => {
+      // Coalesce edits made while the worker is busy into one update
+      if (pending) {
+        dirty = true;
+        return;
       }
-    }
-
-    return diffs;
-  }, [definition, binData, originalBinData, calOffset]);
+      pending = true;
+      dirty = false;
+      const current = binData.slice();
+      worker.postMessage({ type: 'update', generation, current } satisfies DiffRequest, [current.buffer]);
+    };
+
+    worker.onmessage = (e: MessageEvent<DiffResponse>) => {
+      if (e.data.generation !== generation) return;
+      setChanges(e.data.diffs.map(({ index, ...diff }) => ({ ...diff, param: definition.parameters[index] })));
+      pending = false;
+      if (dirty) update();
+    };
+    requestDiffUpdate.current = update;
+
+    const original = originalBinData.slice();
+    const current = binData.slice();
+    worker.postMessage(
+      { type: 'init', generation, definition, original, current, calOffset, ecc } satisfies DiffRequest,
+      [original.buffer, current.buffer],
+    );
+
+    return () => {
+      requestDiffUpdate.current = null;
+    };
+  }, [definition, binData, originalBinData, calOffset, ecc]);
 
   return (
     <div class="flex flex-col h-screen bg-zinc-900 text-zinc-100">
@@ -663,6 +877,29 @@ export function App() {
                       Save CAL
                     </button>
                   )}
+                  {detectedMode === 'ecc' && (
+                    <button
+                        onClick={handleSaveStripped}
+                        className="w-full text-left px-3 py-2 text-sm hover:bg-zinc-700 cursor-pointer"
+                    >
+                      Save BIN without ECC
+                    </button>
+                  )}
+                  <div class="border-t border-zinc-600 my-1"/>
+                  <button
+                      onClick={handleExportXdf}
+                      disabled={!definition}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-zinc-700 cursor-pointer disabled:text-zinc-500 disabled:hover:bg-transparent"
+                  >
+                    Export Definition as XDF
+                  </button>
+                  <button
+                      onClick={handleSaveDefinition}
+                      disabled={!definition}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-zinc-700 cursor-pointer disabled:text-zinc-500 disabled:hover:bg-transparent"
+                  >
+                    Save Definition JSON
+                  </button>
                 </div>
               </>
           )}
@@ -699,6 +936,34 @@ export function App() {
                   >
                     XDF Converter
                   </button>
+                  <div class="border-t border-zinc-600 my-1"/>
+                  <button
+                      onClick={() => {
+                        setShowLint(true);
+                        setShowToolsMenu(false);
+                      }}
+                      disabled={!binData || !definition}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-zinc-700 cursor-pointer disabled:text-zinc-500 disabled:hover:bg-transparent"
+                  >
+                    Lint Definition...
+                  </button>
+                  <button
+                      onClick={() => {
+                        setShowPort(true);
+                        setShowToolsMenu(false);
+                      }}
+                      disabled={!binData || !definition}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-zinc-700 cursor-pointer disabled:text-zinc-500 disabled:hover:bg-transparent"
+                  >
+                    Port Definition...
+                  </button>
+                  <button
+                      onClick={handleFindMaps}
+                      disabled={!binData || findingMaps}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-zinc-700 cursor-pointer disabled:text-zinc-500 disabled:hover:bg-transparent"
+                  >
+                    {findingMaps ? 'Finding Maps…' : 'Find Maps'}
+                  </button>
                 </div>
               </>
           )}
@@ -735,7 +1000,7 @@ export function App() {
         <button
             onClick={async () => {
               try {
-                const defs = await loadDefinitionIndex();
+                const defs = await getAllDefinitions();
                 setAllDefinitions(defs);
                 setShowDefinitions(true);
               } catch (err) {
@@ -747,6 +1012,13 @@ export function App() {
           Definitions
         </button>
 
+        <button
+            onClick={() => setShowLibrary(true)}
+            className="px-3 py-1 text-sm rounded hover:bg-zinc-700 cursor-pointer"
+        >
+          Library
+        </button>
+
         <button
             onClick={() => setShowPatchManager(true)}
             disabled={!binData}
@@ -760,6 +1032,30 @@ export function App() {
           )}
         </button>
 
+        <button
+            onClick={() => setShowChecksums(true)}
+            disabled={!binData || !definition}
+            className="px-3 py-1 text-sm rounded hover:bg-zinc-700 cursor-pointer disabled:text-zinc-500"
+        >
+          Checksums
+        </button>
+
+        <button
+            onClick={() => setShowHex(!showHex)}
+            disabled={!binData}
+            className={`px-3 py-1 text-sm rounded hover:bg-zinc-700 cursor-pointer disabled:text-zinc-500 ${showHex ? 'bg-zinc-700' : ''}`}
+        >
+          Hex
+        </button>
+
+        <button
+            onClick={() => setShowDefEditor(!editingDefinition)}
+            disabled={!definition}
+            className={`px-3 py-1 text-sm rounded hover:bg-zinc-700 cursor-pointer disabled:text-zinc-500 ${editingDefinition ? 'bg-zinc-700' : ''}`}
+        >
+          Edit Definition
+        </button>
+
         {originalBinData && binData && (
             <button
                 onClick={() => setShowChanges(true)}
@@ -782,9 +1078,11 @@ export function App() {
               <span class="font-mono text-sm text-zinc-400">{binFileName}</span>
               {detectedMode && (
                   <span class={`px-2 py-0.5 rounded text-xs font-medium ${
-                      detectedMode === 'cal' ? 'bg-blue-900 text-blue-300' : 'bg-purple-900 text-purple-300'
+                      detectedMode === 'cal' ? 'bg-blue-900 text-blue-300'
+                        : detectedMode === 'ecc' ? 'bg-amber-900 text-amber-300'
+                        : 'bg-purple-900 text-purple-300'
                   }`}>
-                {detectedMode === 'cal' ? 'CAL' : 'Full'}
+                {detectedMode === 'cal' ? 'CAL' : detectedMode === 'ecc' ? 'ECC' : 'Full'}
               </span>
               )}
               {detectedMode && definition?.verification?.expected && (
@@ -792,6 +1090,23 @@ export function App() {
                     {definition.verification.expected}
                   </span>
               )}
+              {checksumResults.some(r => r.status === 'failed') ? (
+                  <button
+                      onClick={() => setShowChecksums(true)}
+                      class="px-2 py-0.5 rounded text-xs font-medium bg-red-900 text-red-300 cursor-pointer"
+                      title="Checksum mismatch (fixed on save)"
+                  >
+                    Checksum!
+                  </button>
+              ) : checksumResults.some(r => r.status === 'unverified') && (
+                  <button
+                      onClick={() => setShowChecksums(true)}
+                      class="px-2 py-0.5 rounded text-xs font-medium bg-amber-900 text-amber-300 cursor-pointer"
+                      title="Checksums could not be verified"
+                  >
+                    Checksum?
+                  </button>
+              )}
               {patchResults.filter(r => r.status === 'applied').length > 0 && (
                   <span class="px-2 py-0.5 rounded text-xs font-medium bg-green-900 text-green-300">
                     {patchResults.filter(r => r.status === 'applied').length} Patches
@@ -824,7 +1139,7 @@ export function App() {
                 <span class="text-zinc-400 font-normal shrink-0 ml-2">{definition.parameters.length}</span>
               </div>
               <CategoryTree
-                parameters={definition.parameters}
+                parameters={treeParameters}
                 onSelect={setSelectedParam}
                 selectedParam={selectedParam}
               />
@@ -846,10 +1161,7 @@ export function App() {
                 onChange={async (e) => {
                   const file = (e.target as HTMLInputElement).files?.[0];
                   if (!file) return;
-                  const text = await file.text();
-                  const def = JSON.parse(text) as Definition;
-                  setDefinition(def);
-                  setSelectedParam(null);
+                  await loadDefinitionFile(file);
                   (e.target as HTMLInputElement).value = '';
                 }}
                 class="hidden"
@@ -876,7 +1188,19 @@ export function App() {
               backgroundSize: '40%',
             }}
           />
-          {!binData && (
+          {definition && showDefEditor && (
+            <DefinitionEditor
+              definition={definition}
+              selectedParam={selectedParam}
+              binData={binData}
+              calOffset={calOffset}
+              ecc={ecc}
+              onChange={handleDefinitionEdit}
+              onSave={handleSaveDefinition}
+            />
+          )}
+
+          {!binData && !editingDefinition && (
             <label class="flex justify-center items-center h-full text-zinc-500 cursor-pointer hover:bg-zinc-700/30 transition-colors">
               <div class="text-center">
                 {dragOverBin ? (
@@ -897,14 +1221,15 @@ export function App() {
 
                   let data: Uint8Array;
                   let displayName = file.name;
+                  let source: ImageSource | null = null;
 
                   if (isS19File(file.name)) {
-                    const text = await file.text();
-                    data = s19ToBinary(text);
+                    source = { fileName: file.name, text: await file.text() };
+                    data = layoutImage(source, definition?.segments);
                     displayName = file.name.replace(/\.(s19|srec|mot)$/i, '.bin');
                   } else if (isHexFile(file.name)) {
-                    const text = await file.text();
-                    data = hexToBinary(text);
+                    source = { fileName: file.name, text: await file.text() };
+                    data = layoutImage(source, definition?.segments);
                     displayName = file.name.replace(/\.(hex|ihex)$/i, '.bin');
                   } else {
                     const buffer = await file.arrayBuffer();
@@ -914,6 +1239,7 @@ export function App() {
                   setBinData(data);
                   setBinFileName(displayName);
                   setModified(false);
+                  imageSourceRef.current = source;
                   (e.target as HTMLInputElement).value = '';
                 }}
                 class="hidden"
@@ -921,20 +1247,53 @@ export function App() {
             </label>
           )}
 
-          {binData && !selectedParam && (
+          {binData && showHex && !editingDefinition && (
+            <HexEditor
+              binData={binData}
+              originalBinData={originalBinData}
+              definition={definition}
+              patchResults={patchResults}
+              selectedParam={selectedParam}
+              calOffset={calOffset}
+              ecc={ecc}
+              onSelect={setSelectedParam}
+              onModify={handleModify}
+            />
+          )}
+
+          {binData && !showHex && !editingDefinition && !selectedParam && (
             <div class="flex justify-center items-center h-full text-zinc-500">
               Select a parameter from the tree
             </div>
           )}
 
-          {binData && selectedParam && (
+          {binData && !showHex && isFoundMap && (
+            <div class="relative flex items-center gap-2 mb-3 px-3 py-2 rounded bg-amber-900/30 border border-amber-700 text-sm">
+              <span class="flex-1 text-amber-200">Found map candidate: {selectedParam!.description}</span>
+              <button
+                  onClick={() => handlePromoteFoundMap(selectedParam!)}
+                  className="px-3 py-1 text-sm rounded bg-green-700 hover:bg-green-600 cursor-pointer"
+              >
+                Promote to Definition
+              </button>
+              <button
+                  onClick={() => handleDiscardFoundMap(selectedParam!)}
+                  className="px-3 py-1 text-sm rounded bg-zinc-700 hover:bg-zinc-600 cursor-pointer"
+              >
+                Discard
+              </button>
+            </div>
+          )}
+
+          {binData && !showHex && !editingDefinition && selectedParam && (
             <ValueEditor
               parameter={selectedParam}
               binData={binData}
               originalBinData={originalBinData}
               calOffset={calOffset}
-              baseAddress={definition?.baseAddress}
+              baseAddress={getAddressMap(definition)}
               bigEndian={definition?.bigEndian}
+              ecc={ecc}
               onModify={handleModify}
             />
           )}
@@ -999,6 +1358,10 @@ export function App() {
             setShowLogViewer(true);
           }}
           vehicleSettings={vehicleSettings}
+          measurements={definition?.measurements}
+          bigEndian={definition?.bigEndian}
+          channels={logChannels}
+          onChannelsChange={setLogChannels}
         />
       )}
 
@@ -1040,7 +1403,13 @@ export function App() {
                         </span>
                         <span class="text-xs text-zinc-500">→ click to edit</span>
                       </div>
-                      {param.type === 'VALUE' ? (
+                      {param.type === 'ASCII' ? (
+                        <div class="flex items-center gap-4 text-sm font-mono whitespace-pre">
+                          <span class="text-red-400">"{originalValue as string}"</span>
+                          <span class="text-zinc-500">→</span>
+                          <span class="text-green-400">"{currentValue as string}"</span>
+                        </div>
+                      ) : param.type === 'VALUE' ? (
                         <div class="flex items-center gap-4 text-sm font-mono">
                           <span class="text-red-400">{formatValue(originalValue as number, 4)}</span>
                           <span class="text-zinc-500">→</span>
@@ -1404,22 +1773,35 @@ export function App() {
                   Matching Definitions ({definitionMatches.length})
                 </h3>
                 <div class="space-y-2">
-                  {definitionMatches.map(({ entry, mode }) => (
+                  {definitionMatches.map(({ entry, mode, confidence, calStart, reason }) => (
                     <button
-                      key={entry.file}
-                      onClick={() => handleSelectDefinition(entry, mode)}
+                      key={entry.libraryId ?? entry.file}
+                      onClick={() => handleSelectDefinition(entry, mode, calStart)}
                       class="w-full text-left p-3 bg-zinc-700 hover:bg-zinc-600 rounded border border-zinc-600 transition-colors"
                     >
                       <div class="flex items-center justify-between">
                         <div>
-                          <div class="font-medium">{entry.name}</div>
+                          <div class="font-medium">
+                            {entry.name}
+                            {entry.ecuFamily && <span class="ml-2 text-xs font-normal text-zinc-400">{entry.ecuFamily}</span>}
+                            {entry.libraryId !== undefined && <span class="ml-2 px-1.5 py-0.5 rounded text-[10px] font-normal bg-blue-900/50 text-blue-300">Library</span>}
+                          </div>
                           <div class="text-xs text-zinc-400 mt-1">
-                            {entry.paramCount} parameters · {entry.verification.expected}
+                            {entry.boxcode && `${entry.boxcode} · `}
+                            {entry.swVersion && `SW ${entry.swVersion} · `}
+                            {entry.paramCount} parameters
                           </div>
+                          <div class="text-xs text-zinc-500 mt-1">{reason}</div>
                         </div>
-                        <div class="text-xs px-2 py-1 rounded bg-green-900 text-green-300">
-                          {mode === 'cal' ? 'CAL Block' : 'Full BIN'}
-                        </div>
+                        {confidence === 'partial' ? (
+                          <div class="text-xs px-2 py-1 rounded bg-amber-900 text-amber-300" title="EPK found outside its expected position">
+                            Partial
+                          </div>
+                        ) : (
+                          <div class="text-xs px-2 py-1 rounded bg-green-900 text-green-300">
+                            {mode === 'cal' ? 'CAL Block' : 'Full BIN'}
+                          </div>
+                        )}
                       </div>
                     </button>
                   ))}
@@ -1441,7 +1823,7 @@ export function App() {
                 <div class="max-h-60 overflow-y-auto space-y-1">
                   {allDefinitions.map((entry) => (
                     <button
-                      key={entry.file}
+                      key={entry.libraryId ?? entry.file}
                       onClick={() => handleSelectDefinition(entry, 'cal')}
                       class="w-full text-left px-3 py-2 text-sm hover:bg-zinc-700 rounded transition-colors"
                     >
@@ -1458,55 +1840,69 @@ export function App() {
 
       {/* Definitions Modal */}
       {showDefinitions && (
-        <Modal title="Definitions" onClose={() => setShowDefinitions(false)} width="lg">
-          <div class="space-y-4">
-            {allDefinitions.length === 0 ? (
-              <div class="text-center py-4 text-zinc-500">
-                No definitions available.
-              </div>
-            ) : (
-              <div>
-                <div class="text-sm text-zinc-400 mb-3">
-                  {allDefinitions.length} definition{allDefinitions.length !== 1 ? 's' : ''} available
-                </div>
-                <div class="max-h-96 overflow-y-auto space-y-1">
-                  {allDefinitions.map((entry) => (
-                    <button
-                      key={entry.file}
-                      onClick={async () => {
-                        try {
-                          const def = await loadDefinition(entry.file);
-                          setDefinition(def);
-                          setCalOffset(def.offset ?? entry.verification?.calOffset ?? 0);
-                          setSelectedParam(null);
-                          setShowDefinitions(false);
-                        } catch (err) {
-                          console.error('Failed to load definition:', err);
-                        }
-                      }}
-                      class="w-full text-left p-3 bg-zinc-700 hover:bg-zinc-600 rounded border border-zinc-600 transition-colors"
-                    >
-                      <div class="flex items-center justify-between">
-                        <div>
-                          <div class="font-medium">{entry.name}</div>
-                          <div class="text-xs text-zinc-400 mt-1">
-                            {entry.paramCount} parameters
-                            {entry.verification?.expected && ` · ${entry.verification.expected}`}
-                          </div>
-                        </div>
-                        {entry.verification?.calOffset !== undefined && (
-                          <div class="text-xs text-zinc-500">
-                            CAL @ 0x{entry.verification.calOffset.toString(16).toUpperCase()}
-                          </div>
-                        )}
-                      </div>
-                    </button>
-                  ))}
-                </div>
-              </div>
-            )}
-          </div>
-        </Modal>
+        <DefinitionsPanel
+          definitions={allDefinitions}
+          onSelect={async entry => {
+            try {
+              const def = await loadDefinition(entry);
+              setDefinition(def);
+              setCalOffset(def.offset ?? entry.verification?.calOffset ?? 0);
+              setSelectedParam(null);
+              setShowDefinitions(false);
+            } catch (err) {
+              console.error('Failed to load definition:', err);
+            }
+          }}
+          onClose={() => setShowDefinitions(false)}
+        />
+      )}
+
+      {/* Local Library Modal */}
+      {showLibrary && (
+        <LibraryPanel
+          definition={definition}
+          onClose={() => {
+            setShowLibrary(false);
+            // Library patches may have been added or removed
+            if (binData) checkAvailablePatches(binData).then(setPatchResults);
+          }}
+        />
+      )}
+
+      {/* Checksums Modal */}
+      {showChecksums && (
+        <ChecksumPanel
+          results={checksumResults}
+          onFix={() => {
+            if (!fixChecksums()) return;
+            handleModify();
+          }}
+          onClose={() => setShowChecksums(false)}
+        />
+      )}
+
+      {/* Definition Lint Modal */}
+      {showLint && (
+        <LintPanel
+          findings={lintFindings}
+          onSelect={param => {
+            setSelectedParam(param);
+            setShowLint(false);
+          }}
+          onClose={() => setShowLint(false)}
+        />
+      )}
+
+      {/* Port Definition Modal */}
+      {showPort && binData && definition && (
+        <PortPanel
+          definition={definition}
+          binData={binData}
+          sourceLayout={{ mode: detectedMode ?? 'cal', calOffset }}
+          onLoad={handlePortLoad}
+          onSave={def => downloadDefinition(def, def.name + '.json')}
+          onClose={() => setShowPort(false)}
+        />
       )}
 
       {/* Patch Manager Modal */}
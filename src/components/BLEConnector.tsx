@@ -1,5 +1,8 @@
-import {useState, useRef, useEffect} from 'preact/hooks';
+import {useState, useRef, useEffect, useMemo} from 'preact/hooks';
 import type {VehicleSettings} from '../app';
+import {DATA_TYPE_INFO} from '../types';
+import type {Measurement} from '../types';
+import {readMeasurementValue} from '../lib/binUtils';
 import {Modal} from './Modal';
 
 const BLE_SERVICE_UUID = "0000abf0-0000-1000-8000-00805f9b34fb";
@@ -36,8 +39,21 @@ enum BLESettings {
 
 const UDS_RESPONSE = {
     READ_IDENTIFIER_ACCEPTED: 0x62,
+    DYNAMIC_DEFINE_ACCEPTED: 0x6c,
+    NEGATIVE: 0x7f,
 };
 
+const UDS_DYNAMIC_DEFINE = 0x2c;
+const DYNAMIC_DEFINE_BY_ADDRESS = 0x02;
+const DYNAMIC_DEFINE_CLEAR = 0x03;
+const ADDRESS_AND_LENGTH_FORMAT = 0x14; // 1-byte size, 4-byte address
+
+// DID the selected A2L measurements are defined as and read through (ISO 14229 dynamic DID range)
+const MEASUREMENT_DID = 0xf200;
+
+// Search results shown in the measurement picker
+const MAX_MEASUREMENT_RESULTS = 50;
+
 const ECU_INFO_FIELDS: Record<string, number[]> = {
     VIN: [0xf1, 0x90],
     ODX_IDENTIFIER: [0xf1, 0x9e],
@@ -220,6 +236,40 @@ const PIDs: Map<number, IPid> = new Map([
     }],
 ]);
 
+/**
+ * PIDs queried in a logging session: the fixed PIDs plus the DID carrying the selected measurements
+ */
+function buildPids(measurements: Measurement[]): Map<number, IPid> {
+    const pids = new Map(PIDs);
+    if (measurements.length > 0) {
+        pids.set(MEASUREMENT_DID, {
+            address: MEASUREMENT_DID,
+            name: "Measurements",
+            length: measurements.reduce((total, m) => total + DATA_TYPE_INFO[m.dataType].size, 0),
+            signed: false,
+            equation: "x",
+            fractional: 0,
+            unit: ""
+        });
+    }
+    return pids;
+}
+
+/**
+ * Decimals shown for a measurement: none for plain integer counts
+ */
+function measurementDecimals(measurement: Measurement): number {
+    const integer = !DATA_TYPE_INFO[measurement.dataType].float && !measurement.conversion &&
+        Number.isInteger(measurement.factor) && Number.isInteger(measurement.offset);
+    return integer ? 0 : 2;
+}
+
+function NumberToArrayBuffer4(n: number): ArrayBuffer {
+    const buffer = new ArrayBuffer(4);
+    new DataView(buffer).setUint32(0, n >>> 0);
+    return buffer;
+}
+
 function NumberToArrayBuffer2(n: number): ArrayBuffer {
     const buffer = new ArrayBuffer(2);
     const view = new Uint8Array(buffer);
@@ -355,6 +405,8 @@ class MockBLEService {
     startTime = 0;
     loggingRate: number = DEFAULT_LOGGING_RATE;
     vehicleSettings: VehicleSettings | null = null;
+    measurements: Measurement[] = [];
+    measurementsBigEndian = false;
     private loopTimeout: ReturnType<typeof setTimeout> | null = null;
     private mockRPM = 800;
     private mockSpeed = 0;
@@ -412,7 +464,13 @@ class MockBLEService {
             await new Promise(r => setTimeout(r, 10));
             this.log(`Persist delay set to ${Math.round(1000 / this.loggingRate)}ms`);
 
-            const numPids = PIDs.size;
+            if (this.measurements.length > 0) {
+                this.log(`Defining DID ${MEASUREMENT_DID.toString(16)} for ${this.measurements.length} measurement(s)...`);
+                await new Promise(r => setTimeout(r, 10));
+                this.log('Measurements defined');
+            }
+
+            const numPids = buildPids(this.measurements).size;
             const effectiveChunkSize = chunkSize > 0 ? chunkSize : numPids;
             const numChunks = Math.ceil(numPids / effectiveChunkSize);
             this.log(`Adding ${numPids} PIDs in ${numChunks} chunk(s)...`);
@@ -494,6 +552,9 @@ class MockBLEService {
                     'Knock Cyl 4': (Math.random() - 0.8) * 2,
                 }
             };
+            for (const m of this.measurements) {
+                frame.data[m.name] = m.min + Math.random() * (m.max - m.min);
+            }
 
             this.onFrame?.(frame);
 
@@ -546,6 +607,9 @@ class BLEService {
     lastQueryTime: number = 0;
     persistModeEnabled = true;
     chunkSize = 0; // 0 = all at once
+    measurements: Measurement[] = []; // A2L measurements logged through MEASUREMENT_DID
+    measurementsBigEndian = false; // ECU byte order of the measurement values
+    pids: Map<number, IPid> = PIDs; // PIDs of the current logging session
     // For continuous stream processing (SimosTools-style)
     pendingPidData: Map<string, number> = new Map(); // accumulate PID values
     expectedChunks = 1;
@@ -724,6 +788,62 @@ class BLEService {
         await this.writePacket(ConcatArrayBuffer(header.toArrayBuffer(), ...command));
     }
 
+    /**
+     * Define MEASUREMENT_DID as the memory of the selected measurements (UDS 0x2C),
+     * so they are read together with the PIDs
+     */
+    async defineMeasurements() {
+        this.log(`Defining DID ${MEASUREMENT_DID.toString(16)} for ${this.measurements.length} measurement(s)...`);
+        const isResponse = (data: DataView) => data.byteLength > 9 && (
+            data.getUint8(8) === UDS_RESPONSE.DYNAMIC_DEFINE_ACCEPTED ||
+            (data.getUint8(8) === UDS_RESPONSE.NEGATIVE && data.getUint8(9) === UDS_DYNAMIC_DEFINE));
+
+        // Drop a definition left from an earlier session; rejected if there is none
+        await this.sendUDSCommand(NumberToArrayBuffer(UDS_DYNAMIC_DEFINE), NumberToArrayBuffer(DYNAMIC_DEFINE_CLEAR), NumberToArrayBuffer2(MEASUREMENT_DID));
+        await this.waitForPacket(isResponse).catch(() => undefined);
+
+        const entries = this.measurements.map(m => ConcatArrayBuffer(NumberToArrayBuffer4(m.address), DATA_TYPE_INFO[m.dataType].size));
+        await this.sendUDSCommand(
+            NumberToArrayBuffer(UDS_DYNAMIC_DEFINE),
+            NumberToArrayBuffer(DYNAMIC_DEFINE_BY_ADDRESS),
+            NumberToArrayBuffer2(MEASUREMENT_DID),
+            NumberToArrayBuffer(ADDRESS_AND_LENGTH_FORMAT),
+            ...entries
+        );
+        const response = await this.waitForPacket(isResponse, 2000);
+        if (response.getUint8(8) !== UDS_RESPONSE.DYNAMIC_DEFINE_ACCEPTED) {
+            const nrc = response.byteLength > 10 ? response.getUint8(10) : 0;
+            throw new Error(`ECU rejected the measurement definition (NRC 0x${nrc.toString(16).padStart(2, '0')})`);
+        }
+        this.log('Measurements defined');
+    }
+
+    /**
+     * Decode the value of a PID (all selected measurements for MEASUREMENT_DID) at index into data
+     */
+    decodePid(packet: DataView, index: number, pid: IPid, data: Record<string, number>) {
+        if (pid.address === MEASUREMENT_DID) {
+            const bytes = new Uint8Array(packet.buffer, packet.byteOffset + index, pid.length);
+            let offset = 0;
+            for (const m of this.measurements) {
+                data[m.name] = readMeasurementValue(bytes, offset, m, this.measurementsBigEndian);
+                offset += DATA_TYPE_INFO[m.dataType].size;
+            }
+            return;
+        }
+
+        let value = 0;
+        if (pid.length === 1) {
+            value = pid.signed ? packet.getInt8(index) : packet.getUint8(index);
+        } else if (pid.length === 2) {
+            value = pid.signed ? packet.getInt16(index) : packet.getUint16(index);
+        }
+
+        value = eval(pid.equation.replaceAll("x", String(value)));
+        const roundingFactor = Math.pow(10, pid.fractional + 1);
+        data[pid.name] = Math.round(value * roundingFactor) / roundingFactor;
+    }
+
     async waitForPacket(matchFn?: (data: DataView) => boolean, timeoutMs = 500): Promise<DataView> {
         return new Promise((resolve, reject) => {
             const timeout = setTimeout(() => {
@@ -852,11 +972,16 @@ class BLEService {
         // Clear any existing persist commands
         await this.clearPersist();
 
+        this.pids = buildPids(this.measurements);
+        if (this.measurements.length > 0) {
+            await this.defineMeasurements();
+        }
+
         if (persistMode) {
             // Set up persist mode with all PIDs using SimosTools-style combined flags
             await this.setBridgePersistDelay(1000 / this.loggingRate);
 
-            const pids = [...PIDs.values()];
+            const pids = [...this.pids.values()];
             const effectiveChunkSize = chunkSize > 0 ? chunkSize : pids.length;
             const numChunks = Math.ceil(pids.length / effectiveChunkSize);
 
@@ -1031,7 +1156,7 @@ class BLEService {
             data: {}
         };
 
-        const pids = [...PIDs.values()];
+        const pids = [...this.pids.values()];
 
         if (this.persistModeEnabled) {
             // Persist mode: bridge sends data automatically
@@ -1082,7 +1207,7 @@ class BLEService {
                         const address = packet.getUint16(index);
                         index += 2;
 
-                        const pid = PIDs.get(address);
+                        const pid = this.pids.get(address);
                         if (!pid) {
                             // Unknown PID, skip - but we don't know length, so break
                             break;
@@ -1090,18 +1215,7 @@ class BLEService {
 
                         if (index + pid.length > packet.byteLength) break;
 
-                        let value = 0;
-                        if (pid.length === 1) {
-                            value = pid.signed ? packet.getInt8(index) : packet.getUint8(index);
-                        } else if (pid.length === 2) {
-                            value = pid.signed ? packet.getInt16(index) : packet.getUint16(index);
-                        }
-
-                        value = eval(pid.equation.replaceAll("x", String(value)));
-                        const roundingFactor = Math.pow(10, pid.fractional + 1);
-                        value = Math.round(value * roundingFactor) / roundingFactor;
-                        frameData[pid.name] = value;
-
+                        this.decodePid(packet, index, pid, frameData);
                         index += pid.length;
                     }
 
@@ -1146,21 +1260,12 @@ class BLEService {
             const address = packet.getUint16(index);
             index += 2;
 
-            const pid = PIDs.get(address);
+            const pid = this.pids.get(address);
             if (!pid) continue;
 
-            let value = 0;
-            if (pid.length === 1) {
-                value = pid.signed ? packet.getInt8(index) : packet.getUint8(index);
-            } else if (pid.length === 2) {
-                value = pid.signed ? packet.getInt16(index) : packet.getUint16(index);
-            }
-
-            value = eval(pid.equation.replaceAll("x", String(value)));
-            const roundingFactor = Math.pow(10, pid.fractional + 1);
-            value = Math.round(value * roundingFactor) / roundingFactor;
-            frame.data[pid.name] = value;
+            if (index + pid.length > packet.byteLength) break;
 
+            this.decodePid(packet, index, pid, frame.data);
             index += pid.length;
         }
     }
@@ -1176,9 +1281,13 @@ interface BLEConnectorProps {
     onLogData?: (csv: string) => void;
     onClose: () => void;
     vehicleSettings?: VehicleSettings;
+    measurements?: Measurement[]; // A2L measurements of the loaded definition
+    bigEndian?: boolean; // Byte order of the definition (measurement values)
+    channels: string[]; // Names of the measurements logged in addition to the PIDs
+    onChannelsChange: (channels: string[]) => void;
 }
 
-export function BLEConnector({onLogData, onClose, vehicleSettings}: BLEConnectorProps) {
+export function BLEConnector({onLogData, onClose, vehicleSettings, measurements = [], bigEndian = false, channels, onChannelsChange}: BLEConnectorProps) {
     const [status, setStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
     const [info, setInfo] = useState<Record<string, string> | null>(null);
     const [logging, setLogging] = useState(false);
@@ -1192,12 +1301,33 @@ export function BLEConnector({onLogData, onClose, vehicleSettings}: BLEConnector
     const [persistMode, setPersistMode] = useState(true);
     const [debugLogs, setDebugLogs] = useState<string[]>([]);
     const [showDebugLogs, setShowDebugLogs] = useState(false);
+    const [measurementFilter, setMeasurementFilter] = useState('');
     const gpsAvailable = !!navigator.geolocation;
     const accelAvailable = !!window.DeviceMotionEvent;
     const serviceRef = useRef<BLEService | MockBLEService | null>(null);
     const debugLogRef = useRef<HTMLDivElement | null>(null);
     const wakeLockRef = useRef<WakeLockSentinel | null>(null);
 
+    // Selected measurements that exist in the loaded definition
+    const selectedMeasurements = useMemo(() => {
+        const byName = new Map(measurements.map(m => [m.name, m]));
+        return channels.map(name => byName.get(name)).filter((m): m is Measurement => m !== undefined);
+    }, [measurements, channels]);
+
+    // Every word of the filter must appear in the name or description
+    const measurementMatches = useMemo(() => {
+        const words = measurementFilter.toLowerCase().split(/\s+/).filter(Boolean);
+        if (words.length === 0) return [];
+        const selected = new Set(channels);
+        return measurements.filter(m => {
+            if (selected.has(m.name)) return false;
+            const text = `${m.name} ${m.description}`.toLowerCase();
+            return words.every(w => text.includes(w));
+        });
+    }, [measurements, channels, measurementFilter]);
+
+    const pidCount = PIDs.size + (selectedMeasurements.length > 0 ? 1 : 0);
+
     async function requestWakeLock() {
         try {
             if ('wakeLock' in navigator) {
@@ -1296,7 +1426,15 @@ export function BLEConnector({onLogData, onClose, vehicleSettings}: BLEConnector
                 setCurrentFrame(frame);
                 setFrames(prev => [...prev, frame]);
             };
-            await serviceRef.current.startLogging(gpsEnabled, accelEnabled, vehicleSettings, persistMode, chunkSize);
+            serviceRef.current.measurements = selectedMeasurements;
+            serviceRef.current.measurementsBigEndian = bigEndian;
+            try {
+                await serviceRef.current.startLogging(gpsEnabled, accelEnabled, vehicleSettings, persistMode, chunkSize);
+            } catch (e) {
+                console.error(e);
+                alert(`Failed to start logging: ${e instanceof Error ? e.message : e}`);
+                return;
+            }
             setLogging(true);
         }
     }
@@ -1555,17 +1693,81 @@ export function BLEConnector({onLogData, onClose, vehicleSettings}: BLEConnector
                                 onChange={(e) => setChunkSize(Number((e.target as HTMLInputElement).value))}
                                 class="w-16 px-2 py-2 sm:py-1 text-sm bg-zinc-700 border border-zinc-600 rounded"
                                 min={0}
-                                max={PIDs.size}
+                                max={pidCount}
                                 placeholder="0"
                             />
                             <span class="text-xs text-zinc-500">
-                                        {chunkSize === 0 ? `(all ${PIDs.size})` : `(${Math.ceil(PIDs.size / chunkSize)} chunks)`}
+                                        {chunkSize === 0 ? `(all ${pidCount})` : `(${Math.ceil(pidCount / chunkSize)} chunks)`}
                                     </span>
                         </div>
                     </div>
                 </div>
             )}
 
+            {/* A2L measurements */}
+            {measurements.length > 0 && !logging && (
+                <div class="mb-4 p-3 bg-zinc-900 rounded border border-zinc-700">
+                    <div class="flex items-center justify-between mb-2">
+                        <div class="text-xs text-zinc-400">
+                            A2L Measurements ({selectedMeasurements.length} of {measurements.length} logged)
+                        </div>
+                        {channels.length > 0 && (
+                            <button
+                                onClick={() => onChannelsChange([])}
+                                class="text-xs text-zinc-500 hover:text-zinc-400"
+                            >
+                                Clear
+                            </button>
+                        )}
+                    </div>
+                    {selectedMeasurements.length > 0 && (
+                        <div class="flex flex-wrap gap-1 mb-2">
+                            {selectedMeasurements.map(m => (
+                                <span key={m.name} class="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-mono bg-blue-900/40 border border-blue-800/50 rounded" title={m.description}>
+                                    {m.name}
+                                    <button
+                                        onClick={() => onChannelsChange(channels.filter(name => name !== m.name))}
+                                        class="text-zinc-400 hover:text-zinc-200"
+                                    >
+                                        ✕
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <input
+                        type="text"
+                        value={measurementFilter}
+                        onInput={(e) => setMeasurementFilter((e.target as HTMLInputElement).value)}
+                        placeholder="Search measurements..."
+                        class="w-full px-2 py-2 sm:py-1 text-sm bg-zinc-700 border border-zinc-600 rounded"
+                    />
+                    {measurementFilter.trim() && (
+                        <div class="mt-2 max-h-48 overflow-y-auto space-y-1">
+                            {measurementMatches.slice(0, MAX_MEASUREMENT_RESULTS).map(m => (
+                                <button
+                                    key={m.name}
+                                    onClick={() => onChannelsChange([...channels, m.name])}
+                                    class="w-full flex items-center gap-2 px-2 py-1.5 sm:py-1 text-left text-xs bg-zinc-800 hover:bg-zinc-700 rounded"
+                                >
+                                    <span class="font-mono text-zinc-200 shrink-0">{m.name}</span>
+                                    <span class="text-zinc-500 truncate flex-1">{m.description}</span>
+                                    {m.unit && <span class="text-zinc-500 shrink-0">{m.unit}</span>}
+                                </button>
+                            ))}
+                            {measurementMatches.length === 0 && (
+                                <div class="text-xs text-zinc-500 italic">No matching measurements</div>
+                            )}
+                            {measurementMatches.length > MAX_MEASUREMENT_RESULTS && (
+                                <div class="text-xs text-zinc-500">
+                                    {measurementMatches.length - MAX_MEASUREMENT_RESULTS} more, refine the search
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Logging controls */}
             {status === 'connected' && (
                 <div class="mb-4">
@@ -1717,12 +1919,15 @@ export function BLEConnector({onLogData, onClose, vehicleSettings}: BLEConnector
                     <div class="grid grid-cols-2 sm:grid-cols-3 gap-1.5 sm:gap-2 text-xs font-mono">
                         {Object.entries(currentFrame.data).map(([name, value]) => {
                             const pid = [...PIDs.values()].find(p => p.name === name);
+                            const measurement = pid ? undefined : selectedMeasurements.find(m => m.name === name);
+                            const decimals = pid?.fractional ?? (measurement ? measurementDecimals(measurement) : 1);
+                            const unit = pid?.unit ?? measurement?.unit;
                             return (
                                 <div key={name} class="flex justify-between bg-zinc-800 px-2 py-1.5 sm:py-1 rounded">
                                     <span class="text-zinc-400 truncate mr-1">{name}</span>
                                     <span class="text-zinc-100 shrink-0">
-                                                {value.toFixed(pid?.fractional ?? 1)}
-                                        {pid?.unit && <span class="text-zinc-500 ml-1">{pid.unit}</span>}
+                                                {value.toFixed(decimals)}
+                                        {unit && <span class="text-zinc-500 ml-1">{unit}</span>}
                                             </span>
                                 </div>
                             );
@@ -231,15 +231,31 @@ export function CategoryTree({ parameters, onSelect, selectedParam }: Props) {
   }, [handleKeyDown]);
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const scrolledParamRef = useRef<Parameter | null>(null);
 
-  // Scroll selected parameter into view
+  // Expand the categories of a parameter selected elsewhere (hex view, lint)
   useEffect(() => {
-    if (!selectedParam || !scrollContainerRef.current) return;
+    if (!selectedParam) return;
+    const paths: string[] = [];
+    let path = '';
+    for (const cat of selectedParam.categories) {
+      path = path ? `${path}/${cat}` : cat;
+      paths.push(path);
+    }
+    if (paths.every(p => expanded.has(p))) return;
+    setExpanded(prev => new Set([...prev, ...paths]));
+  }, [selectedParam]);
+
+  // Scroll selected parameter into view (once its categories are expanded)
+  useEffect(() => {
+    if (!selectedParam || !scrollContainerRef.current || scrolledParamRef.current === selectedParam) return;
     // Find element by address (unique identifier)
     const elements = scrollContainerRef.current.querySelectorAll('[data-param]');
     const el = Array.from(elements).find(e => e.getAttribute('data-param') === String(selectedParam.address));
-    el?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
-  }, [selectedParam]);
+    if (!el) return;
+    el.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    scrolledParamRef.current = selectedParam;
+  }, [selectedParam, expanded]);
 
   return (
     <div class="flex-1 flex flex-col overflow-hidden">
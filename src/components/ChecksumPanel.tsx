@@ -0,0 +1,90 @@
+import { Modal } from './Modal';
+import type { ChecksumResult, ChecksumStatus } from '../lib/checksum';
+
+interface Props {
+  results: ChecksumResult[];
+  onFix: () => void;
+  onClose: () => void;
+}
+
+function StatusBadge({ status }: { status: ChecksumStatus }) {
+  const styles: Record<ChecksumStatus, string> = {
+    ok: 'bg-green-900 text-green-300',
+    fixed: 'bg-blue-900 text-blue-300',
+    failed: 'bg-red-900/50 text-red-400',
+    unverified: 'bg-amber-900/50 text-amber-300',
+  };
+  const labels: Record<ChecksumStatus, string> = {
+    ok: 'OK',
+    fixed: 'FIXED',
+    failed: 'FAILED',
+    unverified: 'NOT VERIFIED',
+  };
+
+  return (
+    <span class={`px-2 py-0.5 rounded text-xs font-medium ${styles[status]}`}>
+      {labels[status]}
+    </span>
+  );
+}
+
+function hex(value: number, size: number): string {
+  return '0x' + value.toString(16).toUpperCase().padStart(size * 2, '0');
+}
+
+export function ChecksumPanel({ results, onFix, onClose }: Props) {
+  const fixable = results.filter(r => r.status === 'failed').length;
+
+  return (
+    <Modal
+      title="Checksums"
+      onClose={onClose}
+      width="xl"
+      footer={
+        <div class="flex items-center gap-2">
+          <button
+            onClick={onFix}
+            disabled={fixable === 0}
+            class="px-4 py-2 text-sm rounded font-medium bg-green-700 hover:bg-green-600 disabled:bg-zinc-700 disabled:text-zinc-500 transition-colors cursor-pointer disabled:cursor-not-allowed"
+          >
+            Fix Checksums ({fixable})
+          </button>
+          <span class="ml-auto text-xs text-zinc-500">Checksums are corrected automatically on save</span>
+        </div>
+      }
+    >
+      {results.length === 0 ? (
+        <div class="text-center py-4 text-zinc-500 text-sm">
+          No checksums known for this definition.
+        </div>
+      ) : (
+        <div class="space-y-2">
+          {results.map((r, i) => (
+            <div key={i} class="px-3 py-2 rounded bg-zinc-700/50">
+              <div class="flex items-center gap-3">
+                <span class="flex-1 text-sm font-medium truncate">{r.name}</span>
+                <span class="text-xs text-zinc-500">{r.algorithm}</span>
+                <StatusBadge status={r.status} />
+              </div>
+              {r.error ? (
+                <div class="mt-1 text-xs text-amber-400">Could not verify: {r.error}</div>
+              ) : (
+                <div class="mt-1 space-y-0.5 text-xs font-mono text-zinc-400">
+                  <div>
+                    @ {hex(r.offset, 4)}: stored {hex(r.stored, r.size)}
+                    {r.stored !== r.calculated && <span class="text-amber-400"> · calculated {hex(r.calculated, r.size)}</span>}
+                  </div>
+                  {r.ranges.map((range, j) => (
+                    <div key={j} class="text-zinc-500">
+                      {hex(range.start, 4)} – {hex(range.end - 1, 4)} ({range.end - range.start} bytes)
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,561 @@
+import { useState, useEffect, useMemo } from 'preact/hooks';
+import type { ComponentChildren } from 'preact';
+import { DATA_TYPE_INFO } from '../types';
+import type { AxisDefinition, DataType, Definition, Parameter } from '../types';
+import {
+  addressToOffset,
+  getAddressMap,
+  readTableData,
+  readAxisData,
+  readParameterValue,
+  readParameterString,
+  formatValue,
+  getConsistentDecimals,
+  formatValueConsistent,
+} from '../lib/binUtils';
+
+interface Props {
+  definition: Definition;
+  selectedParam: Parameter | null;
+  binData: Uint8Array | null;
+  calOffset: number;
+  ecc: boolean;
+  onChange: (definition: Definition, selected: Parameter | null) => void;
+  onSave: () => void;
+}
+
+const DATA_TYPES = Object.keys(DATA_TYPE_INFO) as DataType[];
+const PARAM_TYPES: Parameter['type'][] = ['VALUE', 'CURVE', 'MAP', 'ASCII'];
+const AXIS_TYPES: AxisDefinition['type'][] = ['FIX_AXIS', 'STD_AXIS', 'COM_AXIS'];
+const UNCATEGORIZED = 'Uncategorized';
+
+// Larger tables are cut off in the preview
+const PREVIEW_MAX_ROWS = 32;
+const PREVIEW_MAX_COLS = 24;
+// Offsets tried around the current address, in elements (like debugFindDataOffset)
+const SCAN_RANGE = 8;
+const SCAN_VALUES = 8;
+
+const inputClass = 'w-full px-2 py-1 bg-zinc-700 border border-zinc-600 rounded text-sm text-zinc-200';
+const buttonClass = 'px-2 py-1 text-xs rounded bg-zinc-700 hover:bg-zinc-600 cursor-pointer disabled:text-zinc-500 disabled:cursor-default disabled:hover:bg-zinc-700';
+
+function hex(value: number): string {
+  return '0x' + value.toString(16).toUpperCase();
+}
+
+function parseHex(text: string): number | null {
+  const value = parseInt(text.trim().replace(/^0x/i, ''), 16);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+function uniqueName(base: string, parameters: Parameter[]): string {
+  const names = new Set(parameters.map(p => p.name));
+  if (!names.has(base)) return base;
+  let i = 2;
+  while (names.has(`${base}_${i}`)) i++;
+  return `${base}_${i}`;
+}
+
+function defaultAxis(points: number): AxisDefinition {
+  return { type: 'FIX_AXIS', points, min: 0, max: points - 1, unit: '' };
+}
+
+/**
+ * Make the dimension fields consistent with the parameter type
+ * Axis point counts follow the table dimensions
+ */
+function normalizeParameter(param: Parameter): Parameter {
+  const p = { ...param };
+  if (p.type === 'VALUE' || p.type === 'ASCII') {
+    delete p.rows;
+    delete p.cols;
+    delete p.xAxis;
+    delete p.yAxis;
+    delete p.columnDir;
+    delete p.dataOffset;
+    if (p.type === 'ASCII') {
+      p.dataType = 'UBYTE';
+      p.length = p.length || 16;
+    } else {
+      delete p.length;
+    }
+    return p;
+  }
+
+  delete p.length;
+  p.cols = Math.max(1, p.cols || 1);
+  p.rows = p.type === 'CURVE' ? 1 : Math.max(1, p.rows || 1);
+  p.xAxis = { ...(p.xAxis ?? defaultAxis(p.cols)), points: p.cols };
+  if (p.type === 'MAP') {
+    p.yAxis = { ...(p.yAxis ?? defaultAxis(p.rows)), points: p.rows };
+  } else {
+    delete p.yAxis;
+  }
+  return p;
+}
+
+function Field({ label, children, wide }: { label: string; children: ComponentChildren; wide?: boolean }) {
+  return (
+    <label class={`block ${wide ? 'col-span-2' : ''}`}>
+      <span class="block text-xs text-zinc-400 mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+/**
+ * Numeric input committed on change (blur or Enter)
+ */
+function NumberInput({ value, onChange, min }: { value: number | undefined; onChange: (value: number) => void; min?: number }) {
+  return (
+    <input
+      type="number"
+      value={value ?? ''}
+      min={min}
+      step="any"
+      onChange={e => {
+        const next = parseFloat((e.target as HTMLInputElement).value);
+        if (Number.isFinite(next)) onChange(next);
+      }}
+      class={inputClass}
+    />
+  );
+}
+
+/**
+ * Hex address input with nudge buttons
+ * Steps are in bytes; the larger steps usually are one element and one table row
+ */
+function AddressInput({ value, steps, onChange }: { value: number; steps: number[]; onChange: (value: number) => void }) {
+  const [text, setText] = useState(hex(value));
+  useEffect(() => setText(hex(value)), [value]);
+
+  const commit = () => {
+    const next = parseHex(text);
+    if (next === null) setText(hex(value));
+    else if (next !== value) onChange(next);
+  };
+  const nudgeSteps = [...new Set(steps.filter(s => s > 0))].sort((a, b) => b - a);
+
+  return (
+    <div class="flex gap-1">
+      {nudgeSteps.map(s => (
+        <button key={-s} onClick={() => onChange(Math.max(0, value - s))} class={buttonClass} title={`-${s} bytes`}>-{s}</button>
+      ))}
+      <input
+        type="text"
+        value={text}
+        onInput={e => setText((e.target as HTMLInputElement).value)}
+        onBlur={commit}
+        onKeyDown={e => e.key === 'Enter' && commit()}
+        class={`${inputClass} font-mono min-w-0`}
+      />
+      {[...nudgeSteps].reverse().map(s => (
+        <button key={s} onClick={() => onChange(value + s)} class={buttonClass} title={`+${s} bytes`}>+{s}</button>
+      ))}
+    </div>
+  );
+}
+
+function AxisEditor({ label, axis, onChange }: { label: string; axis: AxisDefinition; onChange: (axis: AxisDefinition) => void }) {
+  const update = (changes: Partial<AxisDefinition>) => onChange({ ...axis, ...changes });
+  const stored = axis.type === 'STD_AXIS' || axis.type === 'COM_AXIS';
+  // CURVE_AXIS and RES_AXIS come from A2L files and can only be kept or replaced
+  const types = AXIS_TYPES.includes(axis.type) ? AXIS_TYPES : [...AXIS_TYPES, axis.type];
+
+  const setType = (type: AxisDefinition['type']) => {
+    const { rescale: _r, stride: _s, values, ...base } = axis;
+    if (type === 'FIX_AXIS') {
+      const { address: _a, dataType: _d, dataOffset: _o, ...rest } = base;
+      onChange({ ...rest, type, ...(axis.type === 'FIX_AXIS' && values && { values }) });
+    } else {
+      onChange({ ...base, type, address: axis.address ?? 0, dataType: axis.dataType ?? 'UWORD' });
+    }
+  };
+
+  return (
+    <div class="border border-zinc-700 rounded p-3">
+      <div class="text-sm font-medium mb-2">{label} <span class="text-zinc-400 font-normal">({axis.points} points)</span></div>
+      <div class="grid grid-cols-2 gap-2">
+        <Field label="Axis type">
+          <select value={axis.type} onChange={e => setType((e.target as HTMLSelectElement).value as AxisDefinition['type'])} class={inputClass}>
+            {types.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </Field>
+        <Field label="Unit">
+          <input type="text" value={axis.unit} onInput={e => update({ unit: (e.target as HTMLInputElement).value })} class={inputClass}/>
+        </Field>
+        {stored && (
+          <>
+            <Field label="Address" wide>
+              <AddressInput
+                value={axis.address ?? 0}
+                steps={[1, DATA_TYPE_INFO[axis.dataType ?? 'UWORD'].size]}
+                onChange={address => update({ address })}
+              />
+            </Field>
+            <Field label="Data type">
+              <select value={axis.dataType} onChange={e => update({ dataType: (e.target as HTMLSelectElement).value as DataType })} class={inputClass}>
+                {DATA_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </Field>
+            <Field label="Data offset (bytes)">
+              <NumberInput value={axis.dataOffset ?? 0} min={0} onChange={v => update({ dataOffset: v || undefined })}/>
+            </Field>
+            <Field label="Factor">
+              <NumberInput value={axis.factor ?? 1} onChange={factor => update({ factor })}/>
+            </Field>
+            <Field label="Offset">
+              <NumberInput value={axis.offset ?? 0} onChange={offset => update({ offset })}/>
+            </Field>
+          </>
+        )}
+        <Field label="Min">
+          <NumberInput value={axis.min} onChange={min => update({ min })}/>
+        </Field>
+        <Field label="Max">
+          <NumberInput value={axis.max} onChange={max => update({ max })}/>
+        </Field>
+      </div>
+      {axis.values && (
+        <div class="mt-2 text-xs text-zinc-400 truncate" title={axis.values.join(', ')}>
+          Breakpoints: {axis.values.join(', ')}{' '}
+          <button onClick={() => { const { values: _, ...rest } = axis; onChange(rest); }} class="underline cursor-pointer">Use indices</button>
+        </div>
+      )}
+      {axis.rescale && (
+        <div class="mt-2 text-xs text-zinc-400">
+          Breakpoints from {axis.rescale.name} ({axis.rescale.input.points} points at {hex(axis.rescale.input.address ?? 0)})
+        </div>
+      )}
+      {axis.conversion && (
+        <div class="mt-2 text-xs text-amber-400">
+          {axis.conversion.type} conversion replaces factor/offset.{' '}
+          <button onClick={() => { const { conversion: _, ...rest } = axis; onChange(rest); }} class="underline cursor-pointer">Remove</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Read-only view of the draft parameter read from the current BIN
+ */
+function Preview({ param, binData, calOffset, baseAddress, bigEndian, ecc }: {
+  param: Parameter;
+  binData: Uint8Array;
+  calOffset: number;
+  baseAddress: ReturnType<typeof getAddressMap>;
+  bigEndian: boolean;
+  ecc: boolean;
+}) {
+  if (param.type === 'ASCII') {
+    return <div class="font-mono text-sm">"{readParameterString(binData, param, calOffset, baseAddress, ecc)}"</div>;
+  }
+  if (param.type === 'VALUE') {
+    return <div class="font-mono text-sm">{formatValue(readParameterValue(binData, param, calOffset, baseAddress, bigEndian, ecc))} {param.unit}</div>;
+  }
+
+  const table = readTableData(binData, param, calOffset, baseAddress, bigEndian, ecc);
+  const xValues = param.xAxis ? readAxisData(binData, param.xAxis, calOffset, baseAddress, bigEndian, ecc) : [];
+  const yValues = param.yAxis ? readAxisData(binData, param.yAxis, calOffset, baseAddress, bigEndian, ecc) : [];
+  const rows = table.slice(0, PREVIEW_MAX_ROWS).map(r => r.slice(0, PREVIEW_MAX_COLS));
+  const decimals = getConsistentDecimals(rows.flat());
+  const xDecimals = getConsistentDecimals(xValues);
+  const yDecimals = getConsistentDecimals(yValues);
+  const truncated = table.length > PREVIEW_MAX_ROWS || (table[0]?.length ?? 0) > PREVIEW_MAX_COLS;
+
+  return (
+    <div class="overflow-auto">
+      <table class="text-xs font-mono border-collapse">
+        <thead>
+          <tr>
+            {param.type === 'MAP' && <th class="px-2 py-1"/>}
+            {rows[0]?.map((_, c) => (
+              <th key={c} class="px-2 py-1 text-zinc-400 font-normal text-right">
+                {xValues[c] !== undefined ? formatValueConsistent(xValues[c], xDecimals) : c}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, r) => (
+            <tr key={r}>
+              {param.type === 'MAP' && (
+                <th class="px-2 py-1 text-zinc-400 font-normal text-right">
+                  {yValues[r] !== undefined ? formatValueConsistent(yValues[r], yDecimals) : r}
+                </th>
+              )}
+              {row.map((v, c) => (
+                <td key={c} class={`px-2 py-1 text-right border border-zinc-700 ${v < param.min || v > param.max ? 'text-amber-400' : ''}`}>
+                  {formatValueConsistent(v, decimals)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {truncated && <div class="text-xs text-zinc-500 mt-1">Showing the first {PREVIEW_MAX_ROWS}×{PREVIEW_MAX_COLS} cells</div>}
+    </div>
+  );
+}
+
+/**
+ * Definition editing mode: create, duplicate and delete parameters and edit
+ * their layout and scaling with a live preview from the loaded BIN
+ */
+export function DefinitionEditor({ definition, selectedParam, binData, calOffset, ecc, onChange, onSave }: Props) {
+  const [draft, setDraft] = useState<Parameter | null>(selectedParam);
+  const [categoryText, setCategoryText] = useState('');
+
+  useEffect(() => {
+    setDraft(selectedParam);
+    setCategoryText(selectedParam?.categories.join('/') ?? '');
+  }, [selectedParam]);
+
+  const baseAddress = getAddressMap(definition);
+  const bigEndian = definition.bigEndian ?? false;
+  const dirty = draft !== selectedParam;
+
+  const update = (changes: Partial<Parameter>) => setDraft(d => d && normalizeParameter({ ...d, ...changes }));
+
+  const replaceParameters = (parameters: Parameter[], selected: Parameter | null) => {
+    onChange({ ...definition, parameters }, selected);
+  };
+
+  const handleApply = () => {
+    if (!draft || !selectedParam) return;
+    replaceParameters(definition.parameters.map(p => p === selectedParam ? draft : p), draft);
+  };
+
+  const insertAfterSelected = (param: Parameter) => {
+    const parameters = [...definition.parameters];
+    const index = selectedParam ? parameters.indexOf(selectedParam) : -1;
+    parameters.splice(index >= 0 ? index + 1 : parameters.length, 0, param);
+    replaceParameters(parameters, param);
+  };
+
+  const handleNew = () => {
+    insertAfterSelected({
+      name: uniqueName('NEW_PARAMETER', definition.parameters),
+      description: '',
+      address: selectedParam?.address ?? definition.parameters[0]?.address ?? 0,
+      type: 'VALUE',
+      dataType: 'UWORD',
+      unit: '',
+      min: 0,
+      max: 65535,
+      factor: 1,
+      offset: 0,
+      // Parameters without a category don't appear in the tree
+      categories: selectedParam?.categories.length ? selectedParam.categories : [UNCATEGORIZED],
+    });
+  };
+
+  const handleDuplicate = () => {
+    if (!draft) return;
+    // structuredClone keeps the copy's axes independent of the original
+    insertAfterSelected({ ...structuredClone(draft), name: uniqueName(draft.name, definition.parameters) });
+  };
+
+  const handleDelete = () => {
+    if (!selectedParam || !confirm(`Delete ${selectedParam.name} from the definition?`)) return;
+    replaceParameters(definition.parameters.filter(p => p !== selectedParam), null);
+  };
+
+  const dataAddress = draft ? draft.address + (draft.dataOffset ?? 0) : 0;
+  const fileOffset = draft ? addressToOffset(dataAddress, calOffset, baseAddress) : 0;
+  const elementSize = draft ? DATA_TYPE_INFO[draft.dataType].size : 1;
+  const rowSize = draft ? (draft.columnDir ? draft.rows || 1 : draft.cols || 1) * elementSize : 1;
+
+  // Values at nearby offsets, to find where the data really starts
+  const scan = useMemo(() => {
+    if (!draft || !binData || draft.type === 'ASCII') return [];
+    const probe: Parameter = { ...draft, type: 'CURVE', rows: 1, cols: SCAN_VALUES, columnDir: false };
+    const result: { delta: number; values: number[]; inRange: boolean }[] = [];
+    for (let i = -SCAN_RANGE; i <= SCAN_RANGE; i++) {
+      const delta = i * elementSize;
+      if (draft.address + delta < 0) continue;
+      const values = readTableData(binData, { ...probe, address: draft.address + delta }, calOffset, baseAddress, bigEndian, ecc)[0];
+      result.push({ delta, values, inRange: values.every(v => v >= draft.min && v <= draft.max) });
+    }
+    return result;
+  }, [draft, binData, calOffset, baseAddress, bigEndian, ecc, elementSize]);
+
+  return (
+    <div class="relative flex flex-col gap-4 max-w-5xl">
+      <div class="flex flex-wrap items-center gap-2">
+        <h2 class="text-lg font-semibold mr-auto">Definition Editor</h2>
+        <button onClick={handleNew} class={buttonClass}>New</button>
+        <button onClick={handleDuplicate} disabled={!draft} class={buttonClass}>Duplicate</button>
+        <button onClick={handleDelete} disabled={!selectedParam} class={buttonClass}>Delete</button>
+        <button onClick={onSave} class={buttonClass}>Save Definition JSON</button>
+      </div>
+
+      <div class="grid grid-cols-2 gap-2 max-w-xl">
+        <Field label="Definition name">
+          <input
+            type="text"
+            value={definition.name}
+            onChange={e => onChange({ ...definition, name: (e.target as HTMLInputElement).value }, selectedParam)}
+            class={inputClass}
+          />
+        </Field>
+        <Field label="Version">
+          <input
+            type="text"
+            value={definition.version}
+            onChange={e => onChange({ ...definition, version: (e.target as HTMLInputElement).value }, selectedParam)}
+            class={inputClass}
+          />
+        </Field>
+      </div>
+
+      {!draft ? (
+        <div class="text-zinc-500 text-sm">Select a parameter from the tree or create a new one</div>
+      ) : (
+        <div class="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div class="flex flex-col gap-3">
+            <div class="grid grid-cols-2 gap-2">
+              <Field label="Name" wide>
+                <input type="text" value={draft.name} onInput={e => update({ name: (e.target as HTMLInputElement).value })} class={inputClass}/>
+              </Field>
+              <Field label="Description" wide>
+                <input type="text" value={draft.description} onInput={e => update({ description: (e.target as HTMLInputElement).value })} class={inputClass}/>
+              </Field>
+              <Field label="Categories (separated by /)" wide>
+                <input
+                  type="text"
+                  value={categoryText}
+                  onInput={e => {
+                    const text = (e.target as HTMLInputElement).value;
+                    setCategoryText(text);
+                    const categories = text.split('/').map(c => c.trim()).filter(Boolean);
+                    update({ categories: categories.length > 0 ? categories : [UNCATEGORIZED] });
+                  }}
+                  class={inputClass}
+                />
+              </Field>
+              <Field label="Type">
+                <select value={draft.type} onChange={e => update({ type: (e.target as HTMLSelectElement).value as Parameter['type'] })} class={inputClass}>
+                  {PARAM_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </Field>
+              <Field label="Data type">
+                <select
+                  value={draft.dataType}
+                  disabled={draft.type === 'ASCII'}
+                  onChange={e => update({ dataType: (e.target as HTMLSelectElement).value as DataType })}
+                  class={inputClass}
+                >
+                  {DATA_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </Field>
+              <Field label="Address" wide>
+                <AddressInput
+                  value={draft.address}
+                  steps={[1, elementSize, draft.type === 'MAP' ? rowSize : 0]}
+                  onChange={address => update({ address })}
+                />
+              </Field>
+              <div class="col-span-2 text-xs text-zinc-400">
+                {fileOffset >= 0 && (!binData || fileOffset < binData.length)
+                  ? `File offset ${hex(fileOffset)}`
+                  : <span class="text-red-400">Address is outside the loaded BIN</span>}
+              </div>
+              {draft.type === 'ASCII' && (
+                <Field label="Length (bytes)">
+                  <NumberInput value={draft.length} min={1} onChange={v => update({ length: Math.max(1, Math.round(v)) })}/>
+                </Field>
+              )}
+              {(draft.type === 'CURVE' || draft.type === 'MAP') && (
+                <>
+                  {draft.type === 'MAP' && (
+                    <Field label="Rows">
+                      <NumberInput value={draft.rows} min={1} onChange={v => update({ rows: Math.round(v) })}/>
+                    </Field>
+                  )}
+                  <Field label="Columns">
+                    <NumberInput value={draft.cols} min={1} onChange={v => update({ cols: Math.round(v) })}/>
+                  </Field>
+                  <Field label="Data offset (bytes)">
+                    <NumberInput value={draft.dataOffset ?? 0} min={0} onChange={v => update({ dataOffset: v || undefined })}/>
+                  </Field>
+                  {draft.type === 'MAP' && (
+                    <label class="flex items-center gap-2 text-sm self-end pb-1">
+                      <input type="checkbox" checked={!!draft.columnDir} onChange={e => update({ columnDir: (e.target as HTMLInputElement).checked || undefined })}/>
+                      Column-major
+                    </label>
+                  )}
+                </>
+              )}
+              {draft.type !== 'ASCII' && (
+                <>
+                  <Field label="Factor">
+                    <NumberInput value={draft.factor} onChange={factor => update({ factor })}/>
+                  </Field>
+                  <Field label="Offset">
+                    <NumberInput value={draft.offset} onChange={offset => update({ offset })}/>
+                  </Field>
+                  <Field label="Min">
+                    <NumberInput value={draft.min} onChange={min => update({ min })}/>
+                  </Field>
+                  <Field label="Max">
+                    <NumberInput value={draft.max} onChange={max => update({ max })}/>
+                  </Field>
+                  <Field label="Unit">
+                    <input type="text" value={draft.unit} onInput={e => update({ unit: (e.target as HTMLInputElement).value })} class={inputClass}/>
+                  </Field>
+                </>
+              )}
+            </div>
+            {draft.conversion && (
+              <div class="text-xs text-amber-400">
+                {draft.conversion.type} conversion replaces factor/offset.{' '}
+                <button onClick={() => { const { conversion: _, ...rest } = draft; setDraft(rest); }} class="underline cursor-pointer">Remove</button>
+              </div>
+            )}
+            {draft.xAxis && <AxisEditor label="X axis" axis={draft.xAxis} onChange={xAxis => update({ xAxis })}/>}
+            {draft.yAxis && <AxisEditor label="Y axis" axis={draft.yAxis} onChange={yAxis => update({ yAxis })}/>}
+            <div class="flex gap-2">
+              <button
+                onClick={handleApply}
+                disabled={!dirty || !selectedParam}
+                class="px-3 py-1 text-sm rounded bg-blue-600 hover:bg-blue-500 text-white cursor-pointer disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-default"
+              >
+                Apply
+              </button>
+              <button onClick={() => setDraft(selectedParam)} disabled={!dirty} class={buttonClass}>Revert</button>
+            </div>
+          </div>
+
+          <div class="flex flex-col gap-3 min-w-0">
+            <div>
+              <div class="text-sm font-medium mb-2">Preview</div>
+              {binData
+                ? <Preview param={draft} binData={binData} calOffset={calOffset} baseAddress={baseAddress} bigEndian={bigEndian} ecc={ecc}/>
+                : <div class="text-zinc-500 text-sm">Load a BIN to preview the data</div>}
+            </div>
+            {scan.length > 0 && (
+              <div>
+                <div class="text-sm font-medium mb-2">Nearby offsets</div>
+                <div class="text-xs font-mono space-y-0.5">
+                  {scan.map(({ delta, values, inRange }) => (
+                    <button
+                      key={delta}
+                      onClick={() => update({ address: draft.address + delta })}
+                      class={`block w-full text-left px-2 py-0.5 rounded hover:bg-zinc-700 cursor-pointer ${delta === 0 ? 'bg-zinc-700' : ''}`}
+                    >
+                      <span class={inRange ? 'text-green-400' : 'text-zinc-500'}>{inRange ? '✓' : '·'}</span>
+                      {' '}{(delta >= 0 ? '+' : '') + delta}: [{values.map(v => formatValue(v)).join(', ')}]
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
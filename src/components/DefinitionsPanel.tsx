@@ -0,0 +1,129 @@
+import { useState } from 'preact/hooks';
+import { Modal } from './Modal';
+import type { DefinitionIndexEntry } from '../lib/definitionLoader';
+
+interface Props {
+  definitions: DefinitionIndexEntry[];
+  onSelect: (entry: DefinitionIndexEntry) => void;
+  onClose: () => void;
+}
+
+type SortKey = 'name' | 'boxcode' | 'swVersion' | 'ecuFamily' | 'paramCount';
+
+const SORT_LABELS: Record<SortKey, string> = {
+  name: 'Name',
+  boxcode: 'Boxcode',
+  swVersion: 'SW version',
+  ecuFamily: 'ECU family',
+  paramCount: 'Parameters',
+};
+
+function compareEntries(a: DefinitionIndexEntry, b: DefinitionIndexEntry, key: SortKey): number {
+  if (key === 'paramCount') return b.paramCount - a.paramCount;
+  // Entries without the field go last
+  const av = a[key] ?? '';
+  const bv = b[key] ?? '';
+  if (!av !== !bv) return av ? -1 : 1;
+  return av.localeCompare(bv, undefined, { numeric: true }) || a.name.localeCompare(b.name);
+}
+
+export function DefinitionsPanel({ definitions, onSelect, onClose }: Props) {
+  const [search, setSearch] = useState('');
+  const [family, setFamily] = useState('');
+  const [patch, setPatch] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+
+  const families = [...new Set(definitions.map(d => d.ecuFamily).filter((f): f is string => !!f))].sort();
+  const patchSets = [...new Set(definitions.flatMap(d => d.patches ?? []))].sort();
+
+  const query = search.trim().toLowerCase();
+  const visible = definitions
+    .filter(d => !family || d.ecuFamily === family)
+    .filter(d => !patch || d.patches?.includes(patch))
+    .filter(d => !query || [d.name, d.file, d.boxcode, d.swVersion, d.verification?.expected]
+      .some(v => v?.toLowerCase().includes(query)))
+    .sort((a, b) => compareEntries(a, b, sortKey));
+
+  const selectClass = 'px-2 py-1 bg-zinc-700 border border-zinc-600 rounded text-sm text-zinc-200 cursor-pointer';
+
+  return (
+    <Modal title="Definitions" onClose={onClose} width="lg">
+      <div class="space-y-4">
+        {definitions.length === 0 ? (
+          <div class="text-center py-4 text-zinc-500">
+            No definitions available.
+          </div>
+        ) : (
+          <div>
+            <div class="flex flex-wrap gap-2 mb-3">
+              <input
+                type="text"
+                value={search}
+                onInput={e => setSearch((e.target as HTMLInputElement).value)}
+                placeholder="Search name, boxcode, SW version, EPK..."
+                class="flex-1 min-w-48 px-2 py-1 bg-zinc-700 border border-zinc-600 rounded text-sm text-zinc-200 placeholder:text-zinc-500"
+              />
+              <select value={family} onChange={e => setFamily((e.target as HTMLSelectElement).value)} class={selectClass}>
+                <option value="">All families</option>
+                {families.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+              {patchSets.length > 0 && (
+                <select value={patch} onChange={e => setPatch((e.target as HTMLSelectElement).value)} class={selectClass}>
+                  <option value="">Any patches</option>
+                  {patchSets.map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+              )}
+              <select value={sortKey} onChange={e => setSortKey((e.target as HTMLSelectElement).value as SortKey)} class={selectClass}>
+                {(Object.keys(SORT_LABELS) as SortKey[]).map(k => (
+                  <option key={k} value={k}>Sort: {SORT_LABELS[k]}</option>
+                ))}
+              </select>
+            </div>
+            <div class="text-sm text-zinc-400 mb-3">
+              {visible.length === definitions.length
+                ? `${definitions.length} definition${definitions.length !== 1 ? 's' : ''} available`
+                : `${visible.length} of ${definitions.length} definitions`}
+            </div>
+            <div class="max-h-96 overflow-y-auto space-y-1">
+              {visible.map((entry) => (
+                <button
+                  key={entry.libraryId ?? entry.file}
+                  onClick={() => onSelect(entry)}
+                  class="w-full text-left p-3 bg-zinc-700 hover:bg-zinc-600 rounded border border-zinc-600 transition-colors"
+                >
+                  <div class="flex items-center justify-between">
+                    <div>
+                      <div class="font-medium">
+                        {entry.name}
+                        {entry.ecuFamily && <span class="ml-2 text-xs font-normal text-zinc-400">{entry.ecuFamily}</span>}
+                        {entry.libraryId !== undefined && <span class="ml-2 px-1.5 py-0.5 rounded text-[10px] font-normal bg-blue-900/50 text-blue-300">Library</span>}
+                      </div>
+                      <div class="text-xs text-zinc-400 mt-1">
+                        {entry.boxcode && `${entry.boxcode} · `}
+                        {entry.swVersion && `SW ${entry.swVersion} · `}
+                        {entry.paramCount} parameters
+                        {entry.verification?.expected && ` · ${entry.verification.expected}`}
+                      </div>
+                      {entry.patches && entry.patches.length > 0 && (
+                        <div class="flex flex-wrap gap-1 mt-1">
+                          {entry.patches.map(p => (
+                            <span key={p} class="px-1.5 py-0.5 rounded text-[10px] bg-zinc-800 text-zinc-400">{p}</span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    {entry.verification?.calOffset !== undefined && (
+                      <div class="text-xs text-zinc-500">
+                        CAL @ 0x{entry.verification.calOffset.toString(16).toUpperCase()}
+                      </div>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
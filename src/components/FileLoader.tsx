@@ -9,6 +9,9 @@ interface Props {
 export function FileLoader({ onDefinitionLoad }: Props) {
   const a2lRef = useRef<HTMLInputElement>(null);
   const csvRef = useRef<HTMLInputElement>(null);
+  const includesRef = useRef<HTMLInputElement>(null);
+  const hierarchyRef = useRef<HTMLInputElement>(null);
+  const uncategorizedRef = useRef<HTMLInputElement>(null);
 
   const handleA2LConvert = async () => {
     const a2lFile = a2lRef.current?.files?.[0];
@@ -26,11 +29,24 @@ export function FileLoader({ onDefinitionLoad }: Props) {
       parser.parseCsv(csvContent);
     }
 
-    await parser.parseA2L(a2lFile);
+    try {
+      await parser.parseA2L(a2lFile, [...(includesRef.current?.files ?? [])]);
+    } catch (err) {
+      console.error('A2L parse failed:', err);
+      alert(`Could not read ${a2lFile.name}\n\n${err instanceof Error ? err.message : err}`);
+      return;
+    }
     const stats = parser.getStats();
 
-    const definition = parser.generateDefinition(a2lFile.name.replace('.a2l', ''));
-    console.log(`Converted: ${stats.matched}/${stats.characteristics} parameters`);
+    const definition = parser.generateDefinition(a2lFile.name.replace('.a2l', ''), {
+      hierarchy: hierarchyRef.current?.checked ?? true,
+      uncategorized: uncategorizedRef.current?.checked ?? false,
+    });
+    console.log(`Converted: ${definition.parameters.length}/${stats.characteristics} parameters (${stats.matched} in CSV, ${stats.inHierarchy} in FUNCTION/GROUP), ${stats.measurements} measurements, ${stats.segments} memory segments`);
+    if (definition.parameters.length === 0) {
+      alert(`No parameters converted: none of the ${stats.characteristics} characteristics matched the CSV or an A2L FUNCTION/GROUP. Enable "Include uncategorized" to convert all of them.`);
+      return;
+    }
 
     onDefinitionLoad(definition);
 
@@ -56,6 +72,16 @@ export function FileLoader({ onDefinitionLoad }: Props) {
             class="p-2 bg-zinc-700 border border-zinc-600 rounded text-zinc-200 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:bg-zinc-600 file:text-zinc-200"
           />
         </label>
+        <label class="flex flex-col gap-1 text-xs text-zinc-400">
+          Included files (optional)
+          <input
+            type="file"
+            multiple
+            ref={includesRef}
+            title="Files referenced by /include in the A2L"
+            class="p-2 bg-zinc-700 border border-zinc-600 rounded text-zinc-200 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:bg-zinc-600 file:text-zinc-200"
+          />
+        </label>
         <label class="flex flex-col gap-1 text-xs text-zinc-400">
           Categories CSV (optional)
           <input
@@ -66,6 +92,16 @@ export function FileLoader({ onDefinitionLoad }: Props) {
           />
         </label>
       </div>
+      <div class="flex flex-wrap gap-4 text-sm text-zinc-300">
+        <label class="flex items-center gap-2 cursor-pointer select-none" title="CSV categories take precedence where a pattern matches">
+          <input type="checkbox" ref={hierarchyRef} defaultChecked class="w-4 h-4 rounded bg-zinc-700 border-zinc-600" />
+          Categories from A2L FUNCTION/GROUP
+        </label>
+        <label class="flex items-center gap-2 cursor-pointer select-none">
+          <input type="checkbox" ref={uncategorizedRef} class="w-4 h-4 rounded bg-zinc-700 border-zinc-600" />
+          Include uncategorized
+        </label>
+      </div>
       <button
         onClick={handleA2LConvert}
         class="px-4 py-2 bg-blue-500 text-white rounded font-medium hover:bg-blue-400"
@@ -0,0 +1,370 @@
+import { useState, useMemo, useEffect, useRef } from 'preact/hooks';
+import { DATA_TYPE_INFO } from '../types';
+import type { Definition, Parameter } from '../types';
+import type { PatchCheckResult } from '../lib/btpParser';
+import { addressToOffset, offsetToAddress, getAddressMap, logicalToPhysical, physicalToLogical, isEccPosition, writeEccBytes, storedAxes, axisByteLength } from '../lib/binUtils';
+
+const BYTES_PER_ROW = 16;
+const ROW_HEIGHT = 20; // px, must match the row class below
+const OVERSCAN = 8;    // Rows rendered above and below the viewport
+
+// Overlay flags per byte
+const FLAG_DATA = 1;
+const FLAG_AXIS = 2;
+const FLAG_PATCH = 4;
+
+interface Props {
+  binData: Uint8Array;
+  originalBinData: Uint8Array | null;
+  definition: Definition | null;
+  patchResults: PatchCheckResult[];
+  selectedParam: Parameter | null;
+  calOffset: number;
+  ecc: boolean;
+  onSelect: (param: Parameter) => void;
+  onModify: () => void;
+}
+
+interface ByteOverlay {
+  owner: Int32Array;  // Index of the owning parameter, -1 if none
+  flags: Uint8Array;
+}
+
+interface Cursor {
+  offset: number;
+  pane: 'hex' | 'ascii';
+  lowNibble: boolean;  // Next hex digit replaces the low nibble
+}
+
+function hex(value: number, digits: number): string {
+  return value.toString(16).toUpperCase().padStart(digits, '0');
+}
+
+/**
+ * Mark the file bytes of `count` logical bytes starting at a file offset
+ * For raw ECC dumps the logical bytes are spread over their physical positions
+ */
+function markBytes(overlay: ByteOverlay, start: number, count: number, index: number, flag: number, ecc: boolean) {
+  const { owner, flags } = overlay;
+  for (let i = 0; i < count; i++) {
+    if (start + i < 0) continue;
+    const offset = ecc ? logicalToPhysical(start + i) : start + i;
+    if (offset >= owner.length) break;
+    owner[offset] = index;
+    flags[offset] |= flag;
+  }
+}
+
+/**
+ * Build the per-byte ownership map of a definition and the BTP patch blocks
+ * Axes are marked first so that parameter data wins where both cover the same bytes
+ */
+function buildOverlay(length: number, definition: Definition | null, patchResults: PatchCheckResult[], calOffset: number, ecc: boolean): ByteOverlay {
+  const overlay: ByteOverlay = { owner: new Int32Array(length).fill(-1), flags: new Uint8Array(length) };
+
+  if (definition) {
+    const baseAddress = getAddressMap(definition);
+    const parameters = definition.parameters;
+    for (let i = 0; i < parameters.length; i++) {
+      for (const axis of [...storedAxes(parameters[i].xAxis), ...storedAxes(parameters[i].yAxis)]) {
+        markBytes(overlay, addressToOffset(axis.address! + (axis.dataOffset ?? 0), calOffset, baseAddress), axisByteLength(axis), i, FLAG_AXIS, ecc);
+      }
+    }
+    for (let i = 0; i < parameters.length; i++) {
+      const p = parameters[i];
+      const count = p.type === 'ASCII' ? p.length ?? 1 : (p.rows || 1) * (p.cols || 1);
+      const start = addressToOffset(p.address + (p.dataOffset ?? 0), calOffset, baseAddress);
+      markBytes(overlay, start, count * DATA_TYPE_INFO[p.dataType].size, i, FLAG_DATA, ecc);
+    }
+  }
+
+  // BTP blocks address the file directly
+  for (const patch of patchResults) {
+    for (const block of patch.blocks) {
+      const end = Math.min(block.offset + block.length, length);
+      for (let offset = block.offset; offset < end; offset++) overlay.flags[offset] |= FLAG_PATCH;
+    }
+  }
+
+  return overlay;
+}
+
+/**
+ * Virtualized hex/ASCII view of the whole binary with parameter, axis, patch and change overlays
+ */
+export function HexEditor({ binData, originalBinData, definition, patchResults, selectedParam, calOffset, ecc, onSelect, onModify }: Props) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const [cursor, setCursor] = useState<Cursor>({ offset: 0, pane: 'hex', lowNibble: false });
+  const [gotoInput, setGotoInput] = useState('');
+  const [, setVersion] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const overlay = useMemo(
+    () => buildOverlay(binData.length, definition, patchResults, calOffset, ecc),
+    [binData, definition, patchResults, calOffset, ecc]
+  );
+
+  const parameters = definition?.parameters ?? [];
+  const baseAddress = getAddressMap(definition);
+  // Bit fields share their bytes, so the address alone doesn't identify a parameter
+  const selectedIndex = selectedParam ? parameters.findIndex(p => p.name === selectedParam.name && p.address === selectedParam.address) : -1;
+  const selectedData = useMemo(() => {
+    if (selectedIndex < 0) return null;
+    const p = parameters[selectedIndex];
+    const count = p.type === 'ASCII' ? p.length ?? 1 : (p.rows || 1) * (p.cols || 1);
+    const start = addressToOffset(p.address + (p.dataOffset ?? 0), calOffset, baseAddress);
+    return { start, end: start + count * DATA_TYPE_INFO[p.dataType].size };
+  }, [selectedIndex, definition, calOffset]);
+  const totalRows = Math.ceil(binData.length / BYTES_PER_ROW);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const scrollToOffset = (offset: number, align: 'nearest' | 'top') => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const top = Math.floor(offset / BYTES_PER_ROW) * ROW_HEIGHT;
+    if (align === 'top') {
+      el.scrollTop = Math.max(0, top - 2 * ROW_HEIGHT);
+    } else if (top < el.scrollTop) {
+      el.scrollTop = top;
+    } else if (top + ROW_HEIGHT > el.scrollTop + el.clientHeight) {
+      el.scrollTop = top + ROW_HEIGHT - el.clientHeight;
+    }
+  };
+
+  const moveCursor = (offset: number, pane: Cursor['pane'] = cursor.pane) => {
+    const clamped = Math.max(0, Math.min(binData.length - 1, offset));
+    setCursor({ offset: clamped, pane, lowNibble: false });
+    scrollToOffset(clamped, 'nearest');
+  };
+
+  // Jump to a parameter selected elsewhere (tree, lint), unless the cursor is already on it
+  useEffect(() => {
+    if (selectedIndex < 0 || overlay.owner[cursor.offset] === selectedIndex) return;
+    const p = parameters[selectedIndex];
+    const logical = addressToOffset(p.address + (p.dataOffset ?? 0), calOffset, baseAddress);
+    const offset = ecc ? logicalToPhysical(logical) : logical;
+    if (offset < 0 || offset >= binData.length) return;
+    setCursor({ offset, pane: cursor.pane, lowNibble: false });
+    scrollToOffset(offset, 'top');
+  }, [selectedIndex, overlay]);
+
+  const writeByte = (offset: number, value: number) => {
+    // ECC bytes are derived from the data and recalculated below
+    if (ecc && isEccPosition(offset)) return;
+    if (binData[offset] === value) return;
+    if (ecc) {
+      try {
+        writeEccBytes(binData, [{ offset, value }]);
+      } catch (err) {
+        console.error('Write failed:', err);
+        alert(`Write failed: ${err instanceof Error ? err.message : err}`);
+        return;
+      }
+    } else {
+      binData[offset] = value;
+    }
+    setVersion(v => v + 1);
+    onModify();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    // Keep arrow keys away from the parameter tree navigation
+    e.stopPropagation();
+    const pageBytes = Math.max(1, Math.floor(viewportHeight / ROW_HEIGHT) - 1) * BYTES_PER_ROW;
+    const moves: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowRight: 1,
+      ArrowUp: -BYTES_PER_ROW,
+      ArrowDown: BYTES_PER_ROW,
+      PageUp: -pageBytes,
+      PageDown: pageBytes,
+    };
+    if (e.key in moves) {
+      e.preventDefault();
+      moveCursor(cursor.offset + moves[e.key]);
+      return;
+    }
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      setCursor({ ...cursor, pane: cursor.pane === 'hex' ? 'ascii' : 'hex', lowNibble: false });
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey || e.key.length !== 1) return;
+
+    if (cursor.pane === 'hex') {
+      if (!/^[0-9a-f]$/i.test(e.key)) return;
+      e.preventDefault();
+      const digit = parseInt(e.key, 16);
+      const current = binData[cursor.offset];
+      if (cursor.lowNibble) {
+        writeByte(cursor.offset, (current & 0xf0) | digit);
+        moveCursor(cursor.offset + 1);
+      } else {
+        writeByte(cursor.offset, (digit << 4) | (current & 0x0f));
+        setCursor({ ...cursor, lowNibble: true });
+      }
+    } else {
+      const code = e.key.charCodeAt(0);
+      if (code < 0x20 || code > 0x7e) return;
+      e.preventDefault();
+      writeByte(cursor.offset, code);
+      moveCursor(cursor.offset + 1);
+    }
+  };
+
+  const handleByteClick = (offset: number, pane: Cursor['pane']) => {
+    setCursor({ offset, pane, lowNibble: false });
+    scrollRef.current?.focus();
+    const index = overlay.owner[offset];
+    if (index >= 0) onSelect(parameters[index]);
+  };
+
+  const handleGoto = () => {
+    const text = gotoInput.trim();
+    const offset = parseInt(text.replace(/^0x/i, ''), 16);
+    if (!text || isNaN(offset)) return;
+    moveCursor(offset);
+    scrollToOffset(Math.max(0, Math.min(binData.length - 1, offset)), 'top');
+  };
+
+  const byteClass = (offset: number): string => {
+    const flags = overlay.flags[offset];
+    const classes: string[] = [];
+    const logical = ecc ? physicalToLogical(offset) : offset;
+    if ((overlay.owner[offset] === selectedIndex && selectedIndex >= 0) || (selectedData && logical >= selectedData.start && logical < selectedData.end)) {
+      classes.push('bg-blue-600/70');
+    } else if (flags & FLAG_DATA) {
+      classes.push('bg-blue-900/50');
+    } else if (flags & FLAG_AXIS) {
+      classes.push('bg-teal-900/60');
+    } else if (flags & FLAG_PATCH) {
+      classes.push('bg-purple-900/60');
+    }
+    if (flags & FLAG_PATCH) classes.push('underline decoration-purple-400');
+    if (originalBinData && originalBinData[offset] !== binData[offset]) {
+      classes.push('text-amber-300 font-bold');
+    } else if (ecc && isEccPosition(offset)) {
+      classes.push('text-zinc-600');
+    } else if (!flags) {
+      classes.push('text-zinc-400');
+    }
+    if (overlay.owner[offset] >= 0) classes.push('cursor-pointer');
+    return classes.join(' ');
+  };
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(totalRows, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const rows = [];
+  for (let row = firstRow; row < lastRow; row++) {
+    const rowStart = row * BYTES_PER_ROW;
+    const rowEnd = Math.min(rowStart + BYTES_PER_ROW, binData.length);
+    const hexCells = [];
+    const asciiCells = [];
+    for (let offset = rowStart; offset < rowEnd; offset++) {
+      const b = binData[offset];
+      const isCursor = offset === cursor.offset;
+      const cls = byteClass(offset);
+      hexCells.push(
+        <span
+          key={offset}
+          class={`inline-block w-[2.5ch] text-center ${cls} ${isCursor && cursor.pane === 'hex' ? 'outline outline-1 outline-zinc-100' : ''}`}
+          onMouseDown={(e) => { e.preventDefault(); handleByteClick(offset, 'hex'); }}
+        >
+          {hex(b, 2)}
+        </span>
+      );
+      asciiCells.push(
+        <span
+          key={offset}
+          class={`inline-block w-[1ch] ${cls} ${isCursor && cursor.pane === 'ascii' ? 'outline outline-1 outline-zinc-100' : ''}`}
+          onMouseDown={(e) => { e.preventDefault(); handleByteClick(offset, 'ascii'); }}
+        >
+          {b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'}
+        </span>
+      );
+    }
+    rows.push(
+      <div
+        key={row}
+        class="absolute left-0 flex gap-4 px-2 h-5 leading-5 whitespace-pre"
+        style={{ top: row * ROW_HEIGHT }}
+      >
+        <span class="text-zinc-500">{hex(rowStart, 8)}</span>
+        <span>{hexCells}</span>
+        <span>{asciiCells}</span>
+      </div>
+    );
+  }
+
+  // Status line for the byte under the cursor
+  const cursorOwner = overlay.owner[cursor.offset];
+  const cursorFlags = overlay.flags[cursor.offset];
+  const cursorLogical = ecc ? physicalToLogical(cursor.offset) : cursor.offset;
+  const cursorAddress = cursorLogical >= 0 ? offsetToAddress(cursorLogical, calOffset, baseAddress) : null;
+  const cursorPatches = patchResults.filter(r => r.blocks.some(b => cursor.offset >= b.offset && cursor.offset < b.offset + b.length));
+  const original = originalBinData?.[cursor.offset];
+
+  return (
+    <div class="flex flex-col h-full bg-zinc-900 border border-zinc-700 rounded">
+      <div class="flex flex-wrap items-center gap-3 px-3 py-2 border-b border-zinc-700 text-xs">
+        <span class="flex items-center gap-1"><span class="w-3 h-3 rounded-sm bg-blue-900"/>Parameter</span>
+        <span class="flex items-center gap-1"><span class="w-3 h-3 rounded-sm bg-teal-900"/>Axis</span>
+        <span class="flex items-center gap-1"><span class="w-3 h-3 rounded-sm bg-purple-900"/>Patch</span>
+        <span class="flex items-center gap-1"><span class="font-bold text-amber-300">FF</span>Changed</span>
+        <div class="flex-1"/>
+        <input
+          type="text"
+          placeholder="Go to offset (hex)"
+          value={gotoInput}
+          onInput={e => setGotoInput((e.target as HTMLInputElement).value)}
+          onKeyDown={e => { if (e.key === 'Enter') handleGoto(); }}
+          class="w-40 px-2 py-1 bg-zinc-700 border border-zinc-600 rounded text-zinc-200 font-mono placeholder:text-zinc-500"
+        />
+      </div>
+
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        class="flex-1 overflow-auto font-mono text-xs focus:outline-none"
+        onScroll={e => setScrollTop((e.target as HTMLDivElement).scrollTop)}
+        onKeyDown={handleKeyDown}
+      >
+        <div class="relative" style={{ height: totalRows * ROW_HEIGHT }}>
+          {rows}
+        </div>
+      </div>
+
+      <div class="flex flex-wrap gap-x-4 px-3 py-2 border-t border-zinc-700 text-xs font-mono text-zinc-400">
+        <span>Offset 0x{hex(cursor.offset, 8)}</span>
+        {cursorLogical < 0 ? (
+          <span class="text-zinc-500">ECC byte</span>
+        ) : cursorAddress !== null ? (
+          <span>Address 0x{hex(cursorAddress, 8)}</span>
+        ) : (
+          <span class="text-zinc-500">No segment</span>
+        )}
+        <span>Value 0x{hex(binData[cursor.offset] ?? 0, 2)}</span>
+        {original !== undefined && original !== binData[cursor.offset] && (
+          <span class="text-amber-300">Original 0x{hex(original, 2)}</span>
+        )}
+        {cursorOwner >= 0 && (
+          <span class="text-zinc-200">
+            {cursorFlags & FLAG_DATA ? '' : 'Axis of '}
+            {parameters[cursorOwner].customName || parameters[cursorOwner].description || parameters[cursorOwner].name}
+          </span>
+        )}
+        {cursorPatches.length > 0 && (
+          <span class="text-purple-300">Patch: {cursorPatches.map(r => r.name).join(', ')}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback } from 'preact/hooks';
+import { Modal } from './Modal';
+import { DEFINITION_FORMAT_VERSION } from '../types';
+import type { Definition } from '../types';
+import { parseDefinition } from '../lib/definitionSchema';
+import {
+  listLibraryDefinitions, listLibraryPatches, addLibraryDefinition, addLibraryPatch, setLibraryPatchXdf,
+  renameLibraryEntry, deleteLibraryEntry, type LibraryDefinition, type LibraryPatch, type LibraryStore,
+} from '../lib/library';
+
+interface Props {
+  definition: Definition | null;
+  onClose: () => void;
+}
+
+const buttonClass = 'px-2 py-1 text-xs rounded bg-zinc-700 hover:bg-zinc-600 cursor-pointer';
+
+function download(content: BlobPart, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').toLowerCase();
+}
+
+export function LibraryPanel({ definition, onClose }: Props) {
+  const [tab, setTab] = useState<LibraryStore>('definitions');
+  const [definitions, setDefinitions] = useState<LibraryDefinition[]>([]);
+  const [patches, setPatches] = useState<LibraryPatch[]>([]);
+
+  const refresh = useCallback(async () => {
+    const [defs, btps] = await Promise.all([listLibraryDefinitions(), listLibraryPatches()]);
+    setDefinitions(defs);
+    setPatches(btps);
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  // Run a library change, report failures and show the new state
+  const update = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error('Library update failed:', err);
+      alert(`Library update failed: ${err instanceof Error ? err.message : err}`);
+    }
+    await refresh();
+  };
+
+  const handleImportDefinitions = (files: File[]) => update(async () => {
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        await addLibraryDefinition(parseDefinition(await file.text()), file.name);
+      } catch (err) {
+        console.error(`Failed to import ${file.name}:`, err);
+        failed.push(`${file.name}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+    if (failed.length > 0) alert(`Not imported:\n\n${failed.join('\n\n')}`);
+  });
+
+  // .btp files are imported together with the XDF of the same name, if selected
+  const handleImportPatches = (files: File[]) => update(async () => {
+    const xdfs = new Map<string, File>();
+    for (const file of files) {
+      if (/\.xdf$/i.test(file.name)) xdfs.set(baseName(file.name), file);
+    }
+    const btps = files.filter(f => /\.btp$/i.test(f.name));
+    if (btps.length === 0) throw new Error('Select at least one .btp file');
+    for (const file of btps) {
+      const xdf = xdfs.get(baseName(file.name));
+      xdfs.delete(baseName(file.name));
+      await addLibraryPatch(
+        new Uint8Array(await file.arrayBuffer()),
+        file.name,
+        xdf && { fileName: xdf.name, text: await xdf.text() },
+      );
+    }
+    if (xdfs.size > 0) {
+      alert(`No .btp file with the same name for ${[...xdfs.values()].map(f => f.name).join(', ')}; attach XDFs to a patch with its XDF button`);
+    }
+  });
+
+  const handleRename = (store: LibraryStore, id: number, current: string) => {
+    const name = prompt('New name', current)?.trim();
+    if (name && name !== current) update(() => renameLibraryEntry(store, id, name));
+  };
+
+  const handleDelete = (store: LibraryStore, id: number, name: string) => {
+    if (confirm(`Delete ${name} from the library?`)) update(() => deleteLibraryEntry(store, id));
+  };
+
+  const handleExportPatch = (patch: LibraryPatch) => {
+    download(patch.data.buffer as ArrayBuffer, patch.fileName, 'application/octet-stream');
+    if (patch.xdf) download(patch.xdf.text, patch.xdf.fileName, 'application/xml');
+  };
+
+  const fileInput = (accept: string, onFiles: (files: File[]) => void) => (
+    <input
+      type="file"
+      accept={accept}
+      multiple
+      onChange={e => {
+        const input = e.target as HTMLInputElement;
+        const files = [...(input.files ?? [])];
+        input.value = '';
+        if (files.length > 0) onFiles(files);
+      }}
+      class="hidden"
+    />
+  );
+
+  const tabButton = (store: LibraryStore, label: string, count: number) => (
+    <button
+      onClick={() => setTab(store)}
+      class={`px-2 py-1 text-xs rounded cursor-pointer ${tab === store ? 'bg-blue-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'}`}
+    >
+      {label} ({count})
+    </button>
+  );
+
+  return (
+    <Modal
+      title="Local Library"
+      titleRight={<span class="text-xs text-zinc-400">Stored in this browser</span>}
+      onClose={onClose}
+      width="lg"
+      footer={
+        <div class="flex items-center gap-2">
+          {tab === 'definitions' ? (
+            <>
+              <button
+                onClick={() => definition && update(() => addLibraryDefinition(definition, definition.name + '.json'))}
+                disabled={!definition}
+                class="px-4 py-2 text-sm rounded font-medium bg-green-700 hover:bg-green-600 disabled:bg-zinc-700 disabled:text-zinc-500 transition-colors cursor-pointer disabled:cursor-not-allowed"
+              >
+                Add Current Definition
+              </button>
+              <label class="ml-auto inline-flex items-center gap-2 px-3 py-2 bg-zinc-700 hover:bg-zinc-600 rounded cursor-pointer text-sm transition-colors">
+                Import .json
+                {fileInput('.json', handleImportDefinitions)}
+              </label>
+            </>
+          ) : (
+            <label class="ml-auto inline-flex items-center gap-2 px-3 py-2 bg-zinc-700 hover:bg-zinc-600 rounded cursor-pointer text-sm transition-colors">
+              Import .btp (+ .xdf)
+              {fileInput('.btp,.xdf', handleImportPatches)}
+            </label>
+          )}
+        </div>
+      }
+    >
+      <div class="space-y-3">
+        <div class="flex gap-1">
+          {tabButton('definitions', 'Definitions', definitions.length)}
+          {tabButton('patches', 'Patches', patches.length)}
+        </div>
+
+        {tab === 'definitions' && (
+          definitions.length === 0 ? (
+            <div class="text-center py-4 text-zinc-500 text-sm">
+              No definitions in the library. Converted definitions are added automatically.
+            </div>
+          ) : (
+            <div class="max-h-96 overflow-y-auto space-y-1">
+              {definitions.map(entry => (
+                <div key={entry.id} class="flex items-center gap-2 p-2 bg-zinc-700/50 rounded border border-zinc-700">
+                  <div class="flex-1 min-w-0">
+                    <div class="text-sm font-medium truncate">{entry.name}</div>
+                    <div class="text-xs text-zinc-400 truncate">
+                      {entry.fileName} · {entry.definition.parameters.length} parameters
+                      {entry.definition.verification?.expected && ` · ${entry.definition.verification.expected}`}
+                      {` · ${new Date(entry.added).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  <button onClick={() => handleRename('definitions', entry.id, entry.name)} class={buttonClass}>Rename</button>
+                  <button onClick={() => download(JSON.stringify({ ...entry.definition, formatVersion: DEFINITION_FORMAT_VERSION }, null, 2), entry.name + '.json', 'application/json')} class={buttonClass}>Export</button>
+                  <button onClick={() => handleDelete('definitions', entry.id, entry.name)} class={`${buttonClass} text-red-400`}>Delete</button>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {tab === 'patches' && (
+          patches.length === 0 ? (
+            <div class="text-center py-4 text-zinc-500 text-sm">
+              No patches in the library.
+            </div>
+          ) : (
+            <div class="max-h-96 overflow-y-auto space-y-1">
+              {patches.map(patch => (
+                <div key={patch.id} class="flex items-center gap-2 p-2 bg-zinc-700/50 rounded border border-zinc-700">
+                  <div class="flex-1 min-w-0">
+                    <div class="text-sm font-medium truncate">{patch.name}</div>
+                    <div class="text-xs text-zinc-400 truncate">
+                      {patch.fileName} · {patch.xdf ? patch.xdf.fileName : 'no XDF'}
+                      {` · ${new Date(patch.added).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  <label class={buttonClass} title="Attach the XDF describing the patch parameters">
+                    XDF
+                    <input
+                      type="file"
+                      accept=".xdf"
+                      onChange={async e => {
+                        const input = e.target as HTMLInputElement;
+                        const file = input.files?.[0];
+                        input.value = '';
+                        if (file) {
+                          const text = await file.text();
+                          update(() => setLibraryPatchXdf(patch.id, { fileName: file.name, text }));
+                        }
+                      }}
+                      class="hidden"
+                    />
+                  </label>
+                  {patch.xdf && (
+                    <button onClick={() => update(() => setLibraryPatchXdf(patch.id, undefined))} class={buttonClass} title="Remove the XDF">
+                      ✕ XDF
+                    </button>
+                  )}
+                  <button onClick={() => handleRename('patches', patch.id, patch.name)} class={buttonClass}>Rename</button>
+                  <button onClick={() => handleExportPatch(patch)} class={buttonClass}>Export</button>
+                  <button onClick={() => handleDelete('patches', patch.id, patch.name)} class={`${buttonClass} text-red-400`}>Delete</button>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'preact/hooks';
+import { Modal } from './Modal';
+import type { Parameter } from '../types';
+import type { LintCode, LintFinding, LintSeverity } from '../lib/definitionLinter';
+
+interface Props {
+  findings: LintFinding[];
+  onSelect: (param: Parameter) => void;
+  onClose: () => void;
+}
+
+// Rendering thousands of rows makes the dialog sluggish
+const MAX_VISIBLE = 500;
+
+const CODE_LABELS: Record<LintCode, string> = {
+  'out-of-bounds': 'Out of bounds',
+  'overlap': 'Overlap',
+  'misaligned': 'Misaligned',
+  'size-mismatch': 'Size mismatch',
+};
+
+function SeverityBadge({ severity }: { severity: LintSeverity }) {
+  return (
+    <span class={`px-2 py-0.5 rounded text-xs font-medium ${
+      severity === 'error' ? 'bg-red-900/50 text-red-400' : 'bg-amber-900/50 text-amber-400'
+    }`}>
+      {severity === 'error' ? 'ERROR' : 'WARNING'}
+    </span>
+  );
+}
+
+export function LintPanel({ findings, onSelect, onClose }: Props) {
+  const [filter, setFilter] = useState<LintCode | null>(null);
+
+  const counts = new Map<LintCode, number>();
+  for (const f of findings) counts.set(f.code, (counts.get(f.code) ?? 0) + 1);
+  const visible = filter ? findings.filter(f => f.code === filter) : findings;
+  const errors = findings.filter(f => f.severity === 'error').length;
+
+  return (
+    <Modal
+      title="Definition Lint"
+      titleRight={
+        <span class="text-xs text-zinc-400">
+          {errors} errors, {findings.length - errors} warnings
+        </span>
+      }
+      onClose={onClose}
+      width="xl"
+    >
+      {findings.length === 0 ? (
+        <div class="text-center py-4 text-zinc-500 text-sm">
+          No problems found.
+        </div>
+      ) : (
+        <div class="space-y-3">
+          <div class="flex flex-wrap gap-1">
+            <button
+              onClick={() => setFilter(null)}
+              class={`px-2 py-1 text-xs rounded cursor-pointer ${filter === null ? 'bg-blue-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'}`}
+            >
+              All ({findings.length})
+            </button>
+            {[...counts].map(([code, count]) => (
+              <button
+                key={code}
+                onClick={() => setFilter(code)}
+                class={`px-2 py-1 text-xs rounded cursor-pointer ${filter === code ? 'bg-blue-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'}`}
+              >
+                {CODE_LABELS[code]} ({count})
+              </button>
+            ))}
+          </div>
+
+          <div class="space-y-1">
+            {visible.slice(0, MAX_VISIBLE).map((f, i) => (
+              <button
+                key={i}
+                onClick={() => onSelect(f.param)}
+                class="w-full text-left px-3 py-2 rounded bg-zinc-700/50 hover:bg-zinc-700 cursor-pointer"
+              >
+                <div class="flex items-center gap-3">
+                  <span class="flex-1 text-sm font-medium truncate">
+                    {f.param.customName || f.param.description || f.param.name}
+                  </span>
+                  <span class="text-xs text-zinc-500">{CODE_LABELS[f.code]}</span>
+                  <SeverityBadge severity={f.severity} />
+                </div>
+                <div class="mt-1 text-xs font-mono text-zinc-400">{f.message}</div>
+              </button>
+            ))}
+            {visible.length > MAX_VISIBLE && (
+              <div class="text-center py-2 text-xs text-zinc-500">
+                … and {visible.length - MAX_VISIBLE} more
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
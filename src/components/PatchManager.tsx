@@ -1,8 +1,11 @@
 import { useState, useRef, useCallback } from 'preact/hooks';
 import { Modal } from './Modal';
-import type { Definition, Parameter } from '../types';
+import type { AddressMap, AxisDefinition, Definition, Parameter } from '../types';
+import { addressToOffset, getAddressMap, offsetToAddress } from '../lib/binUtils';
 import { parseBtp, verifyCrc32, checkPatch, applyPatch, removePatch } from '../lib/btpParser';
 import type { PatchCheckResult, PatchStatus } from '../lib/btpParser';
+import { parseDefinition } from '../lib/definitionSchema';
+import { XDFParser } from '../lib/xdfParser';
 
 interface PatchIndexEntry {
   name: string;
@@ -40,15 +43,42 @@ function StatusBadge({ status }: { status: PatchStatus }) {
   );
 }
 
+/**
+ * Move a parameter from one address map to another through its image offset
+ * (XDF patch definitions address file offsets, Simos definitions 0xA0000000-based addresses)
+ * Returns null if an address has no place in the target map
+ */
+function translateParameter(param: Parameter, from: AddressMap, to: AddressMap): Parameter | null {
+  const translate = (address: number) => offsetToAddress(addressToOffset(address, 0, from), 0, to);
+  const translateAxis = (axis: AxisDefinition | undefined): AxisDefinition | undefined | null => {
+    if (axis?.address === undefined) return axis;
+    const address = translate(axis.address);
+    return address === null ? null : { ...axis, address };
+  };
+
+  const address = translate(param.address);
+  const xAxis = translateAxis(param.xAxis);
+  const yAxis = translateAxis(param.yAxis);
+  if (address === null || xAxis === null || yAxis === null) return null;
+  return { ...param, address, ...(xAxis && { xAxis }), ...(yAxis && { yAxis }) };
+}
+
 export function mergeDefinitions(baseDef: Definition, patchDef: Definition, _patchName?: string): Definition {
   const existingNames = new Set(baseDef.parameters.map(p => p.name));
-
-  const patchParams: Parameter[] = patchDef.parameters.map(p => {
+  const from = getAddressMap(patchDef);
+  const to = getAddressMap(baseDef);
+
+  const patchParams: Parameter[] = patchDef.parameters.flatMap(p => {
+    const translated = translateParameter(p, from, to);
+    if (!translated) {
+      console.warn(`Patch parameter ${p.name} lies outside the definition's address space`);
+      return [];
+    }
     // Prefix categories with "Patch"
     const categories = ['Patch', ...p.categories];
     // Handle name collision
     const name = existingNames.has(p.name) ? `${p.name} (Patch)` : p.name;
-    return { ...p, name, categories };
+    return [{ ...translated, name, categories }];
   });
 
   return {
@@ -57,6 +87,27 @@ export function mergeDefinitions(baseDef: Definition, patchDef: Definition, _pat
   };
 }
 
+/**
+ * Whether applying the patch adds parameters to the definition
+ */
+export function hasPatchDefinition(result: PatchCheckResult): boolean {
+  return !!(result.definition || result.xdf);
+}
+
+/**
+ * Load the definition of a patch: converted from its XDF for library patches, bundled otherwise
+ */
+export async function loadPatchDefinition(result: PatchCheckResult): Promise<Definition> {
+  if (result.xdf) {
+    const parser = new XDFParser();
+    parser.parseXDFString(result.xdf);
+    return parser.generateDefinition(result.name);
+  }
+  const response = await fetch(`./patches/definitions/${result.definition}`);
+  if (!response.ok) throw new Error(`Failed to load patch definition: ${result.definition}`);
+  return parseDefinition(await response.text());
+}
+
 export function unmergeDefinitions(def: Definition): Definition {
   return {
     ...def,
@@ -155,17 +206,17 @@ export function PatchManager({
       // Auto-load definitions for newly applied patches
       if (definition) {
         const newlyApplied = [...updatedBundled, ...updatedUser].filter(
-          r => r.status === 'applied' && r.definition && selectedPatches.has(r.file)
+          r => r.status === 'applied' && hasPatchDefinition(r) && selectedPatches.has(r.file)
         );
 
         if (newlyApplied.length > 0) {
           let mergedDef = definition;
           for (const applied of newlyApplied) {
             try {
-              const patchDef = await fetch(`./patches/definitions/${applied.definition}`).then(r => r.json()) as Definition;
+              const patchDef = await loadPatchDefinition(applied);
               mergedDef = mergeDefinitions(mergedDef, patchDef, applied.name);
             } catch (err) {
-              console.error(`Failed to load patch definition ${applied.definition}:`, err);
+              console.error(`Failed to load patch definition for ${applied.name}:`, err);
             }
           }
           onDefinitionUpdate(mergedDef);
@@ -208,7 +259,7 @@ export function PatchManager({
 
       // Remove patch parameters from definition
       if (definition) {
-        const removedWithDef = toRemove.filter(r => r.definition);
+        const removedWithDef = toRemove.filter(hasPatchDefinition);
         if (removedWithDef.length > 0) {
           onDefinitionUpdate(unmergeDefinitions(definition));
         }
@@ -220,9 +271,12 @@ export function PatchManager({
     }
   }, [selectedPatches, allResults, binData, patchResults, userPatches, definition, onModify, onPatchResultsChange, onDefinitionUpdate]);
 
+  const libraryPatches = patchResults.filter(r => r.libraryId !== undefined);
+  const bundledPatches = patchResults.filter(r => r.libraryId === undefined);
+
   // Group bundled patches by category
   const groupedBundled = new Map<string, PatchCheckResult[]>();
-  for (const r of patchResults) {
+  for (const r of bundledPatches) {
     const cat = r.category || 'Other';
     if (!groupedBundled.has(cat)) groupedBundled.set(cat, []);
     groupedBundled.get(cat)!.push(r);
@@ -285,7 +339,7 @@ export function PatchManager({
     >
       <div class="space-y-4">
         {/* Bundled patches */}
-        {patchResults.length > 0 && (
+        {bundledPatches.length > 0 && (
           <div>
             <h3 class="text-sm font-semibold text-zinc-300 mb-2">Bundled Patches</h3>
             <div class="space-y-3">
@@ -316,7 +370,7 @@ export function PatchManager({
                         {!r.crcValid && (
                           <span class="text-xs text-amber-400" title="CRC32 mismatch">CRC!</span>
                         )}
-                        {r.definition && (
+                        {hasPatchDefinition(r) && (
                           <span class="text-xs text-zinc-500" title="Has definition file">DEF</span>
                         )}
                         <StatusBadge status={r.status} />
@@ -329,12 +383,45 @@ export function PatchManager({
           </div>
         )}
 
-        {patchResults.length === 0 && (
+        {bundledPatches.length === 0 && (
           <div class="text-center py-4 text-zinc-500 text-sm">
             No compatible bundled patches found for this binary.
           </div>
         )}
 
+        {/* Patches from the local library */}
+        {libraryPatches.length > 0 && (
+          <div>
+            <h3 class="text-sm font-semibold text-zinc-300 mb-2">Library Patches</h3>
+            <div class="space-y-1">
+              {libraryPatches.map(r => (
+                <label
+                  key={r.file}
+                  class={`flex items-center gap-3 px-3 py-2 rounded cursor-pointer transition-colors ${
+                    selectedPatches.has(r.file) ? 'bg-zinc-600' : 'bg-zinc-700/50 hover:bg-zinc-700'
+                  } ${r.status === 'incompatible' ? 'opacity-50' : ''}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedPatches.has(r.file)}
+                    onChange={() => toggleSelection(r.file)}
+                    disabled={r.status === 'incompatible'}
+                    class="w-4 h-4 rounded bg-zinc-600 border-zinc-500"
+                  />
+                  <span class="flex-1 text-sm truncate">{r.name}</span>
+                  {!r.crcValid && (
+                    <span class="text-xs text-amber-400" title="CRC32 mismatch">CRC!</span>
+                  )}
+                  {hasPatchDefinition(r) && (
+                    <span class="text-xs text-zinc-500" title="Has XDF">DEF</span>
+                  )}
+                  <StatusBadge status={r.status} />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* User-loaded patches */}
         {userPatches.length > 0 && (
           <div>
@@ -0,0 +1,211 @@
+import { useState } from 'preact/hooks';
+import { Modal } from './Modal';
+import type { BinaryMode, Definition, Parameter } from '../types';
+import { detectTargetLayout, portDefinition, type BinLayout, type PortResult, type PortStatus } from '../lib/definitionPorter';
+import { s19ToBinary, isS19File, hexToBinary, isHexFile } from '../lib/s19Parser';
+
+interface Props {
+  definition: Definition;
+  binData: Uint8Array;
+  sourceLayout: BinLayout;
+  onLoad: (definition: Definition, data: Uint8Array, fileName: string, layout: BinLayout) => void;
+  onSave: (definition: Definition) => void;
+  onClose: () => void;
+}
+
+// Rendering thousands of rows makes the dialog sluggish
+const MAX_VISIBLE = 500;
+
+const STATUS_LABELS: Record<PortStatus, string> = {
+  matched: 'Matched',
+  ambiguous: 'Ambiguous',
+  unmatched: 'Unmatched',
+};
+
+const STATUS_CLASSES: Record<PortStatus, string> = {
+  matched: 'bg-green-900/50 text-green-400',
+  ambiguous: 'bg-amber-900/50 text-amber-400',
+  unmatched: 'bg-red-900/50 text-red-400',
+};
+
+type LayoutChoice = 'auto' | BinaryMode;
+
+function hex(value: number): string {
+  return '0x' + value.toString(16).toUpperCase();
+}
+
+export function PortPanel({ definition, binData, sourceLayout, onLoad, onSave, onClose }: Props) {
+  const [target, setTarget] = useState<{ data: Uint8Array; fileName: string } | null>(null);
+  const [layoutChoice, setLayoutChoice] = useState<LayoutChoice>('auto');
+  const [name, setName] = useState(definition.name + '_ported');
+  const [result, setResult] = useState<{ port: PortResult; layout: BinLayout } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [filter, setFilter] = useState<PortStatus | null>(null);
+
+  const calOffset = definition.offset ?? definition.verification?.calOffset ?? 0;
+
+  const handleFile = async (file: File) => {
+    let data: Uint8Array;
+    let fileName = file.name;
+    if (isS19File(file.name)) {
+      data = s19ToBinary(await file.text(), definition.segments);
+      fileName = file.name.replace(/\.(s19|srec|mot)$/i, '.bin');
+    } else if (isHexFile(file.name)) {
+      data = hexToBinary(await file.text(), definition.segments);
+      fileName = file.name.replace(/\.(hex|ihex)$/i, '.bin');
+    } else {
+      data = new Uint8Array(await file.arrayBuffer());
+    }
+    setTarget({ data, fileName });
+    setResult(null);
+  };
+
+  const handlePort = () => {
+    if (!target) return;
+    const layout: BinLayout = layoutChoice === 'auto'
+      ? detectTargetLayout(definition, target.data, sourceLayout)
+      : { mode: layoutChoice, calOffset: layoutChoice === 'cal' ? calOffset : 0 };
+    setRunning(true);
+    // Let the dialog show the running state before the search blocks the page
+    setTimeout(() => {
+      try {
+        setResult({ port: portDefinition(definition, binData, sourceLayout, target.data, layout, name.trim() || definition.name), layout });
+      } catch (err) {
+        console.error('Porting failed:', err);
+        alert(`Porting failed: ${err instanceof Error ? err.message : err}`);
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const counts = new Map<PortStatus, number>();
+  for (const p of result?.port.parameters ?? []) counts.set(p.status, (counts.get(p.status) ?? 0) + 1);
+  // Parameters needing review first, least certain matches before certain ones
+  const visible = (result?.port.parameters ?? [])
+    .filter(p => !filter || p.status === filter)
+    .sort((a, b) => (a.ported ? 1 : 0) - (b.ported ? 1 : 0) || a.confidence - b.confidence);
+
+  const describeAddress = (source: Parameter, ported: Parameter | null) =>
+    ported ? `${hex(source.address)} → ${hex(ported.address)}` : hex(source.address);
+
+  return (
+    <Modal
+      title="Port Definition"
+      titleRight={result && (
+        <span class="text-xs text-zinc-400">
+          {counts.get('matched') ?? 0} of {result.port.parameters.length} parameters matched
+        </span>
+      )}
+      onClose={onClose}
+      width="xl"
+      footer={result && (
+        <div class="flex items-center gap-2">
+          <button
+            onClick={() => onSave(result.port.definition)}
+            class="px-4 py-2 text-sm rounded font-medium bg-zinc-700 hover:bg-zinc-600 transition-colors cursor-pointer"
+          >
+            Save JSON
+          </button>
+          <button
+            onClick={() => target && onLoad(result.port.definition, target.data, target.fileName, result.layout)}
+            class="px-4 py-2 text-sm rounded font-medium bg-green-700 hover:bg-green-600 transition-colors cursor-pointer"
+          >
+            Open Target BIN with Ported Definition
+          </button>
+        </div>
+      )}
+    >
+      <div class="space-y-3">
+        <p class="text-sm text-zinc-400">
+          Searches a BIN of another software version for the bytes of every parameter of <span class="text-zinc-200">{definition.name}</span> in
+          the loaded BIN and relocates the parameters that are found.
+        </p>
+        <div class="flex flex-wrap items-center gap-2">
+          <label class="px-3 py-1 text-sm rounded bg-zinc-700 hover:bg-zinc-600 cursor-pointer">
+            {target ? target.fileName : 'Choose target BIN...'}
+            <input
+              type="file"
+              accept=".bin,.ori,.mod,.s19,.srec,.mot,.hex,.ihex"
+              onChange={e => {
+                const file = (e.target as HTMLInputElement).files?.[0];
+                if (file) handleFile(file);
+                (e.target as HTMLInputElement).value = '';
+              }}
+              class="hidden"
+            />
+          </label>
+          <select
+            value={layoutChoice}
+            onChange={e => setLayoutChoice((e.target as HTMLSelectElement).value as LayoutChoice)}
+            class="px-2 py-1 bg-zinc-700 border border-zinc-600 rounded text-sm text-zinc-200 cursor-pointer"
+          >
+            <option value="auto">Layout: detect</option>
+            <option value="full">Full BIN</option>
+            <option value="cal">CAL block only</option>
+            <option value="ecc">Raw ECC dump</option>
+          </select>
+          <input
+            type="text"
+            value={name}
+            onInput={e => setName((e.target as HTMLInputElement).value)}
+            placeholder="New definition name"
+            class="flex-1 min-w-40 px-2 py-1 bg-zinc-700 border border-zinc-600 rounded text-sm text-zinc-200"
+          />
+          <button
+            onClick={handlePort}
+            disabled={!target || running}
+            class="px-3 py-1 text-sm rounded bg-blue-600 hover:bg-blue-500 text-white cursor-pointer disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-default"
+          >
+            {running ? 'Porting...' : 'Port'}
+          </button>
+        </div>
+
+        {result && (
+          <>
+            {!result.port.definition.verification && definition.verification && (
+              <div class="text-xs text-amber-400">
+                The target EPK could not be read; the ported definition has no EPK check.
+              </div>
+            )}
+            <div class="flex flex-wrap gap-1">
+              <button
+                onClick={() => setFilter(null)}
+                class={`px-2 py-1 text-xs rounded cursor-pointer ${filter === null ? 'bg-blue-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'}`}
+              >
+                All ({result.port.parameters.length})
+              </button>
+              {(Object.keys(STATUS_LABELS) as PortStatus[]).filter(s => counts.has(s)).map(s => (
+                <button
+                  key={s}
+                  onClick={() => setFilter(s)}
+                  class={`px-2 py-1 text-xs rounded cursor-pointer ${filter === s ? 'bg-blue-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'}`}
+                >
+                  {STATUS_LABELS[s]} ({counts.get(s)})
+                </button>
+              ))}
+            </div>
+            <div class="max-h-96 overflow-y-auto space-y-1">
+              {visible.slice(0, MAX_VISIBLE).map(p => (
+                <div key={p.source.name + p.source.address} class="p-2 bg-zinc-700/50 rounded border border-zinc-700 text-sm">
+                  <div class="flex items-center gap-2">
+                    <span class={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_CLASSES[p.status]}`}>{STATUS_LABELS[p.status]}</span>
+                    <span class="font-medium truncate">{p.source.name}</span>
+                    {p.ported && <span class="text-xs text-zinc-400">{Math.round(p.confidence * 100)}%</span>}
+                    <span class="ml-auto text-xs font-mono text-zinc-400 shrink-0">{describeAddress(p.source, p.ported)}</span>
+                  </div>
+                  <div class="text-xs text-zinc-400 mt-1">{p.note}</div>
+                </div>
+              ))}
+              {visible.length > MAX_VISIBLE && (
+                <div class="text-center py-2 text-xs text-zinc-500">
+                  … and {visible.length - MAX_VISIBLE} more
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
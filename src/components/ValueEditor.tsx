@@ -1,5 +1,5 @@
 import {useState, useEffect, useMemo, useRef} from 'preact/hooks';
-import {Parameter} from '../types';
+import {AddressMap, AxisDefinition, BitDefinition, DATA_TYPE_INFO, Parameter} from '../types';
 import {
     readParameterValue,
     writeParameterValue,
@@ -10,17 +10,41 @@ import {
     formatValue,
     getConsistentDecimals,
     formatValueConsistent,
+    readParameterString,
+    writeParameterString,
+    isPrintableAscii,
+    quantizeParameterValue,
+    quantizeAxisValue,
+    type StoredValue,
 } from '../lib/binUtils';
+import {getVerbalConversion, findVerbalEntry, parseVerbalValue, type VerbalConversion} from '../lib/conversion';
 
 const DEFAULT_BASE_ADDRESS = 0xa0000000;
 
+function reportWriteError(err: unknown) {
+    console.error('Write failed:', err);
+    alert(`Write failed: ${err instanceof Error ? err.message : err}`);
+}
+
+/**
+ * Run an edit of the BIN; refused writes (raw ECC dumps whose stored ECC doesn't match) are reported
+ */
+function applyEdit(edit: () => void) {
+    try {
+        edit();
+    } catch (err) {
+        reportWriteError(err);
+    }
+}
+
 interface Props {
     parameter: Parameter;
     binData: Uint8Array;
     originalBinData?: Uint8Array | null;
     calOffset?: number;
-    baseAddress?: number;
+    baseAddress?: AddressMap;
     bigEndian?: boolean;
+    ecc?: boolean;
     onModify: () => void;
 }
 
@@ -31,15 +55,20 @@ export function ValueEditor({
                                 calOffset = 0,
                                 baseAddress = DEFAULT_BASE_ADDRESS,
                                 bigEndian = false,
+                                ecc = false,
                                 onModify
                             }: Props) {
+    if (parameter.type === 'ASCII') {
+        return <StringEditor parameter={parameter} binData={binData} originalBinData={originalBinData}
+                             calOffset={calOffset} baseAddress={baseAddress} ecc={ecc} onModify={onModify}/>;
+    }
     if (parameter.type === 'VALUE') {
         return <ScalarEditor parameter={parameter} binData={binData} originalBinData={originalBinData}
                              calOffset={calOffset} baseAddress={baseAddress} bigEndian={bigEndian}
-                             onModify={onModify}/>;
+                             ecc={ecc} onModify={onModify}/>;
     }
     return <TableEditor parameter={parameter} binData={binData} originalBinData={originalBinData} calOffset={calOffset}
-                        baseAddress={baseAddress} bigEndian={bigEndian} onModify={onModify}/>;
+                        baseAddress={baseAddress} bigEndian={bigEndian} ecc={ecc} onModify={onModify}/>;
 }
 
 function ScalarEditor({
@@ -49,24 +78,36 @@ function ScalarEditor({
                           calOffset = 0,
                           baseAddress = DEFAULT_BASE_ADDRESS,
                           bigEndian = false,
+                          ecc = false,
                           onModify
                       }: Props) {
-    const [value, setValue] = useState(() => readParameterValue(binData, parameter, calOffset, baseAddress, bigEndian));
+    const [value, setValue] = useState(() => readParameterValue(binData, parameter, calOffset, baseAddress, bigEndian, ecc));
     const [editing, setEditing] = useState(false);
     const [inputValue, setInputValue] = useState('');
     const [showOriginal, setShowOriginal] = useState(false);
+    const [lastWrite, setLastWrite] = useState<WriteReport | null>(null);
 
     const originalValue = useMemo(
-        () => originalBinData ? readParameterValue(originalBinData, parameter, calOffset, baseAddress, bigEndian) : null,
-        [originalBinData, parameter, calOffset, baseAddress, bigEndian]
+        () => originalBinData ? readParameterValue(originalBinData, parameter, calOffset, baseAddress, bigEndian, ecc) : null,
+        [originalBinData, parameter, calOffset, baseAddress, bigEndian, ecc]
     );
 
     const hasChanged = originalValue !== null && Math.abs(originalValue - value) > 0.0001;
-    const isBitmask = parameter.dataType === 'UBYTE' && (/bitmask/i.test(parameter.name) || /bitmask/i.test(parameter.description));
+    const bitFields = getBitFields(parameter);
+    const width = getValueWidth(parameter);
+    const verbal = getVerbalConversion(parameter.conversion);
+    const state = verbal ? findVerbalEntry(value, verbal) : null;
 
     useEffect(() => {
-        setValue(readParameterValue(binData, parameter, calOffset, baseAddress, bigEndian));
-    }, [parameter, binData, calOffset, baseAddress, bigEndian]);
+        setValue(readParameterValue(binData, parameter, calOffset, baseAddress, bigEndian, ecc));
+        setLastWrite(null);
+    }, [parameter, binData, calOffset, baseAddress, bigEndian, ecc]);
+
+    // While typing, preview what the entered value will be stored as
+    const enteredValue = parseFloat(inputValue);
+    const preview = editing && !isNaN(enteredValue)
+        ? recordWrite(createReport(parameter.min, parameter.max, parameter.unit), enteredValue, quantizeParameterValue(parameter, enteredValue))
+        : null;
 
     const handleDoubleClick = () => {
         setInputValue(formatValue(value, 4));
@@ -75,11 +116,12 @@ function ScalarEditor({
 
     const handleConfirm = () => {
         const newValue = parseFloat(inputValue);
-        if (!isNaN(newValue)) {
-            writeParameterValue(binData, parameter, newValue, calOffset, baseAddress, bigEndian);
-            setValue(newValue);
+        if (!isNaN(newValue)) applyEdit(() => {
+            const stored = writeParameterValue(binData, parameter, newValue, calOffset, baseAddress, bigEndian, ecc);
+            setValue(stored.value);
+            setLastWrite(recordWrite(createReport(parameter.min, parameter.max, parameter.unit), newValue, stored));
             onModify();
-        }
+        });
         setEditing(false);
     };
 
@@ -88,12 +130,22 @@ function ScalarEditor({
         if (e.key === 'Escape') setEditing(false);
     };
 
-    const handleBitToggle = (bit: number) => {
-        const rawValue = Math.round(value);
-        const newValue = rawValue ^ (1 << bit);
-        writeParameterValue(binData, parameter, newValue, calOffset, baseAddress, bigEndian);
-        setValue(newValue);
+    const handleStateChange = (raw: number) => applyEdit(() => {
+        setValue(writeParameterValue(binData, parameter, raw, calOffset, baseAddress, bigEndian, ecc).value);
         onModify();
+    });
+
+    const handleBitToggle = (bit: number) => {
+        const unsigned = toUnsigned(value, width);
+        let newValue = isBitSet(value, bit, width) ? unsigned - 2 ** bit : unsigned + 2 ** bit;
+        // Back to two's complement for signed types (masked fields are always unsigned)
+        if (parameter.bitMask === undefined && DATA_TYPE_INFO[parameter.dataType].signed && newValue >= 2 ** (width - 1)) {
+            newValue -= 2 ** width;
+        }
+        applyEdit(() => {
+            setValue(writeParameterValue(binData, parameter, newValue, calOffset, baseAddress, bigEndian, ecc).value);
+            onModify();
+        });
     };
 
     return (
@@ -124,69 +176,134 @@ function ScalarEditor({
                 <span>Range: {parameter.min} - {parameter.max}</span>
             </div>
 
-            <div class="flex items-center gap-4">
-                <div
-                    class="inline-flex items-baseline gap-2 px-6 py-4 bg-zinc-800 rounded-lg cursor-pointer"
-                    onDblClick={handleDoubleClick}
-                >
-                    {editing ? (
-                        <input
-                            type="text"
-                            value={inputValue}
-                            onInput={e => setInputValue((e.target as HTMLInputElement).value)}
-                            onBlur={handleConfirm}
-                            onKeyDown={handleKeyDown}
-                            autoFocus
-                            class="w-48 px-2 py-1 text-2xl font-mono bg-zinc-700 border-2 border-blue-500 rounded text-zinc-100 outline-none"
-                        />
-                    ) : (
-                        <span class={`text-3xl font-semibold font-mono ${hasChanged ? 'text-green-400' : ''}`}>
-              {formatValue(value, 4)}
-            </span>
+            {verbal ? (
+                <div class="flex items-center gap-4">
+                    <div class="inline-flex flex-col gap-2 px-6 py-4 bg-zinc-800 rounded-lg">
+                        <select
+                            value={state ? String(state.raw) : ''}
+                            onChange={e => handleStateChange(Number((e.target as HTMLSelectElement).value))}
+                            class={`px-2 py-1 text-xl font-semibold bg-zinc-700 border-2 rounded outline-none cursor-pointer ${
+                                !state ? 'border-red-500 text-red-400' : hasChanged ? 'border-zinc-600 text-green-400' : 'border-zinc-600 text-zinc-100'
+                            }`}
+                        >
+                            {!state && (
+                                <option value="" disabled>{verbal.defaultLabel || 'Invalid state'} ({value})</option>
+                            )}
+                            {verbal.entries.map(entry => (
+                                <option key={entry.raw} value={String(entry.raw)}>
+                                    {entry.label} ({entry.rawMax !== undefined ? `${entry.raw}-${entry.rawMax}` : entry.raw})
+                                </option>
+                            ))}
+                        </select>
+                        {!state && (
+                            <span class="text-xs text-red-400">Raw value {value} is not a defined state</span>
+                        )}
+                    </div>
+
+                    {showOriginal && originalValue !== null && (
+                        <div
+                            class="inline-flex items-baseline gap-2 px-6 py-4 bg-zinc-700 rounded-lg border-2 border-dashed border-zinc-600">
+                            <span class="text-xl font-semibold text-zinc-400">
+                                {findVerbalEntry(originalValue, verbal)?.label ?? `Invalid state (${originalValue})`}
+                            </span>
+                        </div>
                     )}
-                    <span class="text-base text-zinc-500">{parameter.unit}</span>
                 </div>
-
-                {showOriginal && originalValue !== null && (
+            ) : (
+                <div class="flex items-center gap-4">
                     <div
-                        class="inline-flex items-baseline gap-2 px-6 py-4 bg-zinc-700 rounded-lg border-2 border-dashed border-zinc-600">
-            <span class="text-3xl font-semibold font-mono text-zinc-400">
-              {formatValue(originalValue, 4)}
-            </span>
+                        class="inline-flex items-baseline gap-2 px-6 py-4 bg-zinc-800 rounded-lg cursor-pointer"
+                        onDblClick={handleDoubleClick}
+                    >
+                        {editing ? (
+                            <input
+                                type="text"
+                                value={inputValue}
+                                onInput={e => setInputValue((e.target as HTMLInputElement).value)}
+                                onBlur={handleConfirm}
+                                onKeyDown={handleKeyDown}
+                                autoFocus
+                                class="w-48 px-2 py-1 text-2xl font-mono bg-zinc-700 border-2 border-blue-500 rounded text-zinc-100 outline-none"
+                            />
+                        ) : (
+                            <span class={`text-3xl font-semibold font-mono ${hasChanged ? 'text-green-400' : ''}`}>
+                  {formatValue(value, 4)}
+                </span>
+                        )}
                         <span class="text-base text-zinc-500">{parameter.unit}</span>
                     </div>
-                )}
+
+                    {showOriginal && originalValue !== null && (
+                        <div
+                            class="inline-flex items-baseline gap-2 px-6 py-4 bg-zinc-700 rounded-lg border-2 border-dashed border-zinc-600">
+                <span class="text-3xl font-semibold font-mono text-zinc-400">
+                  {formatValue(originalValue, 4)}
+                </span>
+                            <span class="text-base text-zinc-500">{parameter.unit}</span>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div class="mt-3">
+                <WriteNotice report={preview ?? lastWrite}/>
             </div>
 
-            {isBitmask && (
+            {bitFields && (
                 <div class="mt-4 space-y-2">
-                    <div class="inline-flex gap-1">
-                        {Array.from({ length: 8 }, (_, i) => {
-                            const rawValue = Math.round(value);
-                            const isSet = (rawValue & (1 << i)) !== 0;
-                            const origRaw = originalValue !== null ? Math.round(originalValue) : null;
-                            const origBit = origRaw !== null ? (origRaw & (1 << i)) !== 0 : null;
-                            const bitChanged = origBit !== null && origBit !== isSet;
-                            return (
-                                <label
-                                    key={i}
-                                    class={`flex flex-col items-center gap-1 px-2 py-1.5 rounded cursor-pointer transition-colors ${
-                                        isSet ? 'bg-green-900/50' : 'bg-zinc-800'
-                                    } ${bitChanged ? 'ring-1 ring-amber-500' : ''}`}
-                                >
-                                    <span class="text-xs font-mono text-zinc-500">{i}</span>
-                                    <input
-                                        type="checkbox"
-                                        checked={isSet}
-                                        onChange={() => handleBitToggle(i)}
-                                        class="w-4 h-4 rounded cursor-pointer"
-                                    />
-                                </label>
-                            );
-                        })}
-                    </div>
+                    {bitFields.some(b => b.name) ? (
+                        <div class="flex flex-col gap-1 max-w-md">
+                            {bitFields.map(({bit, name}) => {
+                                const isSet = isBitSet(value, bit, width);
+                                const bitChanged = originalValue !== null && isBitSet(originalValue, bit, width) !== isSet;
+                                return (
+                                    <label
+                                        key={bit}
+                                        class={`flex items-center gap-3 px-3 py-1.5 rounded cursor-pointer transition-colors ${
+                                            isSet ? 'bg-green-900/50' : 'bg-zinc-800'
+                                        } ${bitChanged ? 'ring-1 ring-amber-500' : ''}`}
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            checked={isSet}
+                                            onChange={() => handleBitToggle(bit)}
+                                            class="w-4 h-4 rounded cursor-pointer"
+                                        />
+                                        <span class="flex-1 text-sm">{name || `Bit ${bit}`}</span>
+                                        <span class="text-xs font-mono text-zinc-500">bit {bit}</span>
+                                    </label>
+                                );
+                            })}
+                        </div>
+                    ) : (
+                        <div class="inline-flex flex-wrap gap-1">
+                            {bitFields.map(({bit}) => {
+                                const isSet = isBitSet(value, bit, width);
+                                const bitChanged = originalValue !== null && isBitSet(originalValue, bit, width) !== isSet;
+                                return (
+                                    <label
+                                        key={bit}
+                                        class={`flex flex-col items-center gap-1 px-2 py-1.5 rounded cursor-pointer transition-colors ${
+                                            isSet ? 'bg-green-900/50' : 'bg-zinc-800'
+                                        } ${bitChanged ? 'ring-1 ring-amber-500' : ''}`}
+                                    >
+                                        <span class="text-xs font-mono text-zinc-500">{bit}</span>
+                                        <input
+                                            type="checkbox"
+                                            checked={isSet}
+                                            onChange={() => handleBitToggle(bit)}
+                                            class="w-4 h-4 rounded cursor-pointer"
+                                        />
+                                    </label>
+                                );
+                            })}
+                        </div>
+                    )}
                     <div class="text-xs text-zinc-500 font-mono">
-                        0x{Math.round(value).toString(16).toUpperCase().padStart(2, '0')} = {Math.round(value).toString(2).padStart(8, '0')}b
+                        0x{toUnsigned(value, width).toString(16).toUpperCase().padStart(Math.ceil(width / 4), '0')} = {toUnsigned(value, width).toString(2).padStart(width, '0')}b
+                        {parameter.bitMask !== undefined && (
+                            <span> (mask 0x{parameter.bitMask.toString(16).toUpperCase()})</span>
+                        )}
                     </div>
                 </div>
             )}
@@ -194,6 +311,217 @@ function ScalarEditor({
     );
 }
 
+function StringEditor({
+                          parameter,
+                          binData,
+                          originalBinData,
+                          calOffset = 0,
+                          baseAddress = DEFAULT_BASE_ADDRESS,
+                          ecc = false,
+                          onModify
+                      }: Props) {
+    const [value, setValue] = useState(() => readParameterString(binData, parameter, calOffset, baseAddress, ecc));
+    const [editing, setEditing] = useState(false);
+    const [inputValue, setInputValue] = useState('');
+    const [showOriginal, setShowOriginal] = useState(false);
+
+    const length = parameter.length ?? 1;
+    const inputError = !isPrintableAscii(inputValue)
+        ? 'Only printable ASCII characters are allowed'
+        : inputValue.length > length ? `At most ${length} characters` : null;
+
+    const originalValue = useMemo(
+        () => originalBinData ? readParameterString(originalBinData, parameter, calOffset, baseAddress, ecc) : null,
+        [originalBinData, parameter, calOffset, baseAddress, ecc]
+    );
+
+    const hasChanged = originalValue !== null && originalValue !== value;
+
+    useEffect(() => {
+        setValue(readParameterString(binData, parameter, calOffset, baseAddress, ecc));
+    }, [parameter, binData, calOffset, baseAddress, ecc]);
+
+    const handleDoubleClick = () => {
+        setInputValue(isPrintableAscii(value) ? value : '');
+        setEditing(true);
+    };
+
+    const handleConfirm = () => {
+        if (!inputError && inputValue !== value) applyEdit(() => {
+            writeParameterString(binData, parameter, inputValue, calOffset, baseAddress, ecc);
+            setValue(inputValue);
+            onModify();
+        });
+        setEditing(false);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key === 'Enter') handleConfirm();
+        if (e.key === 'Escape') setEditing(false);
+    };
+
+    // Non-printable bytes are shown as dots
+    const display = (text: string) => text.replace(/[^\x20-\x7e]/g, '·');
+
+    return (
+        <div>
+            <div class="flex items-start justify-between mb-4">
+                <div>
+                    <h2 class="text-lg font-semibold">
+                        {parameter.customName || parameter.description || parameter.name}
+                    </h2>
+                    <code class="text-xs text-zinc-500">{parameter.name}</code>
+                </div>
+                {originalBinData && (
+                    <button
+                        onClick={() => setShowOriginal(!showOriginal)}
+                        class={`px-3 py-1.5 text-sm rounded ${
+                            showOriginal ? 'bg-blue-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                        } ${hasChanged ? 'ring-2 ring-amber-500' : ''}`}
+                    >
+                        Original
+                    </button>
+                )}
+            </div>
+
+            <div class="flex gap-4 mb-6 p-3 bg-zinc-800 rounded text-xs text-zinc-400">
+                <span>Address: 0x{parameter.address.toString(16).toUpperCase()}</span>
+                <span>Type: ASCII</span>
+                <span>Length: {length}</span>
+            </div>
+
+            <div class="flex items-start gap-4">
+                <div class="inline-flex flex-col gap-1">
+                    <div
+                        class="inline-flex items-baseline gap-2 px-6 py-4 bg-zinc-800 rounded-lg cursor-pointer"
+                        onDblClick={handleDoubleClick}
+                    >
+                        {editing ? (
+                            <input
+                                type="text"
+                                value={inputValue}
+                                maxLength={length}
+                                onInput={e => setInputValue((e.target as HTMLInputElement).value)}
+                                onBlur={handleConfirm}
+                                onKeyDown={handleKeyDown}
+                                autoFocus
+                                style={{ width: `${Math.max(length, 8) + 2}ch` }}
+                                class={`px-2 py-1 text-2xl font-mono bg-zinc-700 border-2 rounded text-zinc-100 outline-none ${
+                                    inputError ? 'border-red-500' : 'border-blue-500'
+                                }`}
+                            />
+                        ) : (
+                            <span class={`text-3xl font-semibold font-mono whitespace-pre ${hasChanged ? 'text-green-400' : ''}`}>
+                                "{display(value)}"
+                            </span>
+                        )}
+                    </div>
+                    {editing && (
+                        <span class={`text-xs ${inputError ? 'text-red-400' : 'text-zinc-500'}`}>
+                            {inputError ?? `${inputValue.length}/${length} characters (padded with NUL)`}
+                        </span>
+                    )}
+                </div>
+
+                {showOriginal && originalValue !== null && (
+                    <div
+                        class="inline-flex items-baseline gap-2 px-6 py-4 bg-zinc-700 rounded-lg border-2 border-dashed border-zinc-600">
+                        <span class="text-3xl font-semibold font-mono text-zinc-400 whitespace-pre">
+                            "{display(originalValue)}"
+                        </span>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+// Bits edited as checkboxes: named bits from the definition, or every bit of legacy "bitmask" parameters
+function getBitFields(parameter: Parameter): BitDefinition[] | null {
+    if (parameter.bits?.length) return parameter.bits;
+    const info = DATA_TYPE_INFO[parameter.dataType];
+    if (info.float || !(/bitmask/i.test(parameter.name) || /bitmask/i.test(parameter.description))) return null;
+    return Array.from({length: getValueWidth(parameter)}, (_, bit) => ({bit, name: ''}));
+}
+
+// Width in bits of a parameter's value (the masked field for bit-field parameters)
+function getValueWidth(parameter: Parameter): number {
+    if (parameter.bitMask) {
+        let field = parameter.bitMask;
+        while (field % 2 === 0) field /= 2;
+        return Math.floor(Math.log2(field)) + 1;
+    }
+    return DATA_TYPE_INFO[parameter.dataType].size * 8;
+}
+
+// Value as an unsigned integer of the given width (two's complement for negative values)
+function toUnsigned(value: number, width: number): number {
+    const rounded = Math.round(value);
+    return rounded < 0 ? rounded + 2 ** width : rounded;
+}
+
+function isBitSet(value: number, bit: number, width: number): boolean {
+    return Math.floor(toUnsigned(value, width) / 2 ** bit) % 2 === 1;
+}
+
+// Display text of an enum cell: state name, or the raw value if it is not a defined state
+function formatState(value: number, verbal: VerbalConversion): string {
+    return findVerbalEntry(value, verbal)?.label ?? `${verbal.defaultLabel || '?'} (${value})`;
+}
+
+// Outcome of one or more writes, compared with the values that were entered
+interface WriteReport {
+    count: number;       // Values written
+    rounded: number;     // Stored differently from the entered value
+    clamped: number;     // Limited to the data type (or bit field) range
+    outOfRange: number;  // Outside the min/max of the parameter or axis
+    stored: number;      // Stored value of the last write
+    min: number;
+    max: number;
+    unit: string;
+}
+
+function createReport(min: number, max: number, unit: string): WriteReport {
+    return {count: 0, rounded: 0, clamped: 0, outOfRange: 0, stored: NaN, min, max, unit};
+}
+
+// Record a write; min === max means the definition gives no range
+function recordWrite(report: WriteReport, entered: number, stored: StoredValue): WriteReport {
+    report.count++;
+    report.stored = stored.value;
+    // Relative tolerance hides float32 representation noise
+    if (Math.abs(stored.value - entered) > 1e-6 * Math.max(1, Math.abs(entered))) report.rounded++;
+    if (stored.clamped) report.clamped++;
+    if (report.min !== report.max && (stored.value < report.min || stored.value > report.max)) report.outOfRange++;
+    return report;
+}
+
+function WriteNotice({report}: { report: WriteReport | null }) {
+    if (!report || (!report.rounded && !report.clamped && !report.outOfRange)) return null;
+    const single = report.count === 1;
+    return (
+        <div class="flex flex-wrap gap-x-4 gap-y-1 mb-4 text-xs">
+            {report.rounded > 0 && (
+                <span class="text-zinc-400">
+                    {single
+                        ? <>Stored as <span class="font-mono text-zinc-200">{formatValue(report.stored, 4)}</span> {report.unit}</>
+                        : `${report.rounded} of ${report.count} values rounded to the nearest raw step`}
+                </span>
+            )}
+            {report.clamped > 0 && (
+                <span class="text-red-400">
+                    {single ? 'Clamped to the data type limits' : `${report.clamped} values clamped to the data type limits`}
+                </span>
+            )}
+            {report.outOfRange > 0 && (
+                <span class="text-amber-400">
+                    {single ? 'Outside' : `${report.outOfRange} values outside`} the range {report.min} - {report.max}
+                </span>
+            )}
+        </div>
+    );
+}
+
 // Logarithmic normalization for better color distribution
 function logNormalize(value: number, min: number, max: number): number {
     if (min === max) return 0.5;
@@ -630,6 +958,13 @@ function normalizeSelection(sel: Selection): Selection {
     };
 }
 
+/**
+ * Only axes stored as values can be edited; fixed and rescaled breakpoints are derived
+ */
+function isAxisEditable(axis: AxisDefinition | undefined): axis is AxisDefinition {
+    return !!axis?.address && !axis.values && !axis.rescale;
+}
+
 function TableEditor({
                          parameter,
                          binData,
@@ -637,6 +972,7 @@ function TableEditor({
                          calOffset = 0,
                          baseAddress = DEFAULT_BASE_ADDRESS,
                          bigEndian = false,
+                         ecc = false,
                          onModify
                      }: Props) {
     const [tableData, setTableData] = useState<number[][]>([]);
@@ -646,6 +982,7 @@ function TableEditor({
     const [showOriginal, setShowOriginal] = useState(false);
     const [xAxisData, setXAxisData] = useState<number[]>([]);
     const [yAxisData, setYAxisData] = useState<number[]>([]);
+    const [lastWrite, setLastWrite] = useState<WriteReport | null>(null);
 
     // Selection state
     const [selection, setSelection] = useState<Selection | null>(null);
@@ -655,6 +992,8 @@ function TableEditor({
     const [showModifyInput, setShowModifyInput] = useState<'add' | 'multiply' | 'set' | null>(null);
     const modifyInputRef = useRef<HTMLInputElement>(null);
 
+    const verbal = getVerbalConversion(parameter.conversion);
+
     // Focus modify input when it becomes visible
     useEffect(() => {
         if (showModifyInput && modifyInputRef.current) {
@@ -668,18 +1007,18 @@ function TableEditor({
     const [axisSelectionAnchor, setAxisSelectionAnchor] = useState<{ axis: 'x' | 'y'; index: number } | null>(null);
 
     const originalTableData = useMemo(
-        () => originalBinData ? readTableData(originalBinData, parameter, calOffset, baseAddress, bigEndian) : null,
-        [originalBinData, parameter, calOffset, baseAddress, bigEndian]
+        () => originalBinData ? readTableData(originalBinData, parameter, calOffset, baseAddress, bigEndian, ecc) : null,
+        [originalBinData, parameter, calOffset, baseAddress, bigEndian, ecc]
     );
 
     const originalXAxis = useMemo(
-        () => originalBinData && parameter.xAxis ? readAxisData(originalBinData, parameter.xAxis, calOffset, baseAddress, bigEndian) : null,
-        [originalBinData, parameter, calOffset, baseAddress, bigEndian]
+        () => originalBinData && parameter.xAxis ? readAxisData(originalBinData, parameter.xAxis, calOffset, baseAddress, bigEndian, ecc) : null,
+        [originalBinData, parameter, calOffset, baseAddress, bigEndian, ecc]
     );
 
     const originalYAxis = useMemo(
-        () => originalBinData && parameter.yAxis ? readAxisData(originalBinData, parameter.yAxis, calOffset, baseAddress, bigEndian) : null,
-        [originalBinData, parameter, calOffset, baseAddress, bigEndian]
+        () => originalBinData && parameter.yAxis ? readAxisData(originalBinData, parameter.yAxis, calOffset, baseAddress, bigEndian, ecc) : null,
+        [originalBinData, parameter, calOffset, baseAddress, bigEndian, ecc]
     );
 
     const hasChanged = useMemo(() => {
@@ -711,13 +1050,13 @@ function TableEditor({
 
     // These are used for initial loading only
     const xAxis = useMemo(
-        () => (parameter.xAxis ? readAxisData(binData, parameter.xAxis, calOffset, baseAddress, bigEndian) : []),
-        [parameter, binData, calOffset, baseAddress, bigEndian]
+        () => (parameter.xAxis ? readAxisData(binData, parameter.xAxis, calOffset, baseAddress, bigEndian, ecc) : []),
+        [parameter, binData, calOffset, baseAddress, bigEndian, ecc]
     );
 
     const yAxis = useMemo(
-        () => (parameter.yAxis ? readAxisData(binData, parameter.yAxis, calOffset, baseAddress, bigEndian) : []),
-        [parameter, binData, calOffset, baseAddress, bigEndian]
+        () => (parameter.yAxis ? readAxisData(binData, parameter.yAxis, calOffset, baseAddress, bigEndian, ecc) : []),
+        [parameter, binData, calOffset, baseAddress, bigEndian, ecc]
     );
 
     // Initialize axis data state
@@ -744,11 +1083,30 @@ function TableEditor({
     const dataDecimals = useMemo(() => getConsistentDecimals(tableData.flat(), 2), [tableData]);
 
     useEffect(() => {
-        setTableData(readTableData(binData, parameter, calOffset, baseAddress, bigEndian));
-    }, [parameter, binData, calOffset, baseAddress, bigEndian]);
+        setTableData(readTableData(binData, parameter, calOffset, baseAddress, bigEndian, ecc));
+        setLastWrite(null);
+    }, [parameter, binData, calOffset, baseAddress, bigEndian, ecc]);
+
+    // Report for writes to the table data or to one of its axes
+    const createTableReport = (axis?: 'x' | 'y') => {
+        const axisDef = axis === 'x' ? parameter.xAxis : axis === 'y' ? parameter.yAxis : undefined;
+        return axisDef ? createReport(axisDef.min, axisDef.max, axisDef.unit) : createReport(parameter.min, parameter.max, parameter.unit);
+    };
+
+    // While typing, preview what the entered value will be stored as
+    const editPreview = (() => {
+        const entered = verbal && editCell ? parseVerbalValue(inputValue, verbal) : parseFloat(inputValue);
+        if (isNaN(entered)) return null;
+        if (editCell) {
+            return recordWrite(createTableReport(), entered, quantizeParameterValue(parameter, entered));
+        }
+        const axisDef = editAxisCell?.axis === 'x' ? parameter.xAxis : editAxisCell?.axis === 'y' ? parameter.yAxis : undefined;
+        return axisDef ? recordWrite(createTableReport(editAxisCell!.axis), entered, quantizeAxisValue(axisDef, entered)) : null;
+    })();
 
     const handleCellDoubleClick = (row: number, col: number) => {
-        setInputValue(formatValue(tableData[row][col], 4));
+        const cellValue = tableData[row][col];
+        setInputValue(verbal ? findVerbalEntry(cellValue, verbal)?.label ?? String(cellValue) : formatValue(cellValue, 4));
         setEditCell({row, col});
         setEditAxisCell(null);
     };
@@ -762,33 +1120,35 @@ function TableEditor({
 
     const handleConfirm = () => {
         if (editCell) {
-            const newValue = parseFloat(inputValue);
-            if (!isNaN(newValue)) {
-                writeTableCell(binData, parameter, editCell.row, editCell.col, newValue, calOffset, baseAddress, bigEndian);
+            const newValue = verbal ? parseVerbalValue(inputValue, verbal) : parseFloat(inputValue);
+            if (!isNaN(newValue)) applyEdit(() => {
+                const stored = writeTableCell(binData, parameter, editCell.row, editCell.col, newValue, calOffset, baseAddress, bigEndian, ecc);
                 const newData = [...tableData];
                 newData[editCell.row] = [...newData[editCell.row]];
-                newData[editCell.row][editCell.col] = newValue;
+                newData[editCell.row][editCell.col] = stored.value;
                 setTableData(newData);
+                setLastWrite(recordWrite(createTableReport(), newValue, stored));
                 onModify();
-            }
+            });
             setEditCell(null);
         } else if (editAxisCell) {
             const newValue = parseFloat(inputValue);
             if (!isNaN(newValue)) {
                 const axisDef = editAxisCell.axis === 'x' ? parameter.xAxis : parameter.yAxis;
-                if (axisDef) {
-                    writeAxisValue(binData, axisDef, editAxisCell.index, newValue, calOffset, baseAddress, bigEndian);
+                if (axisDef) applyEdit(() => {
+                    const stored = writeAxisValue(binData, axisDef, editAxisCell.index, newValue, calOffset, baseAddress, bigEndian, ecc);
                     if (editAxisCell.axis === 'x') {
                         const newAxisData = [...xAxisData];
-                        newAxisData[editAxisCell.index] = newValue;
+                        newAxisData[editAxisCell.index] = stored.value;
                         setXAxisData(newAxisData);
                     } else {
                         const newAxisData = [...yAxisData];
-                        newAxisData[editAxisCell.index] = newValue;
+                        newAxisData[editAxisCell.index] = stored.value;
                         setYAxisData(newAxisData);
                     }
+                    setLastWrite(recordWrite(createTableReport(editAxisCell.axis), newValue, stored));
                     onModify();
-                }
+                });
             }
             setEditAxisCell(null);
         }
@@ -951,21 +1311,32 @@ function TableEditor({
                 const text = await navigator.clipboard.readText();
                 const values = text.trim().split(/[\t\n]/).map(v => parseFloat(v.trim()));
                 const axisDef = axisSelection.axis === 'x' ? parameter.xAxis : parameter.yAxis;
-                if (!axisDef?.address) return;
+                if (!isAxisEditable(axisDef)) return;
                 const axisData = axisSelection.axis === 'x' ? xAxisData : yAxisData;
                 const setAxisData = axisSelection.axis === 'x' ? setXAxisData : setYAxisData;
                 const newAxisData = [...axisData];
+                const report = createTableReport(axisSelection.axis);
                 const start = Math.min(axisSelection.start, axisSelection.end);
-                for (let i = 0; i < values.length && start + i < axisData.length; i++) {
-                    if (!isNaN(values[i])) {
-                        writeAxisValue(binData, axisDef, start + i, values[i], calOffset, baseAddress, bigEndian);
-                        newAxisData[start + i] = values[i];
+                let written = false;
+                try {
+                    for (let i = 0; i < values.length && start + i < axisData.length; i++) {
+                        if (!isNaN(values[i])) {
+                            const stored = writeAxisValue(binData, axisDef, start + i, values[i], calOffset, baseAddress, bigEndian, ecc);
+                            newAxisData[start + i] = stored.value;
+                            recordWrite(report, values[i], stored);
+                            written = true;
+                        }
+                    }
+                } finally {
+                    // Values written before a refused one stay in the BIN
+                    if (written) {
+                        setAxisData(newAxisData);
+                        setLastWrite(report);
+                        onModify();
                     }
                 }
-                setAxisData(newAxisData);
-                onModify();
             } catch (e) {
-                console.error('Paste failed:', e);
+                reportWriteError(e);
             }
             return;
         }
@@ -973,57 +1344,85 @@ function TableEditor({
         try {
             const text = await navigator.clipboard.readText();
             const norm = normalizeSelection(selection);
-            const rows = text.trim().split('\n').map(r => r.split('\t').map(c => parseFloat(c.trim())));
+            // State names are accepted like in single-cell editing
+            const parseCell = (cell: string) => verbal ? parseVerbalValue(cell, verbal) : parseFloat(cell.trim());
+            const rows = text.trim().split('\n').map(r => r.split('\t').map(parseCell));
 
             const newData = tableData.map(r => [...r]);
-            for (let r = 0; r < rows.length && norm.startRow + r < tableData.length; r++) {
-                for (let c = 0; c < rows[r].length && norm.startCol + c < tableData[0].length; c++) {
-                    const value = rows[r][c];
-                    if (!isNaN(value)) {
-                        const targetRow = norm.startRow + r;
-                        const targetCol = norm.startCol + c;
-                        writeTableCell(binData, parameter, targetRow, targetCol, value, calOffset, baseAddress, bigEndian);
-                        newData[targetRow][targetCol] = value;
+            const report = createTableReport();
+            let written = false;
+            try {
+                for (let r = 0; r < rows.length && norm.startRow + r < tableData.length; r++) {
+                    for (let c = 0; c < rows[r].length && norm.startCol + c < tableData[0].length; c++) {
+                        const value = rows[r][c];
+                        if (!isNaN(value)) {
+                            const targetRow = norm.startRow + r;
+                            const targetCol = norm.startCol + c;
+                            const stored = writeTableCell(binData, parameter, targetRow, targetCol, value, calOffset, baseAddress, bigEndian, ecc);
+                            newData[targetRow][targetCol] = stored.value;
+                            recordWrite(report, value, stored);
+                            written = true;
+                        }
                     }
                 }
+            } finally {
+                // Cells written before a refused one stay in the BIN
+                if (written) {
+                    setTableData(newData);
+                    setLastWrite(report);
+                    onModify();
+                }
             }
-            setTableData(newData);
-            onModify();
         } catch (e) {
-            console.error('Paste failed:', e);
+            reportWriteError(e);
         }
     };
 
     // Modify selected cells (table or axis)
     const modifySelection = (operation: 'add' | 'multiply' | 'set', value: number) => {
         if (isNaN(value)) return;
+        applyEdit(() => modifySelectionValues(operation, value));
+    };
+
+    const modifySelectionValues = (operation: 'add' | 'multiply' | 'set', value: number) => {
 
         // Handle axis selection
         if (axisSelection) {
             const axisDef = axisSelection.axis === 'x' ? parameter.xAxis : parameter.yAxis;
-            if (!axisDef?.address) return;
+            if (!isAxisEditable(axisDef)) return;
 
             const axisData = axisSelection.axis === 'x' ? xAxisData : yAxisData;
             const setAxisData = axisSelection.axis === 'x' ? setXAxisData : setYAxisData;
             const newAxisData = [...axisData];
+            const report = createTableReport(axisSelection.axis);
 
             const start = Math.min(axisSelection.start, axisSelection.end);
             const end = Math.max(axisSelection.start, axisSelection.end);
 
-            for (let i = start; i <= end; i++) {
-                let newValue: number;
-                if (operation === 'add') {
-                    newValue = axisData[i] + value;
-                } else if (operation === 'multiply') {
-                    newValue = axisData[i] * (value / 100);
-                } else {
-                    newValue = value;
+            let written = false;
+            try {
+                for (let i = start; i <= end; i++) {
+                    let newValue: number;
+                    if (operation === 'add') {
+                        newValue = axisData[i] + value;
+                    } else if (operation === 'multiply') {
+                        newValue = axisData[i] * (value / 100);
+                    } else {
+                        newValue = value;
+                    }
+                    const stored = writeAxisValue(binData, axisDef, i, newValue, calOffset, baseAddress, bigEndian, ecc);
+                    newAxisData[i] = stored.value;
+                    recordWrite(report, newValue, stored);
+                    written = true;
+                }
+            } finally {
+                // Values written before a refused one stay in the BIN
+                if (written) {
+                    setAxisData(newAxisData);
+                    setLastWrite(report);
+                    onModify();
                 }
-                writeAxisValue(binData, axisDef, i, newValue, calOffset, baseAddress, bigEndian);
-                newAxisData[i] = newValue;
             }
-            setAxisData(newAxisData);
-            onModify();
             setShowModifyInput(null);
             setModifyValue('');
             return;
@@ -1033,25 +1432,36 @@ function TableEditor({
         if (!selection) return;
         const norm = normalizeSelection(selection);
         const newData = tableData.map(r => [...r]);
+        const report = createTableReport();
 
-        for (let r = norm.startRow; r <= norm.endRow; r++) {
-            for (let c = norm.startCol; c <= norm.endCol; c++) {
-                let newValue: number;
-                if (operation === 'add') {
-                    newValue = tableData[r][c] + value;
-                } else if (operation === 'multiply') {
-                    // 50 means 50% of current value
-                    newValue = tableData[r][c] * (value / 100);
-                } else {
-                    // set to exact value
-                    newValue = value;
+        let written = false;
+        try {
+            for (let r = norm.startRow; r <= norm.endRow; r++) {
+                for (let c = norm.startCol; c <= norm.endCol; c++) {
+                    let newValue: number;
+                    if (operation === 'add') {
+                        newValue = tableData[r][c] + value;
+                    } else if (operation === 'multiply') {
+                        // 50 means 50% of current value
+                        newValue = tableData[r][c] * (value / 100);
+                    } else {
+                        // set to exact value
+                        newValue = value;
+                    }
+                    const stored = writeTableCell(binData, parameter, r, c, newValue, calOffset, baseAddress, bigEndian, ecc);
+                    newData[r][c] = stored.value;
+                    recordWrite(report, newValue, stored);
+                    written = true;
                 }
-                writeTableCell(binData, parameter, r, c, newValue, calOffset, baseAddress, bigEndian);
-                newData[r][c] = newValue;
+            }
+        } finally {
+            // Cells written before a refused one stay in the BIN
+            if (written) {
+                setTableData(newData);
+                setLastWrite(report);
+                onModify();
             }
         }
-        setTableData(newData);
-        onModify();
         setShowModifyInput(null);
         setModifyValue('');
     };
@@ -1189,6 +1599,8 @@ function TableEditor({
                 )}
             </div>
 
+            <WriteNotice report={editPreview ?? lastWrite}/>
+
             <div class="overflow-auto max-h-[calc(100vh-200px)]">
                 <table class="border-collapse font-mono text-xs table-fixed">
                     <colgroup>
@@ -1222,7 +1634,7 @@ function TableEditor({
                                 const isChanged = xAxisChanged(i);
                                 const isCellSelected = isAxisSelected('x', i);
                                 const displayValue = showOriginal && originalXAxis ? originalXAxis[i] : val;
-                                const canEdit = parameter.xAxis?.address;
+                                const canEdit = isAxisEditable(parameter.xAxis);
                                 return (
                                     <th
                                         key={i}
@@ -1280,7 +1692,7 @@ function TableEditor({
                                 const isChanged = yAxisChanged(rowIdx);
                                 const isCellSelected = isAxisSelected('y', rowIdx);
                                 const displayValue = showOriginal && originalYAxis ? originalYAxis[rowIdx] : yAxisData[rowIdx];
-                                const canEdit = parameter.yAxis?.address;
+                                const canEdit = isAxisEditable(parameter.yAxis);
                                 return (
                                     <td
                                         class={`p-1.5 border border-zinc-700 font-medium text-right select-none ${
@@ -1320,11 +1732,13 @@ function TableEditor({
                                 const colorMin = showOriginal ? origMinVal : minVal;
                                 const colorMax = showOriginal ? origMaxVal : maxVal;
                                 const bgColor = getCellColor(displayValue, colorMin, colorMax);
+                                const isInvalidState = verbal !== null && !findVerbalEntry(displayValue, verbal);
                                 return (
                                     <td
                                         key={colIdx}
+                                        title={verbal ? (isInvalidState ? `Invalid state: raw value ${displayValue}` : `Raw value ${displayValue}`) : undefined}
                                         class={`p-1.5 border border-zinc-600 text-right cursor-pointer hover:brightness-110 min-w-16 select-none ${
-                                            isChanged && !showOriginal ? 'text-white font-bold' : 'text-zinc-900'
+                                            isInvalidState ? 'text-red-700 font-bold underline decoration-wavy' : isChanged && !showOriginal ? 'text-white font-bold' : 'text-zinc-900'
                                         }`}
                                         style={{
                                             backgroundColor: isEditing ? '#3b82f6' : isChanged && !showOriginal
@@ -1347,6 +1761,8 @@ function TableEditor({
                                                 autoFocus
                                                 class="w-full bg-transparent text-white font-mono text-xs text-right outline-none"
                                             />
+                                        ) : verbal ? (
+                                            formatState(displayValue, verbal)
                                         ) : (
                                             formatValueConsistent(displayValue, dataDecimals)
                                         )}
@@ -30,7 +30,7 @@ export function XdfLoader({ onDefinitionLoad }: Props) {
     const stats = parser.getStats();
 
     const definition = parser.generateDefinition(xdfFile.name.replace('.xdf', ''));
-    console.log(`Converted: ${stats.matched} matched, ${stats.tables} tables, ${stats.constants} constants`);
+    console.log(`Converted: ${stats.matched} matched, ${stats.tables} tables, ${stats.constants} constants, ${stats.flags} flags`);
 
     onDefinitionLoad(definition);
 
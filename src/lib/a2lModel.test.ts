@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parseA2l } from './a2lModel';
+
+describe('A2L parse errors', () => {
+  it('name the line of an unclosed comment or string', () => {
+    expect(() => parseA2l('ASAP2_VERSION 1 60\n\n/* never closed\n')).toThrow('Line 3: Comment is never closed');
+    expect(() => parseA2l('/begin PROJECT P\n"no end')).toThrow('Line 2: String is never closed');
+  });
+
+  it('name the line of a missing block name', () => {
+    expect(() => parseA2l('/begin PROJECT P ""\n/begin "x"')).toThrow('Line 2: Expected a block name after /begin');
+  });
+
+  it('name the line of a mismatched or missing /end', () => {
+    expect(() => parseA2l('/begin PROJECT P ""\n  /begin MODULE M ""\n  /end PROJECT\n/end PROJECT'))
+      .toThrow('Line 3: /end PROJECT does not close /begin MODULE (line 2)');
+    expect(() => parseA2l('\n/begin PROJECT P ""\n')).toThrow('Line 2: /begin PROJECT is never closed');
+    expect(() => parseA2l('/end MODULE')).toThrow('Line 1: /end MODULE without /begin');
+  });
+
+  it('name the line of a malformed parameter', () => {
+    const text = '/begin PROJECT P ""\n/begin MODULE M ""\n/begin MOD_PAR ""\n/begin MEMORY_SEGMENT CAL "" DATA FLASH INTERN\n  0x8000000x 0x100 -1 -1 -1 -1 -1\n/end MEMORY_SEGMENT\n/end MOD_PAR\n/end MODULE\n/end PROJECT';
+    expect(() => parseA2l(text)).toThrow(/^Line 5: Expected .*\(a number\), got 0x8000000x$/);
+  });
+
+  it('name the included file and its line', () => {
+    const includes = new Map([['cal.a2l', '/begin MODULE M ""\n\n/end PROJECT']]);
+    expect(() => parseA2l('/begin PROJECT P ""\n/include "dir/CAL.a2l"\n/end PROJECT', includes))
+      .toThrow('CAL.a2l line 3: /end PROJECT does not close /begin MODULE');
+  });
+
+  it('report a missing include at the /include line', () => {
+    expect(() => parseA2l('/begin PROJECT P ""\n\n/include other.a2l\n/end PROJECT')).toThrow('Line 3: Included file other.a2l was not provided');
+  });
+
+  it('report input that ends inside a block', () => {
+    expect(() => parseA2l('/begin PROJECT P')).toThrow('Unexpected end of file: Expected PROJECT description (a quoted string), got end of file');
+  });
+});
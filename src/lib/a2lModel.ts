@@ -0,0 +1,645 @@
+/**
+ * Typed model of an ASAP2 (A2L) file and the block-structured parser that builds it
+ *
+ * Each supported block reads its fixed parameters in order, then its optional
+ * keywords and nested blocks in any order. Unknown keywords are skipped token by
+ * token and unknown blocks (IF_DATA, A2ML, ANNOTATION, ...) up to their /end, so
+ * vendor extensions and keywords inside them don't disturb the parse.
+ * Errors name the line (and included file) they occur at.
+ */
+
+import { A2lTokenizer, formatLocation, type A2lIncludes, type A2lToken } from './a2lTokenizer';
+
+export type A2lByteOrder = 'MSB_FIRST' | 'MSB_LAST' | 'LITTLE_ENDIAN' | 'BIG_ENDIAN' | 'MSB_FIRST_MSW_LAST' | 'MSB_LAST_MSW_FIRST';
+
+export type A2lCharacteristicType = 'VALUE' | 'CURVE' | 'MAP' | 'CUBOID' | 'CUBE_4' | 'CUBE_5' | 'VAL_BLK' | 'ASCII';
+
+export type A2lAxisAttribute = 'STD_AXIS' | 'COM_AXIS' | 'FIX_AXIS' | 'CURVE_AXIS' | 'RES_AXIS';
+
+export interface A2lFixAxisPar {
+  offset: number;
+  shift: number;      // FIX_AXIS_PAR: points are offset + i * 2^shift
+  count: number;
+}
+
+export interface A2lFixAxisParDist {
+  offset: number;
+  distance: number;   // FIX_AXIS_PAR_DIST: points are offset + i * distance
+  count: number;
+}
+
+export interface A2lAxisDescr {
+  attribute: A2lAxisAttribute;
+  inputQuantity: string;
+  conversion: string;
+  maxAxisPoints: number;
+  lowerLimit: number;
+  upperLimit: number;
+  axisPtsRef?: string;            // COM_AXIS, RES_AXIS
+  curveAxisRef?: string;          // CURVE_AXIS
+  fixAxisPar?: A2lFixAxisPar;
+  fixAxisParDist?: A2lFixAxisParDist;
+  fixAxisParList?: number[];
+  byteOrder?: A2lByteOrder;
+}
+
+export interface A2lCharacteristic {
+  name: string;
+  longIdentifier: string;
+  type: A2lCharacteristicType;
+  address: number;
+  deposit: string;                // RECORD_LAYOUT name
+  maxDiff: number;
+  conversion: string;             // COMPU_METHOD name or NO_COMPU_METHOD
+  lowerLimit: number;
+  upperLimit: number;
+  axisDescrs: A2lAxisDescr[];
+  bitMask?: number;
+  byteOrder?: A2lByteOrder;
+  number?: number;                // Deprecated size of VAL_BLK and ASCII
+  matrixDim?: number[];           // Size of VAL_BLK and ASCII
+}
+
+export interface A2lMeasurement {
+  name: string;
+  longIdentifier: string;
+  dataType: string;               // ASAP2 data type (UBYTE, ..., FLOAT32_IEEE)
+  conversion: string;
+  resolution: number;
+  accuracy: number;
+  lowerLimit: number;
+  upperLimit: number;
+  address?: number;               // ECU_ADDRESS, missing for virtual measurements
+  bitMask?: number;
+  byteOrder?: A2lByteOrder;
+  arraySize?: number;
+  matrixDim?: number[];
+}
+
+export interface A2lAxisPts {
+  name: string;
+  longIdentifier: string;
+  address: number;
+  inputQuantity: string;
+  deposit: string;
+  maxDiff: number;
+  conversion: string;
+  maxAxisPoints: number;
+  lowerLimit: number;
+  upperLimit: number;
+  byteOrder?: A2lByteOrder;
+}
+
+export interface A2lCompuMethod {
+  name: string;
+  longIdentifier: string;
+  conversionType: string;         // IDENTICAL, LINEAR, RAT_FUNC, TAB_INTP, TAB_NOINTP, TAB_VERB or FORM
+  format: string;
+  unit: string;
+  coeffs?: number[];              // RAT_FUNC [a, b, c, d, e, f]
+  coeffsLinear?: number[];        // LINEAR [a, b]
+  compuTabRef?: string;
+  formula?: string;               // FORM: PHYS = f(X1)
+  formulaInv?: string;            // FORM: RAW = g(X1)
+}
+
+export type A2lCompuTab =
+  | { kind: 'COMPU_TAB'; name: string; conversionType: string; pairs: { raw: number; phys: number }[] }
+  | { kind: 'COMPU_VTAB'; name: string; conversionType: string; entries: { raw: number; label: string }[]; defaultValue?: string }
+  | { kind: 'COMPU_VTAB_RANGE'; name: string; entries: { min: number; max: number; label: string }[]; defaultValue?: string };
+
+export interface A2lRecordLayoutEntry {
+  keyword: string;                // FNC_VALUES, AXIS_PTS_X, NO_AXIS_PTS_X, SRC_ADDR_X, RESERVED, ...
+  position: number;
+  dataType: string;               // ASAP2 data type (RESERVED: BYTE, WORD or LONG)
+  indexMode?: string;             // FNC_VALUES: ROW_DIR, COLUMN_DIR, ...; AXIS_PTS_*: INDEX_INCR or INDEX_DECR
+  addressing?: string;            // DIRECT, PBYTE, PWORD or PLONG
+  maxRescalePairs?: number;       // AXIS_RESCALE_*
+}
+
+export interface A2lRecordLayout {
+  name: string;
+  entries: A2lRecordLayoutEntry[];        // In file order
+  fixNoAxisPts: Record<string, number>;   // FIX_NO_AXIS_PTS_X/Y/... by axis letter
+}
+
+export interface A2lMemorySegment {
+  name: string;
+  longIdentifier: string;
+  prgType: string;                // CODE, DATA, OFFLINE_DATA, ...
+  memoryType: string;             // FLASH, RAM, EEPROM, ...
+  attribute: string;              // INTERN or EXTERN
+  address: number;
+  size: number;
+  mirrorOffsets: number[];        // Offsets of the addresses the segment is mirrored at (unused -1 entries dropped)
+}
+
+export interface A2lFunction {
+  name: string;
+  longIdentifier: string;
+  defCharacteristics: string[];   // Characteristics the function defines
+  refCharacteristics: string[];   // Characteristics it only uses
+  subFunctions: string[];
+}
+
+export interface A2lGroup {
+  name: string;
+  longIdentifier: string;
+  root: boolean;                  // Top level of a group hierarchy
+  refCharacteristics: string[];
+  subGroups: string[];
+}
+
+export interface A2lModule {
+  name: string;
+  longIdentifier: string;
+  byteOrder?: A2lByteOrder;       // MOD_COMMON default
+  characteristics: A2lCharacteristic[];
+  measurements: A2lMeasurement[];
+  axisPts: A2lAxisPts[];
+  compuMethods: A2lCompuMethod[];
+  compuTabs: A2lCompuTab[];
+  recordLayouts: A2lRecordLayout[];
+  memorySegments: A2lMemorySegment[];
+  functions: A2lFunction[];
+  groups: A2lGroup[];
+}
+
+export interface A2lProject {
+  name: string;
+  longIdentifier: string;
+  modules: A2lModule[];
+}
+
+const BYTE_ORDERS: A2lByteOrder[] = ['MSB_FIRST', 'MSB_LAST', 'LITTLE_ENDIAN', 'BIG_ENDIAN', 'MSB_FIRST_MSW_LAST', 'MSB_LAST_MSW_FIRST'];
+const CHARACTERISTIC_TYPES: A2lCharacteristicType[] = ['VALUE', 'CURVE', 'MAP', 'CUBOID', 'CUBE_4', 'CUBE_5', 'VAL_BLK', 'ASCII'];
+const AXIS_ATTRIBUTES: A2lAxisAttribute[] = ['STD_AXIS', 'COM_AXIS', 'FIX_AXIS', 'CURVE_AXIS', 'RES_AXIS'];
+
+const NUMBER_PATTERN = /^[+-]?(?:0x[0-9a-f]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)$/i;
+
+// RECORD_LAYOUT entries with a position and data type, and the fields following them
+const LAYOUT_ENTRY_WORDS: Record<string, ('indexMode' | 'addressing' | 'maxRescalePairs')[]> = {
+  FNC_VALUES: ['indexMode', 'addressing'],
+  IDENTIFICATION: [],
+  RESERVED: [],
+};
+for (const axis of ['X', 'Y', 'Z', '4', '5']) {
+  LAYOUT_ENTRY_WORDS[`AXIS_PTS_${axis}`] = ['indexMode', 'addressing'];
+  LAYOUT_ENTRY_WORDS[`AXIS_RESCALE_${axis}`] = ['maxRescalePairs', 'indexMode', 'addressing'];
+  for (const keyword of ['NO_AXIS_PTS', 'NO_RESCALE', 'OFFSET', 'DIST_OP', 'SHIFT_OP', 'SRC_ADDR', 'RIP_ADDR']) {
+    LAYOUT_ENTRY_WORDS[`${keyword}_${axis}`] = [];
+  }
+}
+
+type Handlers = Record<string, (token: A2lToken) => void>;
+
+class Parser {
+  constructor(private tokens: A2lTokenizer) {}
+
+  fail(token: A2lToken | null, message: string): never {
+    throw new Error(token ? `${formatLocation(token)}: ${message}` : `Unexpected end of file: ${message}`);
+  }
+
+  private describe(token: A2lToken | null): string {
+    if (!token) return 'end of file';
+    if (token.kind === 'begin' || token.kind === 'end') return `/${token.kind} ${token.text}`;
+    return token.kind === 'string' ? `"${token.text}"` : token.text;
+  }
+
+  word(what: string): string {
+    const token = this.tokens.next();
+    if (token?.kind !== 'word') this.fail(token, `Expected ${what}, got ${this.describe(token)}`);
+    return token.text;
+  }
+
+  string(what: string): string {
+    const token = this.tokens.next();
+    if (token?.kind !== 'string') this.fail(token, `Expected ${what} (a quoted string), got ${this.describe(token)}`);
+    return token.text;
+  }
+
+  number(what: string): number {
+    const token = this.tokens.next();
+    if (token?.kind !== 'word' || !NUMBER_PATTERN.test(token.text)) this.fail(token, `Expected ${what} (a number), got ${this.describe(token)}`);
+    return parseNumber(token.text);
+  }
+
+  integer(what: string): number {
+    const token = this.tokens.peek();
+    const value = this.number(what);
+    if (!Number.isInteger(value)) this.fail(token, `Expected ${what} (an integer), got ${value}`);
+    return value;
+  }
+
+  oneOf<T extends string>(options: readonly T[], what: string): T {
+    const token = this.tokens.peek();
+    const value = this.word(what);
+    if (!options.includes(value as T)) this.fail(token, `Expected ${what} (${options.join(', ')}), got ${value}`);
+    return value as T;
+  }
+
+  /**
+   * Numbers up to the next keyword, string or block
+   */
+  numbers(): number[] {
+    const values: number[] = [];
+    for (let token = this.tokens.peek(); token?.kind === 'word' && NUMBER_PATTERN.test(token.text); token = this.tokens.peek()) {
+      values.push(parseNumber(this.tokens.next()!.text));
+    }
+    return values;
+  }
+
+  /**
+   * Parse the optional part of a block up to its /end
+   */
+  body(begin: A2lToken, keywords: Handlers = {}, blocks: Handlers = {}): void {
+    for (;;) {
+      const token = this.tokens.next();
+      if (!token) this.fail(begin, `/begin ${begin.text} is never closed`);
+      if (token.kind === 'end') {
+        if (token.text !== begin.text) this.fail(token, `/end ${token.text} does not close /begin ${begin.text} (${formatLocation(begin).toLowerCase()})`);
+        return;
+      }
+      if (token.kind === 'begin') {
+        if (Object.hasOwn(blocks, token.text)) blocks[token.text](token);
+        else this.skip(token);
+      } else if (token.kind === 'word' && Object.hasOwn(keywords, token.text)) {
+        keywords[token.text](token);
+      }
+      // Anything else belongs to an unknown keyword
+    }
+  }
+
+  /**
+   * Skip an unknown block including nested blocks
+   */
+  skip(begin: A2lToken): void {
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.tokens.next();
+      if (!token) this.fail(begin, `/begin ${begin.text} is never closed`);
+      if (token.kind === 'begin') depth++;
+      else if (token.kind === 'end') depth--;
+    }
+  }
+
+  parseFile(): A2lProject {
+    const project: A2lProject = { name: '', longIdentifier: '', modules: [] };
+    for (let token = this.tokens.next(); token; token = this.tokens.next()) {
+      if (token.kind === 'end') this.fail(token, `/end ${token.text} without /begin`);
+      if (token.kind !== 'begin') continue; // ASAP2_VERSION, A2ML_VERSION
+      if (token.text === 'PROJECT') {
+        const parsed = this.parseProject(token);
+        project.name = parsed.name;
+        project.longIdentifier = parsed.longIdentifier;
+        project.modules.push(...parsed.modules);
+      } else if (token.text === 'MODULE') {
+        project.modules.push(this.parseModule(token));
+      } else {
+        this.skip(token);
+      }
+    }
+    return project;
+  }
+
+  private parseProject(begin: A2lToken): A2lProject {
+    const project: A2lProject = { name: this.word('PROJECT name'), longIdentifier: this.string('PROJECT description'), modules: [] };
+    this.body(begin, {}, {
+      MODULE: token => project.modules.push(this.parseModule(token)),
+    });
+    return project;
+  }
+
+  private parseModule(begin: A2lToken): A2lModule {
+    const module: A2lModule = {
+      name: this.word('MODULE name'),
+      longIdentifier: this.string('MODULE description'),
+      characteristics: [],
+      measurements: [],
+      axisPts: [],
+      compuMethods: [],
+      compuTabs: [],
+      recordLayouts: [],
+      memorySegments: [],
+      functions: [],
+      groups: [],
+    };
+    this.body(begin, {}, {
+      CHARACTERISTIC: token => module.characteristics.push(this.parseCharacteristic(token)),
+      MEASUREMENT: token => module.measurements.push(this.parseMeasurement(token)),
+      AXIS_PTS: token => module.axisPts.push(this.parseAxisPts(token)),
+      COMPU_METHOD: token => module.compuMethods.push(this.parseCompuMethod(token)),
+      COMPU_TAB: token => module.compuTabs.push(this.parseCompuTab(token)),
+      COMPU_VTAB: token => module.compuTabs.push(this.parseCompuVtab(token)),
+      COMPU_VTAB_RANGE: token => module.compuTabs.push(this.parseCompuVtabRange(token)),
+      RECORD_LAYOUT: token => module.recordLayouts.push(this.parseRecordLayout(token)),
+      FUNCTION: token => module.functions.push(this.parseFunction(token)),
+      GROUP: token => module.groups.push(this.parseGroup(token)),
+      MOD_PAR: token => {
+        this.string('MOD_PAR comment');
+        this.body(token, {}, {
+          MEMORY_SEGMENT: segment => module.memorySegments.push(this.parseMemorySegment(segment)),
+        });
+      },
+      MOD_COMMON: token => {
+        this.string('MOD_COMMON comment');
+        this.body(token, {
+          BYTE_ORDER: () => { module.byteOrder = this.oneOf(BYTE_ORDERS, 'BYTE_ORDER'); },
+        });
+      },
+    });
+    return module;
+  }
+
+  private parseCharacteristic(begin: A2lToken): A2lCharacteristic {
+    const name = this.word('CHARACTERISTIC name');
+    const of = ` of CHARACTERISTIC ${name}`;
+    const characteristic: A2lCharacteristic = {
+      name,
+      longIdentifier: this.string('description' + of),
+      type: this.oneOf(CHARACTERISTIC_TYPES, 'type' + of),
+      address: this.integer('address' + of),
+      deposit: this.word('record layout' + of),
+      maxDiff: this.number('MaxDiff' + of),
+      conversion: this.word('conversion' + of),
+      lowerLimit: this.number('lower limit' + of),
+      upperLimit: this.number('upper limit' + of),
+      axisDescrs: [],
+    };
+    this.body(begin, {
+      BIT_MASK: () => { characteristic.bitMask = this.integer('BIT_MASK' + of); },
+      BYTE_ORDER: () => { characteristic.byteOrder = this.oneOf(BYTE_ORDERS, 'BYTE_ORDER' + of); },
+      NUMBER: () => { characteristic.number = this.integer('NUMBER' + of); },
+      MATRIX_DIM: token => {
+        const dims = this.numbers();
+        if (dims.length === 0) this.fail(token, `Expected MATRIX_DIM sizes${of}`);
+        characteristic.matrixDim = dims;
+      },
+    }, {
+      AXIS_DESCR: token => characteristic.axisDescrs.push(this.parseAxisDescr(token, of)),
+    });
+    return characteristic;
+  }
+
+  private parseMeasurement(begin: A2lToken): A2lMeasurement {
+    const name = this.word('MEASUREMENT name');
+    const of = ` of MEASUREMENT ${name}`;
+    const measurement: A2lMeasurement = {
+      name,
+      longIdentifier: this.string('description' + of),
+      dataType: this.word('data type' + of),
+      conversion: this.word('conversion' + of),
+      resolution: this.number('resolution' + of),
+      accuracy: this.number('accuracy' + of),
+      lowerLimit: this.number('lower limit' + of),
+      upperLimit: this.number('upper limit' + of),
+    };
+    this.body(begin, {
+      ECU_ADDRESS: () => { measurement.address = this.integer('ECU_ADDRESS' + of); },
+      BIT_MASK: () => { measurement.bitMask = this.integer('BIT_MASK' + of); },
+      BYTE_ORDER: () => { measurement.byteOrder = this.oneOf(BYTE_ORDERS, 'BYTE_ORDER' + of); },
+      ARRAY_SIZE: () => { measurement.arraySize = this.integer('ARRAY_SIZE' + of); },
+      MATRIX_DIM: token => {
+        const dims = this.numbers();
+        if (dims.length === 0) this.fail(token, `Expected MATRIX_DIM sizes${of}`);
+        measurement.matrixDim = dims;
+      },
+    });
+    return measurement;
+  }
+
+  private parseAxisDescr(begin: A2lToken, parent: string): A2lAxisDescr {
+    const of = ` of AXIS_DESCR${parent}`;
+    const axis: A2lAxisDescr = {
+      attribute: this.oneOf(AXIS_ATTRIBUTES, 'axis type' + of),
+      inputQuantity: this.word('input quantity' + of),
+      conversion: this.word('conversion' + of),
+      maxAxisPoints: this.integer('number of axis points' + of),
+      lowerLimit: this.number('lower limit' + of),
+      upperLimit: this.number('upper limit' + of),
+    };
+    this.body(begin, {
+      AXIS_PTS_REF: () => { axis.axisPtsRef = this.word('AXIS_PTS_REF' + of); },
+      CURVE_AXIS_REF: () => { axis.curveAxisRef = this.word('CURVE_AXIS_REF' + of); },
+      BYTE_ORDER: () => { axis.byteOrder = this.oneOf(BYTE_ORDERS, 'BYTE_ORDER' + of); },
+      FIX_AXIS_PAR: () => {
+        axis.fixAxisPar = { offset: this.number('FIX_AXIS_PAR offset' + of), shift: this.number('FIX_AXIS_PAR shift' + of), count: this.integer('FIX_AXIS_PAR count' + of) };
+      },
+      FIX_AXIS_PAR_DIST: () => {
+        axis.fixAxisParDist = { offset: this.number('FIX_AXIS_PAR_DIST offset' + of), distance: this.number('FIX_AXIS_PAR_DIST distance' + of), count: this.integer('FIX_AXIS_PAR_DIST count' + of) };
+      },
+    }, {
+      FIX_AXIS_PAR_LIST: token => {
+        axis.fixAxisParList = this.numbers();
+        this.body(token);
+      },
+    });
+    return axis;
+  }
+
+  private parseAxisPts(begin: A2lToken): A2lAxisPts {
+    const name = this.word('AXIS_PTS name');
+    const of = ` of AXIS_PTS ${name}`;
+    const axisPts: A2lAxisPts = {
+      name,
+      longIdentifier: this.string('description' + of),
+      address: this.integer('address' + of),
+      inputQuantity: this.word('input quantity' + of),
+      deposit: this.word('record layout' + of),
+      maxDiff: this.number('MaxDiff' + of),
+      conversion: this.word('conversion' + of),
+      maxAxisPoints: this.integer('number of axis points' + of),
+      lowerLimit: this.number('lower limit' + of),
+      upperLimit: this.number('upper limit' + of),
+    };
+    this.body(begin, {
+      BYTE_ORDER: () => { axisPts.byteOrder = this.oneOf(BYTE_ORDERS, 'BYTE_ORDER' + of); },
+    });
+    return axisPts;
+  }
+
+  private parseCompuMethod(begin: A2lToken): A2lCompuMethod {
+    const name = this.word('COMPU_METHOD name');
+    const of = ` of COMPU_METHOD ${name}`;
+    const method: A2lCompuMethod = {
+      name,
+      longIdentifier: this.string('description' + of),
+      conversionType: this.word('conversion type' + of),
+      format: this.string('format' + of),
+      unit: this.string('unit' + of),
+    };
+    this.body(begin, {
+      COEFFS: () => { method.coeffs = Array.from({ length: 6 }, (_, i) => this.number(`COEFFS ${'abcdef'[i]}${of}`)); },
+      COEFFS_LINEAR: () => { method.coeffsLinear = [this.number('COEFFS_LINEAR a' + of), this.number('COEFFS_LINEAR b' + of)]; },
+      COMPU_TAB_REF: () => { method.compuTabRef = this.word('COMPU_TAB_REF' + of); },
+    }, {
+      FORMULA: token => {
+        method.formula = this.string('formula' + of);
+        this.body(token, {
+          FORMULA_INV: () => { method.formulaInv = this.string('FORMULA_INV' + of); },
+        });
+      },
+    });
+    return method;
+  }
+
+  private parseCompuTab(begin: A2lToken): A2lCompuTab {
+    const name = this.word('COMPU_TAB name');
+    const of = ` of COMPU_TAB ${name}`;
+    this.string('description' + of);
+    const conversionType = this.word('conversion type' + of);
+    const count = this.integer('number of value pairs' + of);
+    const pairs = Array.from({ length: count }, (_, i) => ({
+      raw: this.number(`raw value ${i + 1}${of}`),
+      phys: this.number(`physical value ${i + 1}${of}`),
+    }));
+    this.body(begin);
+    return { kind: 'COMPU_TAB', name, conversionType, pairs };
+  }
+
+  private parseCompuVtab(begin: A2lToken): A2lCompuTab {
+    const name = this.word('COMPU_VTAB name');
+    const of = ` of COMPU_VTAB ${name}`;
+    this.string('description' + of);
+    const conversionType = this.word('conversion type' + of);
+    const count = this.integer('number of value pairs' + of);
+    const entries = Array.from({ length: count }, (_, i) => ({
+      raw: this.number(`raw value ${i + 1}${of}`),
+      label: this.string(`text ${i + 1}${of}`),
+    }));
+    const tab: A2lCompuTab = { kind: 'COMPU_VTAB', name, conversionType, entries };
+    this.body(begin, {
+      DEFAULT_VALUE: () => { tab.defaultValue = this.string('DEFAULT_VALUE' + of); },
+    });
+    return tab;
+  }
+
+  private parseCompuVtabRange(begin: A2lToken): A2lCompuTab {
+    const name = this.word('COMPU_VTAB_RANGE name');
+    const of = ` of COMPU_VTAB_RANGE ${name}`;
+    this.string('description' + of);
+    const count = this.integer('number of value triples' + of);
+    const entries = Array.from({ length: count }, (_, i) => ({
+      min: this.number(`lower raw value ${i + 1}${of}`),
+      max: this.number(`upper raw value ${i + 1}${of}`),
+      label: this.string(`text ${i + 1}${of}`),
+    }));
+    const tab: A2lCompuTab = { kind: 'COMPU_VTAB_RANGE', name, entries };
+    this.body(begin, {
+      DEFAULT_VALUE: () => { tab.defaultValue = this.string('DEFAULT_VALUE' + of); },
+    });
+    return tab;
+  }
+
+  private parseRecordLayout(begin: A2lToken): A2lRecordLayout {
+    const name = this.word('RECORD_LAYOUT name');
+    const of = ` of RECORD_LAYOUT ${name}`;
+    const layout: A2lRecordLayout = { name, entries: [], fixNoAxisPts: {} };
+
+    const keywords: Handlers = {};
+    for (const [keyword, words] of Object.entries(LAYOUT_ENTRY_WORDS)) {
+      keywords[keyword] = () => {
+        const entry: A2lRecordLayoutEntry = {
+          keyword,
+          position: this.integer(`${keyword} position${of}`),
+          dataType: this.word(`${keyword} data type${of}`),
+        };
+        for (const field of words) {
+          if (field === 'maxRescalePairs') entry.maxRescalePairs = this.integer(`${keyword} number of rescale pairs${of}`);
+          else entry[field] = this.word(`${keyword} ${field === 'indexMode' ? 'index mode' : 'addressing'}${of}`);
+        }
+        layout.entries.push(entry);
+      };
+    }
+    for (const axis of ['X', 'Y', 'Z', '4', '5']) {
+      keywords[`FIX_NO_AXIS_PTS_${axis}`] = () => { layout.fixNoAxisPts[axis] = this.integer(`FIX_NO_AXIS_PTS_${axis}${of}`); };
+    }
+    this.body(begin, keywords);
+    return layout;
+  }
+
+  /**
+   * Identifiers listed in a block such as DEF_CHARACTERISTIC or SUB_GROUP
+   */
+  private names(begin: A2lToken): string[] {
+    const names: string[] = [];
+    for (let token = this.tokens.peek(); token?.kind === 'word'; token = this.tokens.peek()) {
+      names.push(this.tokens.next()!.text);
+    }
+    this.body(begin);
+    return names;
+  }
+
+  private parseFunction(begin: A2lToken): A2lFunction {
+    const name = this.word('FUNCTION name');
+    const fn: A2lFunction = {
+      name,
+      longIdentifier: this.string(`description of FUNCTION ${name}`),
+      defCharacteristics: [],
+      refCharacteristics: [],
+      subFunctions: [],
+    };
+    this.body(begin, {}, {
+      DEF_CHARACTERISTIC: token => fn.defCharacteristics.push(...this.names(token)),
+      REF_CHARACTERISTIC: token => fn.refCharacteristics.push(...this.names(token)),
+      SUB_FUNCTION: token => fn.subFunctions.push(...this.names(token)),
+    });
+    return fn;
+  }
+
+  private parseGroup(begin: A2lToken): A2lGroup {
+    const name = this.word('GROUP name');
+    const group: A2lGroup = {
+      name,
+      longIdentifier: this.string(`description of GROUP ${name}`),
+      root: false,
+      refCharacteristics: [],
+      subGroups: [],
+    };
+    this.body(begin, {
+      ROOT: () => { group.root = true; },
+    }, {
+      REF_CHARACTERISTIC: token => group.refCharacteristics.push(...this.names(token)),
+      SUB_GROUP: token => group.subGroups.push(...this.names(token)),
+    });
+    return group;
+  }
+
+  private parseMemorySegment(begin: A2lToken): A2lMemorySegment {
+    const name = this.word('MEMORY_SEGMENT name');
+    const of = ` of MEMORY_SEGMENT ${name}`;
+    const segment: A2lMemorySegment = {
+      name,
+      longIdentifier: this.string('description' + of),
+      prgType: this.word('program type' + of),
+      memoryType: this.word('memory type' + of),
+      attribute: this.word('attribute' + of),
+      address: this.integer('address' + of),
+      size: this.integer('size' + of),
+      mirrorOffsets: [],
+    };
+    // Five mirror offsets (-1 when unused)
+    for (let i = 0; i < 5; i++) {
+      const offset = this.number(`offset ${i + 1}${of}`);
+      if (offset !== -1) segment.mirrorOffsets.push(offset);
+    }
+    this.body(begin);
+    return segment;
+  }
+}
+
+function parseNumber(text: string): number {
+  const negative = text.startsWith('-');
+  const digits = text.replace(/^[+-]/, '');
+  const value = /^0x/i.test(digits) ? parseInt(digits.slice(2), 16) : Number(digits);
+  return negative ? -value : value;
+}
+
+/**
+ * Parse A2L text into the model
+ * includes provides the contents of files referenced by /include
+ * Throws an error naming the line for malformed input
+ */
+export function parseA2l(text: string, includes?: A2lIncludes): A2lProject {
+  return new Parser(new A2lTokenizer(text, includes)).parseFile();
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { A2LParser } from './a2lParser';
+
+function a2l(module: string): string {
+  return `ASAP2_VERSION 1 60
+/begin PROJECT P ""
+  /begin MODULE M ""
+${module}
+  /end MODULE
+/end PROJECT`;
+}
+
+function segment(name: string, address: string, size: string, offsets = '-1 -1 -1 -1 -1', memoryType = 'FLASH'): string {
+  return `/begin MEMORY_SEGMENT ${name} "" DATA ${memoryType} INTERN ${address} ${size} ${offsets} /end MEMORY_SEGMENT`;
+}
+
+function segments(...declared: string[]) {
+  const parser = new A2LParser();
+  parser.parseA2LString(a2l(`/begin MOD_PAR ""\n${declared.join('\n')}\n/end MOD_PAR`));
+  return parser.generateDefinition('test').segments;
+}
+
+describe('A2L memory segments', () => {
+  it('aliases a segment at its declared mirror addresses', () => {
+    expect(segments(segment('CAL', '0x80040000', '0x10000', '0x20000000 -1 -1 -1 -1'))).toEqual([
+      { name: 'CAL', address: 0x80040000, size: 0x10000, fileOffset: 0x40000, aliases: [0xa0040000] },
+    ]);
+  });
+
+  it('leaves out a segment declared as the mirror of another', () => {
+    expect(segments(
+      segment('CODE', '0x10000', '0x8000', '0x400000 -1 -1 -1 -1'),
+      segment('CODE_MIRROR', '0x410000', '0x8000'),
+      segment('DATA', '0x20000', '0x1000'),
+    )).toEqual([
+      { name: 'CODE', address: 0x10000, size: 0x8000, fileOffset: 0, aliases: [0x410000] },
+      { name: 'DATA', address: 0x20000, size: 0x1000, fileOffset: 0x10000 },
+    ]);
+  });
+
+  it('falls back to the TriCore cached and uncached views without declared mirrors', () => {
+    expect(segments(segment('CAL', '0xA0040000', '0x10000'), segment('RAM', '0xD0000000', '0x1000', undefined, 'RAM'))).toEqual([
+      { name: 'CAL', address: 0xa0040000, size: 0x10000, fileOffset: 0x40000, aliases: [0x80040000] },
+    ]);
+  });
+});
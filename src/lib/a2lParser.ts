@@ -1,83 +1,202 @@
-import { Parameter, DataType, AxisDefinition, Definition, DATA_TYPE_INFO } from '../types';
+import { Parameter, Measurement, DataType, AxisDefinition, Definition, DATA_TYPE_INFO, DEFINITION_FORMAT_VERSION, Conversion, ConversionTablePoint, VerbalTableEntry, MemorySegment } from '../types';
+import { compileFormula } from './conversion';
+import { applyConversion } from './binUtils';
+import { parseA2l, type A2lAxisDescr, type A2lAxisPts, type A2lCharacteristic, type A2lCompuMethod, type A2lCompuTab, type A2lFunction, type A2lGroup, type A2lMeasurement, type A2lMemorySegment, type A2lRecordLayout } from './a2lModel';
+import { includeKey, type A2lIncludes } from './a2lTokenizer';
 
-interface CompuMethod {
-  name: string;
-  unit: string;
-  coeffs: number[]; // [a, b, c, d, e, f] for RAT_FUNC
+interface CsvMapping {
+  categories: string[];
+  pattern: string;
+  customName: string;
+}
+
+export interface CategoryOptions {
+  hierarchy?: boolean;      // Categorize by the A2L FUNCTION / GROUP hierarchies (default: true)
+  uncategorized?: boolean;  // Keep characteristics without a category under "Uncategorized" (default: false)
+}
+
+const DATATYPE_MAP: Record<string, DataType> = {
+  UBYTE: 'UBYTE',
+  SBYTE: 'SBYTE',
+  UWORD: 'UWORD',
+  SWORD: 'SWORD',
+  ULONG: 'ULONG',
+  SLONG: 'SLONG',
+  A_UINT64: 'A_UINT64',
+  A_INT64: 'A_INT64',
+  FLOAT32_IEEE: 'FLOAT32',
+  FLOAT64_IEEE: 'FLOAT64',
+};
+
+// Memory types stored in a flash image (RAM, registers and NOT_IN_ECU are not)
+const IMAGE_MEMORY_TYPES = new Set(['FLASH', 'ROM', 'EPROM', 'EEPROM']);
+
+// TriCore segments 0x8 (cached) and 0xA (uncached) are two views of the same flash
+function isTriCoreFlash(address: number): boolean {
+  const segment = address >>> 28;
+  return segment === 0x8 || segment === 0xa;
 }
 
+// Characteristic types with a representation in the definition (CUBOID and higher are not)
+const SUPPORTED_TYPES = new Set(['VALUE', 'CURVE', 'MAP', 'VAL_BLK', 'ASCII']);
+
 interface RecordLayout {
-  name: string;
   dataType: DataType;
   axisOffset: number; // Byte offset where axis data starts (from AXIS_PTS_X position)
   columnDir: boolean; // true if data is stored column-wise (COLUMN_DIR)
 }
 
-interface AxisPts {
-  name: string;
-  address: number;
-  dataType: DataType;
-  dataOffset: number;
-  points: number;
-  compuMethod: string;
-  min: number;
-  max: number;
+/**
+ * Conversion of a COMPU_TAB (lookup table) or COMPU_VTAB / COMPU_VTAB_RANGE (verbal table)
+ */
+function toConversion(tab: A2lCompuTab): Conversion {
+  switch (tab.kind) {
+    case 'COMPU_TAB': {
+      const table: ConversionTablePoint[] = tab.pairs.map(p => ({ raw: p.raw, phys: p.phys })).sort((a, b) => a.raw - b.raw);
+      return { type: tab.conversionType === 'TAB_NOINTP' ? 'TAB_NOINTP' : 'TAB_INTP', table };
+    }
+    case 'COMPU_VTAB': {
+      const entries: VerbalTableEntry[] = tab.entries.map(e => ({ raw: e.raw, rawMax: undefined, label: e.label }));
+      return { type: 'TAB_VERB', entries, defaultLabel: tab.defaultValue };
+    }
+    case 'COMPU_VTAB_RANGE': {
+      const entries: VerbalTableEntry[] = tab.entries.map(e => ({ raw: e.min, rawMax: e.max, label: e.label }));
+      return { type: 'TAB_VERB', entries, defaultLabel: tab.defaultValue };
+    }
+  }
 }
 
-interface RawCharacteristic {
-  name: string;
-  description: string;
-  type: 'VALUE' | 'CURVE' | 'MAP' | 'VAL_BLK';
-  address: number;
-  deposit: string;
-  compuMethod: string;
-  min: number;
-  max: number;
-  axes: RawAxisDescr[];
+// Sizes of RESERVED record layout entries
+const RESERVED_SIZES: Record<string, number> = { BYTE: 1, WORD: 2, LONG: 4 };
+
+/**
+ * Byte position of a RECORD_LAYOUT entry: the size of the entries before it
+ * (AXIS_PTS_* entries hold points elements, all others one; no alignment)
+ */
+function entryOffset(layout: A2lRecordLayout, keyword: string, points: number): number {
+  const target = layout.entries.find(e => e.keyword === keyword);
+  if (!target) return 0;
+  let offset = 0;
+  for (const entry of layout.entries) {
+    if (entry.position >= target.position) continue;
+    const dataType = DATATYPE_MAP[entry.dataType];
+    const size = dataType ? DATA_TYPE_INFO[dataType].size : RESERVED_SIZES[entry.dataType] ?? 0;
+    offset += entry.keyword.startsWith('AXIS_PTS_') ? size * points : size;
+  }
+  return offset;
 }
 
-interface RawAxisDescr {
-  type: string;
-  compuMethod: string;
-  points: number;
-  min: number;
-  max: number;
-  axisPtsRef?: string;
+/**
+ * Raw breakpoints of a FIX_AXIS from FIX_AXIS_PAR, FIX_AXIS_PAR_DIST or FIX_AXIS_PAR_LIST
+ */
+function fixAxisPoints(axis: A2lAxisDescr): number[] | null {
+  const points = axis.maxAxisPoints;
+  if (axis.fixAxisPar) {
+    const { offset, shift } = axis.fixAxisPar;
+    return Array.from({ length: points }, (_, i) => offset + i * 2 ** shift);
+  }
+  if (axis.fixAxisParDist) {
+    const { offset, distance } = axis.fixAxisParDist;
+    return Array.from({ length: points }, (_, i) => offset + i * distance);
+  }
+  if (axis.fixAxisParList && axis.fixAxisParList.length >= points) {
+    return axis.fixAxisParList.slice(0, points);
+  }
+  return null;
 }
 
-interface CsvMapping {
-  categories: string[];
-  pattern: string;
-  customName: string;
+function toRecordLayout(layout: A2lRecordLayout): RecordLayout {
+  const entry = (keyword: string) => layout.entries.find(e => e.keyword === keyword);
+  const fncValues = entry('FNC_VALUES');
+  const axisPtsX = entry('AXIS_PTS_X');
+  const noAxisPtsX = entry('NO_AXIS_PTS_X');
+  const typeName = fncValues?.dataType || axisPtsX?.dataType;
+
+  return {
+    dataType: typeName ? (DATATYPE_MAP[typeName] || 'UWORD') : 'UWORD',
+    // Axis points stored after their count
+    axisOffset: axisPtsX && noAxisPtsX ? DATA_TYPE_INFO[DATATYPE_MAP[noAxisPtsX.dataType] || 'UBYTE'].size : 0,
+    columnDir: fncValues?.indexMode === 'COLUMN_DIR',
+  };
 }
 
-const DATATYPE_MAP: Record<string, DataType> = {
-  UBYTE: 'UBYTE',
-  SBYTE: 'SBYTE',
-  UWORD: 'UWORD',
-  SWORD: 'SWORD',
-  ULONG: 'ULONG',
-  SLONG: 'SLONG',
-  FLOAT32_IEEE: 'FLOAT32',
-  FLOAT64_IEEE: 'FLOAT32', // Approximate
-};
+/**
+ * Path of every FUNCTION or GROUP from the top of its hierarchy, following the first parent listing it
+ */
+function hierarchyPaths<T extends { name: string }>(nodes: T[], children: (node: T) => string[]): Map<string, string[]> {
+  const parents = new Map<string, string>();
+  for (const node of nodes) {
+    for (const child of children(node)) {
+      if (child !== node.name && !parents.has(child)) parents.set(child, node.name);
+    }
+  }
+
+  const paths = new Map<string, string[]>();
+  for (const node of nodes) {
+    const path: string[] = [];
+    // Stop at cycles in malformed hierarchies
+    for (let name: string | undefined = node.name; name !== undefined && !path.includes(name); name = parents.get(name)) {
+      path.unshift(name);
+    }
+    paths.set(node.name, path);
+  }
+  return paths;
+}
+
+/**
+ * Measurements a datalogger can read as a single value: scalars at an ECU address
+ */
+function isLoggable(measurement: A2lMeasurement): boolean {
+  const elements = (measurement.arraySize ?? 1) * (measurement.matrixDim ?? [1]).reduce((a, b) => a * b, 1);
+  return measurement.address !== undefined && elements === 1 && measurement.dataType in DATATYPE_MAP;
+}
 
 export class A2LParser {
-  private content: string = '';
-  private compuMethods: Map<string, CompuMethod> = new Map();
+  private compuMethods: Map<string, A2lCompuMethod> = new Map();
+  private compuTabs: Map<string, Conversion> = new Map();
   private recordLayouts: Map<string, RecordLayout> = new Map();
-  private axisPts: Map<string, AxisPts> = new Map();
-  private characteristics: RawCharacteristic[] = [];
+  private layoutEntries: Map<string, A2lRecordLayout> = new Map();
+  private axisPts: Map<string, A2lAxisPts> = new Map();
+  private characteristics: A2lCharacteristic[] = [];
+  private characteristicsByName: Map<string, A2lCharacteristic> = new Map();
+  private measurements: A2lMeasurement[] = [];
+  private memorySegments: A2lMemorySegment[] = [];
+  private functions: A2lFunction[] = [];
+  private groups: A2lGroup[] = [];
+  private bigEndian = false;
   private csvMappings: CsvMapping[] = [];
 
-  async parseA2L(file: File): Promise<void> {
+  /**
+   * Parse an A2L file; includes are the files its /include directives refer to
+   * Throws an error naming the line for malformed files
+   */
+  async parseA2L(file: File, includes: File[] = []): Promise<void> {
     // A2L files are often encoded in ISO-8859-1 (Latin-1)
-    const buffer = await file.arrayBuffer();
-    this.content = new TextDecoder('iso-8859-1').decode(buffer);
-    this.parseCompuMethods();
-    this.parseRecordLayouts();
-    this.parseAxisPts();
-    this.parseCharacteristics();
+    const decode = async (f: File) => new TextDecoder('iso-8859-1').decode(await f.arrayBuffer());
+    const included: A2lIncludes = new Map();
+    for (const f of includes) included.set(includeKey(f.name), await decode(f));
+    this.parseA2LString(await decode(file), included);
+  }
+
+  parseA2LString(text: string, includes?: A2lIncludes): void {
+    const project = parseA2l(text, includes);
+
+    for (const module of project.modules) {
+      for (const method of module.compuMethods) this.compuMethods.set(method.name, method);
+      for (const tab of module.compuTabs) this.compuTabs.set(tab.name, toConversion(tab));
+      for (const layout of module.recordLayouts) {
+        this.recordLayouts.set(layout.name, toRecordLayout(layout));
+        this.layoutEntries.set(layout.name, layout);
+      }
+      for (const pts of module.axisPts) this.axisPts.set(pts.name, pts);
+      this.characteristics.push(...module.characteristics.filter(c => SUPPORTED_TYPES.has(c.type)));
+      for (const char of module.characteristics) this.characteristicsByName.set(char.name, char);
+      this.measurements.push(...module.measurements.filter(isLoggable));
+      this.memorySegments.push(...module.memorySegments);
+      this.functions.push(...module.functions);
+      this.groups.push(...module.groups);
+      if (module.byteOrder === 'MSB_FIRST' || module.byteOrder === 'BIG_ENDIAN') this.bigEndian = true;
+    }
   }
 
   parseCsv(csvContent: string): void {
@@ -135,133 +254,75 @@ export class A2LParser {
     return result;
   }
 
-  private parseCompuMethods(): void {
-    const regex = /\/begin COMPU_METHOD\s+(\S+)\s+"[^"]*"\s+\S+\s+"[^"]*"\s+"([^"]*)"/g;
-    let match;
-
-    while ((match = regex.exec(this.content)) !== null) {
-      const name = match[1];
-      const unit = match[2];
-
-      // Find COEFFS
-      const blockEnd = this.content.indexOf('/end COMPU_METHOD', match.index);
-      const block = this.content.substring(match.index, blockEnd);
-      const coeffsMatch = block.match(/COEFFS\s+([\d.\-+eE]+)\s+([\d.\-+eE]+)\s+([\d.\-+eE]+)\s+([\d.\-+eE]+)\s+([\d.\-+eE]+)\s+([\d.\-+eE]+)/);
-
-      this.compuMethods.set(name, {
-        name,
-        unit,
-        coeffs: coeffsMatch ? coeffsMatch.slice(1, 7).map(Number) : [],
-      });
-    }
+  /**
+   * Memory segments of the flash image
+   * A segment is visible at the mirror addresses its MEMORY_SEGMENT declares; one declared as the
+   * mirror of another is left out. Without declared mirrors, TriCore flash is aliased to its other
+   * view. TriCore flash is placed by its offset within the flash window, other segments relative
+   * to the lowest one.
+   */
+  private buildSegments(): MemorySegment[] {
+    const stored = this.memorySegments.filter(s => IMAGE_MEMORY_TYPES.has(s.memoryType) && s.size > 0);
+    const mirrors = (segment: A2lMemorySegment, other: A2lMemorySegment) => segment.mirrorOffsets.some(offset =>
+      other.address >= segment.address + offset && other.address + other.size <= segment.address + offset + segment.size);
+    // Of two segments declared as mirrors of each other, the first is kept
+    const placed = stored.filter((s, i) => !stored.some((other, j) => j !== i && mirrors(other, s) && (j < i || !mirrors(s, other))));
+    const others = placed.filter(s => !isTriCoreFlash(s.address));
+    const base = others.length > 0 ? Math.min(...others.map(s => s.address)) : 0;
+
+    return placed.map(s => {
+      const aliases = s.mirrorOffsets.length > 0
+        ? s.mirrorOffsets.map(offset => (s.address + offset) >>> 0)
+        : isTriCoreFlash(s.address) ? [(s.address ^ 0x20000000) >>> 0] : [];
+      return {
+        name: s.name,
+        address: s.address,
+        size: s.size,
+        fileOffset: isTriCoreFlash(s.address) ? s.address & 0x0fffffff : s.address - base,
+        ...(aliases.length > 0 && { aliases }),
+      };
+    });
   }
 
-  private parseRecordLayouts(): void {
-    const regex = /\/begin RECORD_LAYOUT\s+(\S+)([\s\S]*?)\/end RECORD_LAYOUT/g;
-    let match;
-
-    while ((match = regex.exec(this.content)) !== null) {
-      const name = match[1];
-      const block = match[2];
-
-      // Match FNC_VALUES for characteristics or AXIS_PTS_X for axis points
-      // Use negative lookbehind to avoid matching NO_AXIS_PTS_X
-      const fncMatch = block.match(/FNC_VALUES\s+(\d+)\s+(\S+)\s+(\S+)/);
-      const axisMatch = block.match(/(?<!NO_)AXIS_PTS_X\s+(\d+)\s+(\S+)/);
-      const typeStr = fncMatch?.[2] || axisMatch?.[2];
-      const dataType = typeStr ? (DATATYPE_MAP[typeStr] || 'UWORD') : 'UWORD';
-
-      // Check if data is stored column-wise
-      const columnDir = fncMatch?.[3] === 'COLUMN_DIR';
-
-      // For axis data, calculate byte offset based on NO_AXIS_PTS_X size
-      let axisOffset = 0;
-      const noAxisMatch = block.match(/NO_AXIS_PTS_X\s+\d+\s+(\S+)/);
-      if (noAxisMatch && axisMatch) {
-        const noAxisType = DATATYPE_MAP[noAxisMatch[1]] || 'UBYTE';
-        axisOffset = DATA_TYPE_INFO[noAxisType].size;
-      }
-
-      this.recordLayouts.set(name, { name, dataType, axisOffset, columnDir });
+  private getConversion(compuMethodName: string): { factor: number; offset: number; unit: string; conversion?: Conversion } {
+    const cm = this.compuMethods.get(compuMethodName);
+    if (!cm) {
+      return { factor: 1, offset: 0, unit: '' };
     }
-  }
 
-  private parseAxisPts(): void {
-    const regex = /\/begin AXIS_PTS\s+(\S+)\s+"[^"]*"\s+(0x[0-9a-fA-F]+|\d+)\s+\S+\s+(\S+)\s+[\d.\-+eE]+\s+(\S+)\s+(\d+)\s+([\d.\-+eE]+)\s+([\d.\-+eE]+)/g;
-    let match;
-
-    while ((match = regex.exec(this.content)) !== null) {
-      const layout = this.recordLayouts.get(match[3]);
-      this.axisPts.set(match[1], {
-        name: match[1],
-        address: parseInt(match[2], 0),
-        dataType: layout?.dataType || 'UWORD',
-        dataOffset: layout?.axisOffset || 0,
-        points: parseInt(match[5]),
-        compuMethod: match[4],
-        min: parseFloat(match[6]),
-        max: parseFloat(match[7]),
-      });
+    // Lookup tables (COMPU_TAB) and verbal tables (COMPU_VTAB / COMPU_VTAB_RANGE)
+    if (cm.compuTabRef) {
+      const conversion = this.compuTabs.get(cm.compuTabRef);
+      if (conversion) return { factor: 1, offset: 0, unit: cm.unit, conversion };
     }
-  }
-
-  private parseCharacteristics(): void {
-    const regex = /\/begin CHARACTERISTIC\s+(\S+)\s+"([^"]*)"\s+(VALUE|CURVE|MAP|VAL_BLK)\s+(0x[0-9a-fA-F]+|\d+)\s+(\S+)\s+[\d.\-+eE]+\s+(\S+)\s+([\d.\-+eE]+)\s+([\d.\-+eE]+)/g;
-    let match;
-
-    while ((match = regex.exec(this.content)) !== null) {
-      const name = match[1];
-      const blockStart = match.index + match[0].length;
-      const blockEnd = this.content.indexOf('/end CHARACTERISTIC', blockStart);
-      const block = this.content.substring(blockStart, blockEnd);
-
-      const char: RawCharacteristic = {
-        name,
-        description: match[2],
-        type: match[3] as 'VALUE' | 'CURVE' | 'MAP' | 'VAL_BLK',
-        address: parseInt(match[4], 0),
-        deposit: match[5],
-        compuMethod: match[6],
-        min: parseFloat(match[7]),
-        max: parseFloat(match[8]),
-        axes: this.parseAxisDescrs(block),
-      };
 
-      this.characteristics.push(char);
+    if (cm.formula) {
+      try {
+        compileFormula(cm.formula);
+        if (cm.formulaInv) compileFormula(cm.formulaInv);
+        return { factor: 1, offset: 0, unit: cm.unit, conversion: { type: 'FORMULA', formula: cm.formula, inverse: cm.formulaInv } };
+      } catch (err) {
+        console.warn(`COMPU_METHOD ${cm.name}:`, err);
+        return { factor: 1, offset: 0, unit: cm.unit };
+      }
     }
-  }
 
-  private parseAxisDescrs(block: string): RawAxisDescr[] {
-    const axes: RawAxisDescr[] = [];
-    const regex = /\/begin AXIS_DESCR\s+(STD_AXIS|COM_AXIS|FIX_AXIS|CURVE_AXIS|RES_AXIS)\s+\S+\s+(\S+)\s+(\d+)\s+([\d.\-+eE]+)\s+([\d.\-+eE]+)/g;
-    let match;
-
-    while ((match = regex.exec(block)) !== null) {
-      const axisEnd = block.indexOf('/end AXIS_DESCR', match.index);
-      const axisBlock = block.substring(match.index, axisEnd);
-      const refMatch = axisBlock.match(/AXIS_PTS_REF\s+(\S+)/);
-
-      axes.push({
-        type: match[1],
-        compuMethod: match[2],
-        points: parseInt(match[3]),
-        min: parseFloat(match[4]),
-        max: parseFloat(match[5]),
-        axisPtsRef: refMatch?.[1],
-      });
+    // LINEAR: PHYS = a*INT + b
+    if (cm.coeffsLinear) {
+      const [a, b] = cm.coeffsLinear;
+      return { factor: a, offset: b, unit: cm.unit };
     }
 
-    return axes;
-  }
-
-  private getConversion(compuMethodName: string): { factor: number; offset: number; unit: string } {
-    const cm = this.compuMethods.get(compuMethodName);
-    if (!cm || cm.coeffs.length !== 6) {
-      return { factor: 1, offset: 0, unit: '' };
+    if (!cm.coeffs) {
+      return { factor: 1, offset: 0, unit: cm.unit };
     }
 
-    const [, b, c, , , f] = cm.coeffs;
+    const [a, b, c, d, e, f] = cm.coeffs;
     // RAT_FUNC in A2L: INT = (a*PHYS² + b*PHYS + c) / (d*PHYS² + e*PHYS + f)
+    if (a !== 0 || d !== 0 || e !== 0) {
+      return { factor: 1, offset: 0, unit: cm.unit, conversion: { type: 'RAT_FUNC', coeffs: cm.coeffs } };
+    }
+
     // For linear (a=d=e=0): INT = (b*PHYS + c) / f
     // Inverted: PHYS = (INT*f - c) / b = INT * (f/b) - (c/b)
     // factor = f/b, offset = -c/b
@@ -280,82 +341,238 @@ export class A2LParser {
     return null;
   }
 
-  generateDefinition(name: string): Definition {
+  /**
+   * Categories of the characteristics in the A2L hierarchies: the path of the FUNCTION defining
+   * a characteristic, else of the first GROUP referencing it, else of the first FUNCTION referencing it
+   */
+  private buildHierarchyCategories(): Map<string, string[]> {
+    const functionPaths = hierarchyPaths(this.functions, f => f.subFunctions);
+    const groupPaths = hierarchyPaths(this.groups, g => g.subGroups);
+    const categories = new Map<string, string[]>();
+    const assign = (names: string[], path: string[]) => {
+      for (const name of names) {
+        if (!categories.has(name)) categories.set(name, path);
+      }
+    };
+
+    for (const fn of this.functions) assign(fn.defCharacteristics, functionPaths.get(fn.name)!);
+    for (const group of this.groups) assign(group.refCharacteristics, groupPaths.get(group.name)!);
+    for (const fn of this.functions) assign(fn.refCharacteristics, functionPaths.get(fn.name)!);
+    return categories;
+  }
+
+  /**
+   * Categories of a characteristic: the CSV mapping if one matches, else its A2L hierarchy
+   * Returns null for characteristics left out of the definition
+   */
+  private getCategories(name: string, hierarchy: Map<string, string[]> | null, uncategorized: boolean): string[] | null {
+    const mapping = this.matchCategory(name);
+    if (mapping) return mapping.categories;
+    const path = hierarchy?.get(name);
+    if (path) return [...path];
+    return uncategorized ? ['Uncategorized'] : null;
+  }
+
+  generateDefinition(name: string, options: CategoryOptions = {}): Definition {
     const parameters: Parameter[] = [];
+    const hierarchy = (options.hierarchy ?? true) ? this.buildHierarchyCategories() : null;
 
     for (const char of this.characteristics) {
-      const mapping = this.matchCategory(char.name);
-      if (!mapping) continue; // Skip if not in CSV
+      const categories = this.getCategories(char.name, hierarchy, options.uncategorized ?? false);
+      if (!categories) continue;
 
       const layout = this.recordLayouts.get(char.deposit);
       const dataType = layout?.dataType || 'UWORD';
-      const { factor, offset, unit } = this.getConversion(char.compuMethod);
+      const { factor, offset, unit, conversion } = this.getConversion(char.conversion);
+      // Size of VAL_BLK and ASCII characteristics
+      const size = char.matrixDim ?? (char.number !== undefined ? [char.number] : []);
+      const blockRows = size[1] ?? 1;
 
       const param: Parameter = {
         name: char.name,
-        description: char.description,
+        description: char.longIdentifier,
         address: char.address,
-        type: char.type === 'VAL_BLK' ? 'CURVE' : char.type,
+        type: char.type === 'VAL_BLK' ? (blockRows > 1 ? 'MAP' : 'CURVE') : char.type as Parameter['type'],
         dataType,
         unit,
-        min: char.min,
-        max: char.max,
+        min: char.lowerLimit,
+        max: char.upperLimit,
         factor,
         offset,
+        conversion,
         columnDir: layout?.columnDir,
-        categories: mapping.categories,
+        categories,
       };
 
+      if (char.bitMask !== undefined) {
+        param.bitMask = char.bitMask;
+        // Single-bit masks are on/off flags
+        if ((char.bitMask & (char.bitMask - 1)) === 0) {
+          param.bits = [{ bit: 0, name: char.longIdentifier || char.name }];
+        }
+      }
+
       // Handle axes for tables
-      if (char.type === 'CURVE' || char.type === 'VAL_BLK') {
-        param.cols = char.axes[0]?.points || 1;
+      const [xAxis, yAxis] = char.axisDescrs;
+      if (char.type === 'ASCII') {
+        param.dataType = 'UBYTE';
+        param.length = char.number ?? char.matrixDim?.[0] ?? 1;
+      } else if (char.type === 'VAL_BLK') {
+        // Value blocks have no axes
+        param.cols = size[0] || 1;
+        param.rows = blockRows;
+      } else if (char.type === 'CURVE') {
+        param.cols = xAxis?.maxAxisPoints || 1;
         param.rows = 1;
-        if (char.axes[0]) {
-          param.xAxis = this.buildAxisDef(char.axes[0]);
+        if (xAxis) {
+          param.xAxis = this.buildAxisDef(xAxis);
         }
       } else if (char.type === 'MAP') {
-        param.cols = char.axes[0]?.points || 1;
-        param.rows = char.axes[1]?.points || 1;
-        if (char.axes[0]) {
-          param.xAxis = this.buildAxisDef(char.axes[0]);
+        param.cols = xAxis?.maxAxisPoints || 1;
+        param.rows = yAxis?.maxAxisPoints || 1;
+        if (xAxis) {
+          param.xAxis = this.buildAxisDef(xAxis);
         }
-        if (char.axes[1]) {
-          param.yAxis = this.buildAxisDef(char.axes[1]);
+        if (yAxis) {
+          param.yAxis = this.buildAxisDef(yAxis);
         }
       }
 
       parameters.push(param);
     }
 
+    const measurements: Measurement[] = this.measurements.map(m => {
+      const { factor, offset, unit, conversion } = this.getConversion(m.conversion);
+      return {
+        name: m.name,
+        description: m.longIdentifier,
+        address: m.address!,
+        dataType: DATATYPE_MAP[m.dataType],
+        unit,
+        min: m.lowerLimit,
+        max: m.upperLimit,
+        factor,
+        offset,
+        conversion,
+        ...(m.bitMask !== undefined && { bitMask: m.bitMask }),
+      };
+    });
+
+    const segments = this.buildSegments();
+
     return {
       name,
       version: '1.0',
+      formatVersion: DEFINITION_FORMAT_VERSION,
+      ...(this.bigEndian && { bigEndian: true }),
+      ...(segments.length > 0 && { segments }),
       parameters,
+      ...(measurements.length > 0 && { measurements }),
     };
   }
 
-  private buildAxisDef(rawAxis: RawAxisDescr): AxisDefinition {
+  /**
+   * nested is set for the axis of a curve rescaling another axis, which is not followed further
+   */
+  private buildAxisDef(axis: A2lAxisDescr, nested = false): AxisDefinition {
     const axisDef: AxisDefinition = {
-      type: rawAxis.type as 'STD_AXIS' | 'COM_AXIS' | 'FIX_AXIS',
-      points: rawAxis.points,
-      min: rawAxis.min,
-      max: rawAxis.max,
+      type: axis.attribute,
+      points: axis.maxAxisPoints,
+      min: axis.lowerLimit,
+      max: axis.upperLimit,
       unit: '',
     };
 
-    const { unit } = this.getConversion(rawAxis.compuMethod);
-    axisDef.unit = unit;
+    const conversion = this.getConversion(axis.conversion);
+    axisDef.unit = conversion.unit;
+
+    if (axis.attribute === 'FIX_AXIS') {
+      const raw = fixAxisPoints(axis);
+      if (raw) axisDef.values = raw.map(r => applyConversion(r, conversion.factor, conversion.offset, conversion.conversion));
+    } else if (axis.attribute === 'CURVE_AXIS') {
+      // Breakpoints are where the referenced curve reaches each axis index
+      const curve = axis.curveAxisRef ? this.characteristicsByName.get(axis.curveAxisRef) : undefined;
+      const curveAxis = curve?.type === 'CURVE' ? curve.axisDescrs[0] : undefined;
+      if (curve && curveAxis && !nested) {
+        const conv = this.getConversion(curve.conversion);
+        const layout = this.layoutEntries.get(curve.deposit);
+        const points = curveAxis.maxAxisPoints;
+        const input = this.buildAxisDef(curveAxis, true);
+
+        // An inline STD_AXIS stores its points in the curve's own record, ahead of the values
+        const axisPtsEntry = layout?.entries.find(e => e.keyword === 'AXIS_PTS_X');
+        const axisPtsType = axisPtsEntry && DATATYPE_MAP[axisPtsEntry.dataType];
+        if (curveAxis.attribute === 'STD_AXIS' && layout && axisPtsType) {
+          const axisConv = this.getConversion(curveAxis.conversion);
+          input.address = curve.address;
+          input.dataType = axisPtsType;
+          input.dataOffset = entryOffset(layout, 'AXIS_PTS_X', points);
+          input.factor = axisConv.factor;
+          input.offset = axisConv.offset;
+          input.conversion = axisConv.conversion;
+        }
 
-    // If COM_AXIS with reference
-    if (rawAxis.axisPtsRef) {
-      const pts = this.axisPts.get(rawAxis.axisPtsRef);
+        // Without readable input values the axis stays index-based
+        if (input.address !== undefined || input.values) {
+          axisDef.unit = input.unit || axisDef.unit;
+          axisDef.rescale = {
+            name: curve.name,
+            input,
+            index: {
+              type: 'STD_AXIS',
+              points,
+              min: curve.lowerLimit,
+              max: curve.upperLimit,
+              unit: conv.unit,
+              address: curve.address,
+              dataType: this.recordLayouts.get(curve.deposit)?.dataType || 'UWORD',
+              factor: conv.factor,
+              offset: conv.offset,
+              conversion: conv.conversion,
+              dataOffset: layout ? entryOffset(layout, 'FNC_VALUES', points) : 0,
+            },
+          };
+        }
+      }
+    } else if (axis.attribute === 'RES_AXIS') {
+      // Rescale mapping stored as (input value, axis index) pairs in the AXIS_PTS record
+      const pts = axis.axisPtsRef ? this.axisPts.get(axis.axisPtsRef) : undefined;
+      const layout = pts && this.layoutEntries.get(pts.deposit);
+      const entry = layout?.entries.find(e => e.keyword === 'AXIS_RESCALE_X');
+      const dataType = entry && DATATYPE_MAP[entry.dataType];
+      if (pts && layout && entry && dataType) {
+        const size = DATA_TYPE_INFO[dataType].size;
+        const dataOffset = entryOffset(layout, 'AXIS_RESCALE_X', 0);
+        const conv = this.getConversion(pts.conversion);
+        const pairs: AxisDefinition = {
+          type: 'STD_AXIS',
+          points: entry.maxRescalePairs ?? pts.maxAxisPoints,
+          min: 0,
+          max: axis.maxAxisPoints - 1,
+          unit: '',
+          address: pts.address,
+          dataType,
+          stride: 2 * size,
+        };
+        axisDef.unit = conv.unit || axisDef.unit;
+        axisDef.rescale = {
+          name: pts.name,
+          input: { ...pairs, min: pts.lowerLimit, max: pts.upperLimit, unit: conv.unit, dataOffset, factor: conv.factor, offset: conv.offset, conversion: conv.conversion },
+          index: { ...pairs, dataOffset: dataOffset + size },
+        };
+      }
+    } else if (axis.axisPtsRef) {
+      // COM_AXIS with reference
+      const pts = this.axisPts.get(axis.axisPtsRef);
       if (pts) {
+        const layout = this.recordLayouts.get(pts.deposit);
         axisDef.address = pts.address;
-        axisDef.dataType = pts.dataType;
-        axisDef.dataOffset = pts.dataOffset;
-        const conv = this.getConversion(pts.compuMethod);
+        axisDef.dataType = layout?.dataType || 'UWORD';
+        axisDef.dataOffset = layout?.axisOffset || 0;
+        const conv = this.getConversion(pts.conversion);
         axisDef.factor = conv.factor;
         axisDef.offset = conv.offset;
+        axisDef.conversion = conv.conversion;
         axisDef.unit = conv.unit || axisDef.unit;
       }
     }
@@ -363,14 +580,20 @@ export class A2LParser {
     return axisDef;
   }
 
-  getStats(): { characteristics: number; matched: number } {
+  getStats(): { characteristics: number; matched: number; inHierarchy: number; segments: number; measurements: number } {
+    const hierarchy = this.buildHierarchyCategories();
     let matched = 0;
+    let inHierarchy = 0;
     for (const char of this.characteristics) {
       if (this.matchCategory(char.name)) matched++;
+      if (hierarchy.has(char.name)) inHierarchy++;
     }
     return {
       characteristics: this.characteristics.length,
       matched,
+      inHierarchy,
+      segments: this.buildSegments().length,
+      measurements: this.measurements.length,
     };
   }
 }
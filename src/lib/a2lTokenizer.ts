@@ -0,0 +1,179 @@
+/**
+ * ASAP2 (A2L) tokenizer
+ *
+ * Splits A2L text into /begin and /end markers, quoted strings and words
+ * (identifiers, keywords and numbers). Comments are dropped and /include
+ * directives are replaced by the tokens of the included file.
+ * Tokens are produced on demand: A2L files can be tens of megabytes.
+ */
+
+export type A2lTokenKind = 'begin' | 'end' | 'string' | 'word';
+
+export interface A2lToken {
+  kind: A2lTokenKind;
+  text: string;   // Block name for begin/end, unescaped content for strings
+  line: number;
+  file?: string;  // Set for tokens from included files
+}
+
+// Included file contents, looked up by includeKey(name)
+export type A2lIncludes = Map<string, string>;
+
+interface Source {
+  text: string;
+  pos: number;
+  line: number;
+  file?: string;
+}
+
+// Includes nested deeper than this are assumed to be recursive
+const MAX_INCLUDE_DEPTH = 16;
+
+/**
+ * Describe a token position for error messages
+ */
+export function formatLocation(token: { line: number; file?: string }): string {
+  return token.file ? `${token.file} line ${token.line}` : `Line ${token.line}`;
+}
+
+/**
+ * Key included files are matched by: the file name without directories, case-insensitive
+ */
+export function includeKey(name: string): string {
+  return name.replace(/^.*[\\/]/, '').toLowerCase();
+}
+
+function isSpace(c: string): boolean {
+  return c === ' ' || c === '\t' || c === '\n' || c === '\r' || c === '\f' || c === '\v';
+}
+
+export class A2lTokenizer {
+  private sources: Source[];
+  private lookahead: A2lToken | null = null;
+  private includes: A2lIncludes;
+
+  constructor(text: string, includes: A2lIncludes = new Map()) {
+    this.sources = [{ text, pos: 0, line: 1 }];
+    this.includes = includes;
+  }
+
+  /**
+   * The next token without consuming it, null at the end of the input
+   */
+  peek(): A2lToken | null {
+    if (!this.lookahead) this.lookahead = this.read();
+    return this.lookahead;
+  }
+
+  next(): A2lToken | null {
+    const token = this.peek();
+    this.lookahead = null;
+    return token;
+  }
+
+  private read(): A2lToken | null {
+    for (;;) {
+      const token = this.readRaw();
+      if (!token) return null;
+      if (token.kind !== 'word') return token;
+
+      if (token.text === '/begin' || token.text === '/end') {
+        const name = this.readRaw();
+        if (!name || name.kind !== 'word') throw new Error(`${formatLocation(token)}: Expected a block name after ${token.text}`);
+        return { kind: token.text === '/begin' ? 'begin' : 'end', text: name.text, line: token.line, file: token.file };
+      }
+
+      if (token.text === '/include') {
+        const name = this.readRaw();
+        if (!name || name.kind === 'begin' || name.kind === 'end') throw new Error(`${formatLocation(token)}: Expected a file name after /include`);
+        const content = this.includes.get(includeKey(name.text));
+        if (content === undefined) throw new Error(`${formatLocation(token)}: Included file ${name.text} was not provided`);
+        if (this.sources.length > MAX_INCLUDE_DEPTH) throw new Error(`${formatLocation(token)}: Includes are nested too deeply (recursive /include of ${name.text}?)`);
+        this.sources.push({ text: content, pos: 0, line: 1, file: name.text });
+        continue;
+      }
+
+      return token;
+    }
+  }
+
+  /**
+   * Read a string or word from the innermost source, returning to the including file at its end
+   */
+  private readRaw(): A2lToken | null {
+    for (;;) {
+      const source = this.sources[this.sources.length - 1];
+      if (!source) return null;
+      const token = this.scan(source);
+      if (token) return token;
+      if (this.sources.length === 1) return null;
+      this.sources.pop();
+    }
+  }
+
+  private scan(source: Source): A2lToken | null {
+    const { text, file } = source;
+    const at = (line: number) => formatLocation({ line, file });
+
+    while (source.pos < text.length) {
+      const c = text[source.pos];
+
+      if (c === '\n') {
+        source.line++;
+        source.pos++;
+      } else if (isSpace(c)) {
+        source.pos++;
+      } else if (c === '/' && text[source.pos + 1] === '*') {
+        const end = text.indexOf('*/', source.pos + 2);
+        if (end < 0) throw new Error(`${at(source.line)}: Comment is never closed`);
+        for (let i = source.pos; i < end; i++) if (text[i] === '\n') source.line++;
+        source.pos = end + 2;
+      } else if (c === '/' && text[source.pos + 1] === '/') {
+        while (source.pos < text.length && text[source.pos] !== '\n') source.pos++;
+      } else if (c === '"') {
+        return this.scanString(source);
+      } else {
+        const start = source.pos;
+        // Words end at whitespace, quotes and comments
+        while (source.pos < text.length) {
+          const ch = text[source.pos];
+          if (isSpace(ch) || ch === '"') break;
+          if (ch === '/' && source.pos > start && (text[source.pos + 1] === '*' || text[source.pos + 1] === '/')) break;
+          source.pos++;
+        }
+        return { kind: 'word', text: text.slice(start, source.pos), line: source.line, file };
+      }
+    }
+    return null;
+  }
+
+  private scanString(source: Source): A2lToken {
+    const { text, file } = source;
+    const line = source.line;
+    let value = '';
+    let start = ++source.pos;
+
+    for (;;) {
+      if (source.pos >= text.length) throw new Error(`${formatLocation({ line, file })}: String is never closed`);
+      const ch = text[source.pos];
+      if (ch === '\\' && (text[source.pos + 1] === '"' || text[source.pos + 1] === '\\')) {
+        // Other backslashes are kept as they are (Windows paths in descriptions)
+        value += text.slice(start, source.pos) + text[source.pos + 1];
+        source.pos += 2;
+        start = source.pos;
+      } else if (ch === '"' && text[source.pos + 1] === '"') {
+        // Doubled quote inside a string
+        value += text.slice(start, source.pos) + '"';
+        source.pos += 2;
+        start = source.pos;
+      } else if (ch === '"') {
+        value += text.slice(start, source.pos);
+        source.pos++;
+        return { kind: 'string', text: value, line, file };
+      } else {
+        if (ch === '\n') source.line++;
+        source.pos++;
+      }
+    }
+  }
+}
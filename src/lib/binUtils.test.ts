@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { extractBits, insertBits, quantizeRaw, writeEccBytes, writeValue } from './binUtils';
+
+const BLOCK = 64;
+const ECC_POSITIONS = [30, 31, 62, 63];
+
+function random(seed: number): () => number {
+  let s = seed;
+  return () => {
+    s = (Math.imul(s, 1103515245) + 12345) >>> 0;
+    return s >>> 24;
+  };
+}
+
+/**
+ * Reference affine SEC-DED-like code: every ECC bit is the parity of a fixed subset of the
+ * 480 data bits, inverted for some bits
+ */
+function referenceCode(seed: number): (data: number[]) => number[] {
+  const next = random(seed);
+  const masks = Array.from({ length: 32 }, () => Array.from({ length: 60 }, () => next()));
+  const invert = next() | (next() << 8);
+  return data => {
+    const bits = masks.map((mask, j) => {
+      let parity = (invert >> (j % 16)) & 1;
+      for (let i = 0; i < 60; i++) {
+        let x = mask[i] & data[i];
+        while (x) { parity ^= x & 1; x >>= 1; }
+      }
+      return parity;
+    });
+    return [0, 1, 2, 3].map(b => bits.slice(b * 8, b * 8 + 8).reduce((byte, bit, i) => byte | (bit << i), 0));
+  };
+}
+
+function blockData(image: Uint8Array, blockStart: number): number[] {
+  return [...image.subarray(blockStart, blockStart + 30), ...image.subarray(blockStart + 32, blockStart + 62)];
+}
+
+function storedEcc(image: Uint8Array, blockStart: number): number[] {
+  return ECC_POSITIONS.map(pos => image[blockStart + pos]);
+}
+
+/**
+ * Raw dump of random blocks with their reference ECC, followed by erased blocks
+ */
+function dump(code: (data: number[]) => number[], blocks: number, erased: number): Uint8Array {
+  const next = random(42);
+  const image = new Uint8Array((blocks + erased) * BLOCK).fill(0xff);
+  for (let b = 0; b < blocks; b++) {
+    for (let i = 0; i < BLOCK; i++) image[b * BLOCK + i] = next();
+    code(blockData(image, b * BLOCK)).forEach((ecc, i) => { image[b * BLOCK + ECC_POSITIONS[i]] = ecc; });
+  }
+  return image;
+}
+
+describe('raw ECC dumps', () => {
+  const code = referenceCode(7);
+
+  it('regenerates the ECC of a written block with the code of the dump', () => {
+    const image = dump(code, 600, 0);
+    writeEccBytes(image, [{ offset: 550 * BLOCK + 3, value: 0x5a }, { offset: 550 * BLOCK + 40, value: 0xa5 }]);
+    expect(image[550 * BLOCK + 3]).toBe(0x5a);
+    expect(storedEcc(image, 550 * BLOCK)).toEqual(code(blockData(image, 550 * BLOCK)));
+  });
+
+  it('writes into erased blocks', () => {
+    const image = dump(code, 600, 2);
+    writeValue(image, 600 * 60 + 10, 'UWORD', 0x1234, 0, 0, false, true);
+    expect(image.subarray(600 * BLOCK + 10, 600 * BLOCK + 12)).toEqual(new Uint8Array([0x34, 0x12]));
+    expect(storedEcc(image, 600 * BLOCK)).toEqual(code(blockData(image, 600 * BLOCK)));
+    expect(storedEcc(image, 601 * BLOCK)).toEqual([0xff, 0xff, 0xff, 0xff]);
+  });
+
+  it('updates every block a value spans', () => {
+    const image = dump(code, 600, 0);
+    // Logical bytes 58-61 are the end of block 500 and the start of block 501
+    writeValue(image, 500 * 60 + 58, 'ULONG', 0x11223344, 0, 0, false, true);
+    for (const b of [500, 501]) {
+      expect(storedEcc(image, b * BLOCK)).toEqual(code(blockData(image, b * BLOCK)));
+    }
+  });
+
+  it('refuses a block whose stored ECC does not match its data', () => {
+    const image = dump(code, 600, 0);
+    image[590 * BLOCK + 30] ^= 0x01;
+    const before = image.slice();
+    expect(() => writeEccBytes(image, [{ offset: 10, value: 0 }, { offset: 590 * BLOCK, value: 0 }])).toThrow(/^Stored ECC of the block at 0x9380/);
+    expect(image).toEqual(before);
+  });
+
+  it('refuses data the dump does not determine the ECC of', () => {
+    // Too few blocks to learn the code: only combinations of them can be written
+    const image = dump(code, 100, 0);
+    const before = image.slice();
+    expect(() => writeEccBytes(image, [{ offset: 0, value: image[0] ^ 1 }])).toThrow(/^Cannot derive the ECC of the block at 0x0 /);
+    expect(image).toEqual(before);
+  });
+
+  it('refuses dumps whose ECC bytes are not a linear code', () => {
+    const image = dump(code, 600, 0);
+    for (let b = 0; b < 600; b++) image[b * BLOCK + 62] = b & 0xff;
+    const before = image.slice();
+    expect(() => writeEccBytes(image, [{ offset: 0, value: 1 }])).toThrow(/do not follow a linear code/);
+    expect(image).toEqual(before);
+  });
+});
+
+describe('bit fields', () => {
+  it('extracts the masked bits shifted down to bit 0', () => {
+    expect(extractBits(0b1011_0100, 0b0011_1100, 'UBYTE')).toBe(0b1101);
+    expect(extractBits(0x80000000, 0x80000000, 'ULONG')).toBe(1);
+  });
+
+  it('reads signed values as their two\'s complement bits', () => {
+    expect(extractBits(-1, 0xf0, 'SBYTE')).toBe(0xf);
+    expect(extractBits(-2, 0x0001, 'SWORD')).toBe(0);
+  });
+
+  it('replaces only the masked bits', () => {
+    expect(insertBits(0xff, 0b0101, 0x3c, 'UBYTE')).toBe(0b1101_0111);
+    expect(insertBits(0x12345678, 0xa, 0x0f000000, 'ULONG')).toBe(0x1a345678);
+  });
+
+  it('keeps signed results signed', () => {
+    expect(insertBits(0, 1, 0x80, 'SBYTE')).toBe(-128);
+    expect(insertBits(-1, 0, 0x01, 'SWORD')).toBe(-2);
+  });
+
+  it('clamps and rounds the field to the width of the mask', () => {
+    expect(insertBits(0, 20, 0x0c, 'UBYTE')).toBe(0x0c);
+    expect(insertBits(0xff, -3, 0x0c, 'UBYTE')).toBe(0xf3);
+    expect(insertBits(0, 1.6, 0x0c, 'UBYTE')).toBe(0x08);
+  });
+});
+
+describe('quantizeRaw', () => {
+  it('rounds integers to the nearest step', () => {
+    expect(quantizeRaw(12.5, 'UBYTE')).toEqual({ raw: 13, clamped: false });
+    expect(quantizeRaw(-3.4, 'SWORD')).toEqual({ raw: -3, clamped: false });
+  });
+
+  it('clamps to the range of the data type', () => {
+    expect(quantizeRaw(256, 'UBYTE')).toEqual({ raw: 255, clamped: true });
+    expect(quantizeRaw(-1, 'UWORD')).toEqual({ raw: 0, clamped: true });
+    expect(quantizeRaw(-129, 'SBYTE')).toEqual({ raw: -128, clamped: true });
+    expect(quantizeRaw(2 ** 31, 'SLONG')).toEqual({ raw: 2 ** 31 - 1, clamped: true });
+    expect(quantizeRaw(2 ** 32 - 1, 'ULONG')).toEqual({ raw: 2 ** 32 - 1, clamped: false });
+  });
+
+  it('limits bit fields to the width of their mask', () => {
+    expect(quantizeRaw(7, 'UWORD', 0x0030)).toEqual({ raw: 3, clamped: true });
+    expect(quantizeRaw(-1, 'SBYTE', 0x0f)).toEqual({ raw: 0, clamped: true });
+    expect(quantizeRaw(15, 'SBYTE', 0xf0)).toEqual({ raw: 15, clamped: false });
+  });
+
+  it('rounds to the nearest float32 and clamps to its range', () => {
+    expect(quantizeRaw(0.1, 'FLOAT32')).toEqual({ raw: Math.fround(0.1), clamped: false });
+    expect(quantizeRaw(1e39, 'FLOAT32')).toEqual({ raw: Math.fround(3.4028234663852886e38), clamped: true });
+    expect(quantizeRaw(-1e39, 'FLOAT32').raw).toBe(-Math.fround(3.4028234663852886e38));
+    expect(quantizeRaw(0.1, 'FLOAT64')).toEqual({ raw: 0.1, clamped: false });
+  });
+
+  it('passes NaN through', () => {
+    expect(quantizeRaw(NaN, 'UBYTE').raw).toBeNaN();
+  });
+});
@@ -1,4 +1,5 @@
-import { DataType, DATA_TYPE_INFO, Parameter, AxisDefinition, DefinitionVerification, BinaryMode } from '../types';
+import { DataType, DATA_TYPE_INFO, Parameter, Measurement, AxisDefinition, Definition, DefinitionVerification, BinaryMode, Conversion, MemorySegment, AddressMap } from '../types';
+import { toPhysical, toRaw } from './conversion';
 
 const DEFAULT_BASE_ADDRESS = 0xa0000000; // Simos ECU flash base address (default)
 
@@ -95,29 +96,25 @@ export function isEccPosition(fileOffset: number): boolean {
 /**
  * Convert a logical offset (A2L address space, no ECC) to a physical offset (raw file with ECC)
  *
- * ECC layout: every 64 physical bytes contain 62 bytes of data + 2 ECC bytes
+ * ECC layout: every 64 physical bytes contain 60 bytes of data + 4 ECC bytes
  * - Bytes 0-29: data (30 bytes)
- * - Byte 30: ECC (1 byte)
- * - Bytes 31-61: data (31 bytes)
- * - Byte 62: ECC (1 byte)
- * - Byte 63: data (1 byte)
+ * - Bytes 30-31: ECC (2 bytes)
+ * - Bytes 32-61: data (30 bytes)
+ * - Bytes 62-63: ECC (2 bytes)
  *
  * A2L addresses assume data is contiguous (no ECC). When reading from raw flash,
  * we need to skip the ECC bytes.
  */
 export function logicalToPhysical(logicalOffset: number): number {
-  // Every 62 logical bytes map to 64 physical bytes
+  // Every 60 logical bytes map to 64 physical bytes
   const block = Math.floor(logicalOffset / ECC_DATA_SIZE);
   const posInBlock = logicalOffset % ECC_DATA_SIZE;
 
   if (posInBlock < 30) {
-    // Before first ECC byte, maps directly
+    // Before first ECC pair, maps directly
     return block * ECC_BLOCK_SIZE + posInBlock;
-  } else if (posInBlock < 61) {
-    // Between first and second ECC byte, offset by 1
-    return block * ECC_BLOCK_SIZE + posInBlock + 1;
   } else {
-    // After second ECC byte (position 61), offset by 2
+    // After first ECC pair, offset by 2
     return block * ECC_BLOCK_SIZE + posInBlock + 2;
   }
 }
@@ -166,6 +163,171 @@ export function stripEccBytes(data: Uint8Array): Uint8Array {
   return result;
 }
 
+// The flash ECC is a linear SEC-DED code, so each block's ECC bytes are an affine
+// function of its data bits. Rather than assume a parity matrix, the code is learned
+// from the (data, ECC) pairs of the dump itself: the ECC of new data is the XOR of
+// the ECC of dump blocks whose data XORs to it.
+const ECC_DATA_BITS = ECC_DATA_SIZE * 8;
+const ECC_CONST_BIT = ECC_DATA_BITS;             // Always set: makes the affine code linear
+const ECC_RANK = ECC_DATA_BITS + 1;
+const ECC_DATA_WORDS = Math.ceil(ECC_RANK / 32);
+const ECC_WORD = ECC_DATA_WORDS;                 // Word holding the 32 ECC bits of a row
+const ECC_BLOCKS_PER_MISMATCH = 100;              // At most 1 in 100 blocks may disagree with a learned code
+
+/**
+ * Echelon basis of block vectors (data bits, constant bit, ECC bits), indexed by lowest data bit
+ */
+interface EccCode {
+  pivots: (Uint32Array | null)[];
+  rank: number;
+  consistent: boolean;  // False if the dump's ECC bytes are not an affine function of the data
+}
+
+const eccCodes = new WeakMap<Uint8Array, EccCode>();
+
+function isErasedBlock(data: Uint8Array, blockStart: number): boolean {
+  for (let i = 0; i < ECC_BLOCK_SIZE; i++) {
+    if (data[blockStart + i] !== 0xff) return false;
+  }
+  return true;
+}
+
+/**
+ * Vector of a 64-byte block: its 480 data bits, the constant bit and the ECC bytes
+ */
+function blockVector(block: Uint8Array, blockStart: number): Uint32Array {
+  const row = new Uint32Array(ECC_DATA_WORDS + 1);
+  for (let i = 0; i < ECC_DATA_SIZE; i++) {
+    const byte = block[blockStart + (i < 30 ? i : i + 2)];
+    row[i >> 2] |= byte << ((i & 3) * 8);
+  }
+  row[ECC_CONST_BIT >> 5] |= 1 << (ECC_CONST_BIT & 31);
+  row[ECC_WORD] = ECC_POSITIONS.reduce((ecc, pos, i) => ecc | (block[blockStart + pos] << (i * 8)), 0) >>> 0;
+  return row;
+}
+
+/**
+ * Eliminate a vector against the basis
+ * Returns the first data bit that no basis vector covers, or -1 if only ECC bits remain
+ */
+function reduceVector(code: EccCode, row: Uint32Array): number {
+  for (let w = 0; w < ECC_DATA_WORDS; w++) {
+    while (row[w] !== 0) {
+      const bit = w * 32 + 31 - Math.clz32(row[w] & -row[w]);
+      const pivot = code.pivots[bit];
+      if (!pivot) return bit;
+      for (let k = w; k <= ECC_WORD; k++) row[k] ^= pivot[k];
+    }
+  }
+  return -1;
+}
+
+/**
+ * Learn the ECC code of a dump from its blocks (erased blocks are skipped)
+ */
+function learnEccCode(data: Uint8Array): EccCode {
+  const code: EccCode = { pivots: new Array(ECC_RANK).fill(null), rank: 0, consistent: true };
+  let blockStart = 0;
+  for (; blockStart + ECC_BLOCK_SIZE <= data.length && code.rank < ECC_RANK; blockStart += ECC_BLOCK_SIZE) {
+    if (isErasedBlock(data, blockStart)) continue;
+    const row = blockVector(data, blockStart);
+    const bit = reduceVector(code, row);
+    if (bit >= 0) {
+      code.pivots[bit] = row;
+      code.rank++;
+    } else if (row[ECC_WORD] !== 0) {
+      code.consistent = false;
+      return code;
+    }
+  }
+  if (code.rank < ECC_RANK) return code;
+
+  // The code is determined: check the remaining blocks against it, one table lookup per data byte
+  const tables = Array.from({ length: ECC_DATA_SIZE }, () => new Uint32Array(256));
+  for (let i = 0; i < ECC_DATA_BITS; i++) {
+    const row = new Uint32Array(ECC_DATA_WORDS + 1);
+    row[i >> 5] = 1 << (i & 31);
+    reduceVector(code, row);
+    const table = tables[i >> 3];
+    for (let v = 0; v < 256; v++) {
+      if (v & (1 << (i & 7))) table[v] ^= row[ECC_WORD];
+    }
+  }
+  const constant = new Uint32Array(ECC_DATA_WORDS + 1);
+  constant[ECC_CONST_BIT >> 5] = 1 << (ECC_CONST_BIT & 31);
+  reduceVector(code, constant);
+
+  // A few damaged blocks are refused when written; a wrong code disagrees with most blocks
+  let checked = 0;
+  let mismatched = 0;
+  for (; blockStart + ECC_BLOCK_SIZE <= data.length; blockStart += ECC_BLOCK_SIZE) {
+    if (isErasedBlock(data, blockStart)) continue;
+    let ecc = constant[ECC_WORD];
+    for (let i = 0; i < ECC_DATA_SIZE; i++) ecc ^= tables[i][data[blockStart + (i < 30 ? i : i + 2)]];
+    const stored = ECC_POSITIONS.reduce((word, pos, i) => word | (data[blockStart + pos] << (i * 8)), 0) >>> 0;
+    checked++;
+    if (ecc >>> 0 !== stored) mismatched++;
+  }
+  code.consistent = mismatched * ECC_BLOCKS_PER_MISMATCH <= checked;
+  return code;
+}
+
+function getEccCode(data: Uint8Array): EccCode {
+  let code = eccCodes.get(data);
+  if (!code) {
+    code = learnEccCode(data);
+    eccCodes.set(data, code);
+  }
+  return code;
+}
+
+/**
+ * ECC bytes of a 64-byte block, in the order of ECC_POSITIONS
+ * Throws if the dump's blocks don't determine the ECC of this data
+ */
+function computeEccBlock(code: EccCode, block: Uint8Array, blockStart: number): number[] {
+  const row = blockVector(block, blockStart);
+  row[ECC_WORD] = 0;
+  if (!code.consistent) {
+    throw new Error('The ECC bytes of this dump do not follow a linear code, so they cannot be regenerated; the image was not changed');
+  }
+  if (reduceVector(code, row) >= 0) {
+    throw new Error(`Cannot derive the ECC of the block at 0x${blockStart.toString(16).toUpperCase()} from this dump; the image was not changed`);
+  }
+  return ECC_POSITIONS.map((_, i) => (row[ECC_WORD] >>> (i * 8)) & 0xff);
+}
+
+/**
+ * Write bytes into a raw ECC dump and regenerate the ECC of every touched block
+ * Nothing is written unless every touched block's stored ECC matches the dump's code
+ * and the new ECC can be derived
+ */
+export function writeEccBytes(data: Uint8Array, writes: { offset: number; value: number }[]): void {
+  const code = getEccCode(data);
+  const blocks = new Map<number, Uint8Array>();
+  for (const { offset, value } of writes) {
+    const blockStart = Math.floor(offset / ECC_BLOCK_SIZE) * ECC_BLOCK_SIZE;
+    let block = blocks.get(blockStart);
+    if (!block) {
+      if (blockStart + ECC_BLOCK_SIZE > data.length) {
+        throw new Error(`Offset 0x${offset.toString(16).toUpperCase()} is in an incomplete ECC block; the image was not changed`);
+      }
+      block = data.slice(blockStart, blockStart + ECC_BLOCK_SIZE);
+      const stored = isErasedBlock(block, 0) ? null : computeEccBlock(code, block, 0);
+      if (stored && ECC_POSITIONS.some((pos, i) => block![pos] !== stored[i])) {
+        throw new Error(`Stored ECC of the block at 0x${blockStart.toString(16).toUpperCase()} does not match its data; the image was not changed`);
+      }
+      blocks.set(blockStart, block);
+    }
+    block[offset - blockStart] = value;
+  }
+
+  for (const block of blocks.values()) {
+    computeEccBlock(code, block, 0).forEach((ecc, i) => { block[ECC_POSITIONS[i]] = ecc; });
+  }
+  for (const [blockStart, block] of blocks) data.set(block, blockStart);
+}
+
 /**
  * Detect if binary data likely contains ECC bytes
  * Checks for 0xFF patterns at expected ECC positions
@@ -201,13 +363,27 @@ export function readString(data: Uint8Array, offset: number, length: number): st
   return String.fromCharCode(...data.slice(offset, offset + length));
 }
 
+/**
+ * Read ASCII string from a raw ECC dump at given logical offset
+ */
+function readEccString(data: Uint8Array, logicalOffset: number, length: number): string {
+  if (logicalOffset < 0) return '';
+  const bytes: number[] = [];
+  for (let i = 0; i < length; i++) {
+    const physical = logicalToPhysical(logicalOffset + i);
+    if (physical >= data.length) return '';
+    bytes.push(data[physical]);
+  }
+  return String.fromCharCode(...bytes);
+}
+
 // Simos CAL block header: "CAS" + 5-char ID, then EPK string starts at offset 8
 const SIMOS_EPK_OFFSET = 8;
 
 /**
  * Check if a string looks like a DSG/TCU EPK (F45M, F49M, VPB9, etc.)
  */
-function isDsgEpk(epk: string): boolean {
+export function isDsgEpk(epk: string): boolean {
   return /^[FV][A-Z0-9]{3}$/.test(epk);
 }
 
@@ -216,7 +392,7 @@ function isDsgEpk(epk: string): boolean {
  * Pattern: HWNumber_Version_Code EPK (e.g., "0D9300012H_4518_OTJD F45M")
  * DSG bins have version info block around 0x4ff00-0x50100
  */
-function findDsgEpk(data: Uint8Array, expected: string): { offset: number; found: string } | null {
+export function findDsgEpk(data: Uint8Array, expected: string): { offset: number; found: string } | null {
   // DSG version info is typically around offset 0x4ff00-0x50100
   // Search multiple regions where EPK might appear
   const searchRegions = [
@@ -250,13 +426,15 @@ function findDsgEpk(data: Uint8Array, expected: string): { offset: number; found
 }
 
 /**
- * Detect binary mode (full bin or CAL block only) and verify definition matches
+ * Detect binary mode (full bin, CAL block only or raw ECC dump) and verify definition matches
  * Returns the detected mode and calOffset to use for address calculations
  *
  * Address calculation: fileOffset = address - baseAddress - calOffset
  * - Full bin: calOffset = 0 (addresses map directly after baseAddress subtraction)
  * - CAL-only: calOffset = verification.calOffset (need additional subtraction)
+ * - Raw ECC dump: calOffset = 0, result is a logical offset mapped through logicalToPhysical
  * - DSG/TCU: calOffset = 0, baseAddress = 0 (direct file offsets)
+ * - Memory segments replace the baseAddress subtraction with a per-segment lookup; calOffset applies the same way
  */
 export function detectBinaryMode(
   data: Uint8Array,
@@ -290,7 +468,13 @@ export function detectBinaryMode(
     return { mode: 'full', calOffset: 0, valid: true, found: foundAtFull };
   }
 
-  // Not found at either location - assume CAL-only as fallback
+  // Then check at calOffset + 8 in a raw flash dump with interleaved ECC bytes
+  const foundAtEcc = readEccString(data, calOffset + SIMOS_EPK_OFFSET, length);
+  if (foundAtEcc === expected) {
+    return { mode: 'ecc', calOffset: 0, valid: true, found: foundAtEcc };
+  }
+
+  // Not found at any location - assume CAL-only as fallback
   return {
     mode: 'cal',
     calOffset: calOffset,
@@ -299,6 +483,56 @@ export function detectBinaryMode(
   };
 }
 
+/**
+ * All offsets where a string occurs in the binary
+ */
+function findAllStrings(data: Uint8Array, text: string, limit: number): number[] {
+  const bytes = Array.from(text, ch => ch.charCodeAt(0) & 0xff);
+  const offsets: number[] = [];
+  if (bytes.length === 0) return offsets;
+
+  let pos = data.indexOf(bytes[0]);
+  while (pos >= 0 && pos + bytes.length <= data.length && offsets.length < limit) {
+    let i = 1;
+    while (i < bytes.length && data[pos + i] === bytes[i]) i++;
+    if (i === bytes.length) offsets.push(pos);
+    pos = data.indexOf(bytes[0], pos + 1);
+  }
+  return offsets;
+}
+
+export interface CalBlockCandidate {
+  calStart: number;  // File offset where the CAL block starts
+  header: boolean;   // EPK sits behind a "CAS" header (otherwise only the EPK string was found)
+}
+
+/**
+ * Scan the whole binary for the definition's EPK when it is not at a known position
+ * (other layouts, prepended headers). Candidates with a CAL header come first.
+ *
+ * DSG/TCU EPKs carry no fixed position relative to the CAL data, so their
+ * candidates keep calStart = 0 (the definition's calOffset applies unchanged)
+ */
+export function scanForCalBlocks(data: Uint8Array, verification: DefinitionVerification, limit: number = 16): CalBlockCandidate[] {
+  const { expected } = verification;
+
+  if (isDsgEpk(expected)) {
+    // Same rule as findDsgEpk: EPK after space/underscore or followed by whitespace/NUL
+    const isTerminator = (b: number | undefined) => b === undefined || b === 0x00 || b === 0x20 || b === 0x09 || b === 0x0a || b === 0x0d;
+    const found = findAllStrings(data, expected, limit).some(offset =>
+      data[offset - 1] === 0x20 || data[offset - 1] === 0x5f || isTerminator(data[offset + expected.length])
+    );
+    return found ? [{ calStart: 0, header: false }] : [];
+  }
+
+  const candidates = findAllStrings(data, expected, limit)
+    .map(offset => offset - SIMOS_EPK_OFFSET)
+    .filter(calStart => calStart >= 0)
+    .map(calStart => ({ calStart, header: readString(data, calStart, 3) === 'CAS' }));
+
+  return [...candidates.filter(c => c.header), ...candidates.filter(c => !c.header)];
+}
+
 /**
  * Read CAL version string from binary (typically at start of CAL block for Simos 12/18)
  */
@@ -313,13 +547,43 @@ export function readCalVersion(data: Uint8Array, offset: number, maxLength: numb
   return String.fromCharCode(...bytes);
 }
 
+/**
+ * Address translation of a definition: its memory segments, or its single base address
+ */
+export function getAddressMap(definition: Definition | null | undefined): AddressMap {
+  if (definition?.segments?.length) return definition.segments;
+  return definition?.baseAddress ?? DEFAULT_BASE_ADDRESS;
+}
+
+/**
+ * Find the segment containing an address (directly or through one of its aliases)
+ * Returns the segment and the address's byte offset within it
+ */
+export function findSegment(address: number, segments: MemorySegment[]): { segment: MemorySegment; index: number } | null {
+  for (const segment of segments) {
+    for (const start of [segment.address, ...(segment.aliases ?? [])]) {
+      if (address >= start && address < start + segment.size) {
+        return { segment, index: address - start };
+      }
+    }
+  }
+  return null;
+}
+
 /**
  * Calculate file offset from memory address
  * @param address - Memory address (e.g. 0xa0340000) or direct file offset (e.g. 0x69416 for KP files)
  * @param calOffset - Offset to subtract (positive) or add (negative) for address adjustment
- * @param baseAddress - Memory base address to subtract (0xa0000000 for Simos, 0 for DSG/direct offsets)
+ * @param baseAddress - Memory base address to subtract (0xa0000000 for Simos, 0 for DSG/direct offsets),
+ *                      or the definition's memory segments
+ * @returns The file offset, or -1 for an address outside every segment
  */
-export function addressToOffset(address: number, calOffset: number = 0, baseAddress: number = DEFAULT_BASE_ADDRESS): number {
+export function addressToOffset(address: number, calOffset: number = 0, baseAddress: AddressMap = DEFAULT_BASE_ADDRESS): number {
+  if (typeof baseAddress !== 'number') {
+    // Segment map: fileOffset = segment.fileOffset + (address - segment start) - calOffset
+    const found = findSegment(address, baseAddress);
+    return found ? found.segment.fileOffset + found.index - calOffset : -1;
+  }
   // Formula: fileOffset = address - baseAddress - calOffset
   // - For Simos full bin: (0xa0800100 - 0xa0000000) - 0 = 0x800100
   // - For Simos CAL-only: (0xa0800100 - 0xa0000000) - 0x800000 = 0x100
@@ -328,12 +592,118 @@ export function addressToOffset(address: number, calOffset: number = 0, baseAddr
   return (address - baseAddress) - calOffset;
 }
 
-export function readValue(data: Uint8Array, address: number, dataType: DataType, calOffset: number = 0, baseAddress: number = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false): number {
-  const offset = addressToOffset(address, calOffset, baseAddress);
-  if (offset < 0 || offset >= data.length) return 0;
+/**
+ * Calculate memory address from file offset (inverse of addressToOffset)
+ * Returns null if the offset is not covered by any segment
+ */
+export function offsetToAddress(offset: number, calOffset: number = 0, baseAddress: AddressMap = DEFAULT_BASE_ADDRESS): number | null {
+  const imageOffset = offset + calOffset;
+  if (typeof baseAddress === 'number') return (imageOffset + baseAddress) >>> 0;
+  const segment = baseAddress.find(s => imageOffset >= s.fileOffset && imageOffset < s.fileOffset + s.size);
+  return segment ? segment.address + (imageOffset - segment.fileOffset) : null;
+}
+
+/**
+ * Get a view of `size` bytes at a file offset
+ * For raw ECC dumps the offset is logical and the bytes are gathered from their physical positions
+ */
+function getValueView(data: Uint8Array, offset: number, size: number, ecc: boolean): DataView | null {
+  if (offset < 0) return null;
+  if (!ecc) {
+    if (offset + size > data.length) return null;
+    return new DataView(data.buffer, data.byteOffset + offset, size);
+  }
+
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    const physical = logicalToPhysical(offset + i);
+    if (physical >= data.length) return null;
+    bytes[i] = data[physical];
+  }
+  return new DataView(bytes.buffer);
+}
 
+/**
+ * Scatter bytes written to a gathered view back into a raw ECC dump and update the touched ECC blocks
+ */
+function storeEccView(data: Uint8Array, offset: number, view: DataView): void {
+  writeEccBytes(data, Array.from({ length: view.byteLength }, (_, i) => ({ offset: logicalToPhysical(offset + i), value: view.getUint8(i) })));
+}
+
+/**
+ * Round a number to a BigInt within [min, max]
+ */
+function clampBigInt(value: number, min: bigint, max: bigint): bigint {
+  if (!Number.isFinite(value)) return value > 0 ? max : min;
+  const n = BigInt(Math.round(value));
+  return n < min ? min : n > max ? max : n;
+}
+
+const FLOAT32_MAX = 3.4028234663852886e38;
+
+export interface StoredValue {
+  raw: number;       // Raw value as stored (rounded to the data type's resolution)
+  value: number;     // Physical value of the stored raw value
+  clamped: boolean;  // The raw value was limited to the data type (or bit field) range
+}
+
+/**
+ * Round a raw value to what a data type can store: the nearest integer within the type's range,
+ * or the nearest float32; bit fields are limited to the width of their mask
+ */
+export function quantizeRaw(raw: number, dataType: DataType, bitMask?: number): { raw: number; clamped: boolean } {
+  if (Number.isNaN(raw)) return { raw, clamped: false };
+
+  const info = DATA_TYPE_INFO[dataType];
+  if (info.float) {
+    if (dataType === 'FLOAT64') return { raw, clamped: false };
+    const clamped = Math.abs(raw) > FLOAT32_MAX;
+    return { raw: Math.fround(clamped ? Math.sign(raw) * FLOAT32_MAX : raw), clamped };
+  }
+
+  const bits = info.size * 8;
+  let min: number;
+  let max: number;
+  if (bitMask !== undefined) {
+    min = 0;
+    max = Math.floor(bitMask / 2 ** maskShift(bitMask));
+  } else {
+    min = info.signed ? -(2 ** (bits - 1)) : 0;
+    max = info.signed ? 2 ** (bits - 1) - 1 : 2 ** bits - 1;
+  }
+  const rounded = Math.round(raw);
+  const limited = Math.max(min, Math.min(max, rounded));
+  return { raw: limited, clamped: limited !== rounded };
+}
+
+/**
+ * The value a physical value is actually stored as: converted to raw, quantized and converted back
+ */
+function quantizeValue(physValue: number, dataType: DataType, factor: number, offset: number, conversion?: Conversion, bitMask?: number): StoredValue {
+  const { raw, clamped } = quantizeRaw(reverseConversion(physValue, factor, offset, conversion), dataType, bitMask);
+  return { raw, value: applyConversion(raw, factor, offset, conversion), clamped };
+}
+
+/**
+ * Preview how a physical value would be stored in a parameter
+ */
+export function quantizeParameterValue(param: Parameter, physValue: number): StoredValue {
+  return quantizeValue(physValue, param.dataType, param.factor, param.offset, param.conversion, param.bitMask);
+}
+
+/**
+ * Preview how a physical value would be stored in an axis
+ */
+export function quantizeAxisValue(axis: AxisDefinition, physValue: number): StoredValue {
+  return quantizeValue(physValue, axis.dataType ?? 'UWORD', axis.factor ?? 1, axis.offset ?? 0, axis.conversion);
+}
+
+export function readValue(data: Uint8Array, address: number, dataType: DataType, calOffset: number = 0, baseAddress: AddressMap = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false, ecc: boolean = false): number {
+  const offset = addressToOffset(address, calOffset, baseAddress);
   const info = DATA_TYPE_INFO[dataType];
-  const view = new DataView(data.buffer, data.byteOffset + offset, info.size);
+  const view = getValueView(data, offset, info.size, ecc);
+  if (!view) return 0;
+
   const littleEndian = !bigEndian;
 
   switch (dataType) {
@@ -344,48 +714,159 @@ export function readValue(data: Uint8Array, address: number, dataType: DataType,
     case 'ULONG': return view.getUint32(0, littleEndian);
     case 'SLONG': return view.getInt32(0, littleEndian);
     case 'FLOAT32': return view.getFloat32(0, littleEndian);
+    case 'FLOAT64': return view.getFloat64(0, littleEndian);
+    // 64-bit integers lose precision beyond 2^53
+    case 'A_UINT64': return Number(view.getBigUint64(0, littleEndian));
+    case 'A_INT64': return Number(view.getBigInt64(0, littleEndian));
     default: return 0;
   }
 }
 
-export function writeValue(data: Uint8Array, address: number, dataType: DataType, value: number, calOffset: number = 0, baseAddress: number = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false): void {
+export function writeValue(data: Uint8Array, address: number, dataType: DataType, value: number, calOffset: number = 0, baseAddress: AddressMap = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false, ecc: boolean = false): void {
   const offset = addressToOffset(address, calOffset, baseAddress);
-  if (offset < 0 || offset >= data.length) return;
-
   const info = DATA_TYPE_INFO[dataType];
-  const view = new DataView(data.buffer, data.byteOffset + offset, info.size);
+  const view = getValueView(data, offset, info.size, ecc);
+  // Unconvertible physical values (e.g. outside a formula's range) are not written
+  if (!view || Number.isNaN(value)) return;
+
   const littleEndian = !bigEndian;
 
+  // Round to the nearest representable value instead of letting DataView truncate
+  const { raw } = quantizeRaw(value, dataType);
+
   switch (dataType) {
-    case 'UBYTE': view.setUint8(0, Math.max(0, Math.min(255, value))); break;
-    case 'SBYTE': view.setInt8(0, Math.max(-128, Math.min(127, value))); break;
-    case 'UWORD': view.setUint16(0, Math.max(0, Math.min(65535, value)), littleEndian); break;
-    case 'SWORD': view.setInt16(0, Math.max(-32768, Math.min(32767, value)), littleEndian); break;
-    case 'ULONG': view.setUint32(0, value >>> 0, littleEndian); break;
-    case 'SLONG': view.setInt32(0, value, littleEndian); break;
-    case 'FLOAT32': view.setFloat32(0, value, littleEndian); break;
+    case 'UBYTE': view.setUint8(0, raw); break;
+    case 'SBYTE': view.setInt8(0, raw); break;
+    case 'UWORD': view.setUint16(0, raw, littleEndian); break;
+    case 'SWORD': view.setInt16(0, raw, littleEndian); break;
+    case 'ULONG': view.setUint32(0, raw, littleEndian); break;
+    case 'SLONG': view.setInt32(0, raw, littleEndian); break;
+    case 'FLOAT32': view.setFloat32(0, raw, littleEndian); break;
+    case 'FLOAT64': view.setFloat64(0, raw, littleEndian); break;
+    case 'A_UINT64': view.setBigUint64(0, clampBigInt(value, 0n, 0xffffffffffffffffn), littleEndian); break;
+    case 'A_INT64': view.setBigInt64(0, clampBigInt(value, -0x8000000000000000n, 0x7fffffffffffffffn), littleEndian); break;
   }
+
+  if (ecc) storeEccView(data, offset, view);
 }
 
-export function applyConversion(raw: number, factor: number, offset: number): number {
+export function applyConversion(raw: number, factor: number, offset: number, conversion?: Conversion): number {
+  if (conversion) return toPhysical(raw, conversion);
   return raw * factor + offset;
 }
 
-export function reverseConversion(phys: number, factor: number, offset: number): number {
+export function reverseConversion(phys: number, factor: number, offset: number, conversion?: Conversion): number {
+  if (conversion) return toRaw(phys, conversion);
   return (phys - offset) / factor;
 }
 
-export function readParameterValue(data: Uint8Array, param: Parameter, calOffset: number = 0, baseAddress: number = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false): number {
-  const raw = readValue(data, param.address, param.dataType, calOffset, baseAddress, bigEndian);
-  return applyConversion(raw, param.factor, param.offset);
+/**
+ * Number of trailing zero bits of a mask (shift of a masked field)
+ */
+function maskShift(mask: number): number {
+  let shift = 0;
+  while (shift < 64 && Math.floor(mask / 2 ** shift) % 2 === 0) shift++;
+  return shift;
+}
+
+/**
+ * Extract the masked bit field of a raw value, shifted down to bit 0
+ */
+export function extractBits(raw: number, mask: number, dataType: DataType): number {
+  const width = DATA_TYPE_INFO[dataType].size * 8;
+  const value = BigInt.asUintN(width, BigInt(Math.trunc(raw)));
+  return Number((value & BigInt(mask)) >> BigInt(maskShift(mask)));
 }
 
-export function writeParameterValue(data: Uint8Array, param: Parameter, physValue: number, calOffset: number = 0, baseAddress: number = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false): void {
-  const raw = reverseConversion(physValue, param.factor, param.offset);
-  writeValue(data, param.address, param.dataType, raw, calOffset, baseAddress, bigEndian);
+/**
+ * Replace the masked bit field of a raw value, leaving all other bits untouched
+ */
+export function insertBits(raw: number, field: number, mask: number, dataType: DataType): number {
+  const info = DATA_TYPE_INFO[dataType];
+  const width = info.size * 8;
+  const bigMask = BigInt(mask);
+  const shift = BigInt(maskShift(mask));
+  const fieldMax = Number(bigMask >> shift);
+  const clamped = BigInt(Math.max(0, Math.min(fieldMax, Math.round(field))));
+  const value = BigInt.asUintN(width, BigInt(Math.trunc(raw)));
+  const result = (value & ~bigMask) | ((clamped << shift) & bigMask);
+  return Number(info.signed ? BigInt.asIntN(width, result) : BigInt.asUintN(width, result));
 }
 
-export function readTableData(data: Uint8Array, param: Parameter, calOffset: number = 0, baseAddress: number = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false, debug: boolean = false): number[][] {
+/**
+ * Read the raw value of a parameter element, applying its bit mask
+ */
+function readParameterRaw(data: Uint8Array, param: Parameter, address: number, calOffset: number, baseAddress: AddressMap, bigEndian: boolean, ecc: boolean): number {
+  const raw = readValue(data, address, param.dataType, calOffset, baseAddress, bigEndian, ecc);
+  return param.bitMask !== undefined ? extractBits(raw, param.bitMask, param.dataType) : raw;
+}
+
+/**
+ * Write the raw value of a parameter element; with a bit mask only the masked bits are modified
+ */
+function writeParameterRaw(data: Uint8Array, param: Parameter, address: number, raw: number, calOffset: number, baseAddress: AddressMap, bigEndian: boolean, ecc: boolean): void {
+  if (param.bitMask !== undefined && !Number.isNaN(raw)) {
+    const current = readValue(data, address, param.dataType, calOffset, baseAddress, bigEndian, ecc);
+    raw = insertBits(current, raw, param.bitMask, param.dataType);
+  }
+  writeValue(data, address, param.dataType, raw, calOffset, baseAddress, bigEndian, ecc);
+}
+
+export function readParameterValue(data: Uint8Array, param: Parameter, calOffset: number = 0, baseAddress: AddressMap = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false, ecc: boolean = false): number {
+  const raw = readParameterRaw(data, param, param.address, calOffset, baseAddress, bigEndian, ecc);
+  return applyConversion(raw, param.factor, param.offset, param.conversion);
+}
+
+/**
+ * Decode a measurement from bytes read from the ECU's memory (offset is the position of its value in data)
+ */
+export function readMeasurementValue(data: Uint8Array, offset: number, measurement: Measurement, bigEndian: boolean = false): number {
+  let raw = readValue(data, offset, measurement.dataType, 0, 0, bigEndian);
+  if (measurement.bitMask !== undefined) raw = extractBits(raw, measurement.bitMask, measurement.dataType);
+  return applyConversion(raw, measurement.factor, measurement.offset, measurement.conversion);
+}
+
+/**
+ * Write a physical value, rounded to the nearest raw step
+ * Returns what was actually stored
+ */
+export function writeParameterValue(data: Uint8Array, param: Parameter, physValue: number, calOffset: number = 0, baseAddress: AddressMap = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false, ecc: boolean = false): StoredValue {
+  const stored = quantizeParameterValue(param, physValue);
+  writeParameterRaw(data, param, param.address, stored.raw, calOffset, baseAddress, bigEndian, ecc);
+  return stored;
+}
+
+/**
+ * Check that text only contains printable ASCII characters (0x20-0x7E)
+ */
+export function isPrintableAscii(text: string): boolean {
+  return /^[\x20-\x7e]*$/.test(text);
+}
+
+/**
+ * Read an ASCII parameter (trailing NUL padding removed)
+ */
+export function readParameterString(data: Uint8Array, param: Parameter, calOffset: number = 0, baseAddress: AddressMap = DEFAULT_BASE_ADDRESS, ecc: boolean = false): string {
+  const length = param.length ?? 1;
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += String.fromCharCode(readValue(data, param.address + i, 'UBYTE', calOffset, baseAddress, false, ecc));
+  }
+  return text.replace(/\0+$/, '');
+}
+
+/**
+ * Write an ASCII parameter, truncated to its length and padded with NUL bytes
+ */
+export function writeParameterString(data: Uint8Array, param: Parameter, text: string, calOffset: number = 0, baseAddress: AddressMap = DEFAULT_BASE_ADDRESS, ecc: boolean = false): void {
+  const length = param.length ?? 1;
+  for (let i = 0; i < length; i++) {
+    const code = i < text.length ? text.charCodeAt(i) & 0xff : 0;
+    writeValue(data, param.address + i, 'UBYTE', code, calOffset, baseAddress, false, ecc);
+  }
+}
+
+export function readTableData(data: Uint8Array, param: Parameter, calOffset: number = 0, baseAddress: AddressMap = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false, ecc: boolean = false, debug: boolean = false): number[][] {
   const rows = param.rows || 1;
   const cols = param.cols || 1;
   const typeSize = DATA_TYPE_INFO[param.dataType].size;
@@ -397,7 +878,7 @@ export function readTableData(data: Uint8Array, param: Parameter, calOffset: num
       name: param.name,
       address: '0x' + param.address.toString(16),
       calOffset: '0x' + calOffset.toString(16),
-      baseAddress: '0x' + baseAddress.toString(16),
+      baseAddress: typeof baseAddress === 'number' ? '0x' + baseAddress.toString(16) : `${baseAddress.length} segments`,
       dataOffset,
       rows, cols,
       columnDir: param.columnDir,
@@ -405,6 +886,7 @@ export function readTableData(data: Uint8Array, param: Parameter, calOffset: num
       offset: param.offset,
       typeSize,
       bigEndian,
+      ecc,
     });
   }
 
@@ -415,8 +897,8 @@ export function readTableData(data: Uint8Array, param: Parameter, calOffset: num
       // ROW_DIR: data stored row-wise (r * cols + c) - all of row 0, then row 1, etc.
       const idx = param.columnDir ? (c * rows + r) : (r * cols + c);
       const addr = param.address + dataOffset + idx * typeSize;
-      const raw = readValue(data, addr, param.dataType, calOffset, baseAddress, bigEndian);
-      const phys = applyConversion(raw, param.factor, param.offset);
+      const raw = readParameterRaw(data, param, addr, calOffset, baseAddress, bigEndian, ecc);
+      const phys = applyConversion(raw, param.factor, param.offset, param.conversion);
       if (debug && r < 3 && c < 4) {
         const fileOffset = addressToOffset(addr, calOffset, baseAddress);
         console.log(`  [${r},${c}] idx=${idx} addr=0x${addr.toString(16)} fileOffset=0x${fileOffset.toString(16)} raw=${raw} phys=${phys.toFixed(4)}`);
@@ -435,35 +917,86 @@ export function writeTableCell(
   col: number,
   physValue: number,
   calOffset: number = 0,
-  baseAddress: number = DEFAULT_BASE_ADDRESS,
-  bigEndian: boolean = false
-): void {
+  baseAddress: AddressMap = DEFAULT_BASE_ADDRESS,
+  bigEndian: boolean = false,
+  ecc: boolean = false
+): StoredValue {
   const rows = param.rows || 1;
   const cols = param.cols || 1;
   const typeSize = DATA_TYPE_INFO[param.dataType].size;
   const dataOffset = param.dataOffset ?? 0; // Byte offset where table data starts (for STD_AXIS)
   const idx = param.columnDir ? (col * rows + row) : (row * cols + col);
   const addr = param.address + dataOffset + idx * typeSize;
-  const raw = reverseConversion(physValue, param.factor, param.offset);
-  writeValue(data, addr, param.dataType, raw, calOffset, baseAddress, bigEndian);
+  const stored = quantizeParameterValue(param, physValue);
+  writeParameterRaw(data, param, addr, stored.raw, calOffset, baseAddress, bigEndian, ecc);
+  return stored;
+}
+
+/**
+ * Breakpoints of a rescaled axis: the input value at each axis index, interpolated between
+ * the points of the mapping (and extrapolated beyond its ends)
+ */
+function invertRescale(inputs: number[], indices: number[], points: number): number[] {
+  // The mapping ends where the index stops increasing (unused entries)
+  const length = Math.min(inputs.length, indices.length);
+  let used = Math.min(length, 1);
+  while (used < length && indices[used] > indices[used - 1]) used++;
+
+  return Array.from({ length: points }, (_, i) => {
+    // Nothing to interpolate between: plain indices
+    if (used < 2) return i;
+    let k = 1;
+    while (k < used - 1 && indices[k] < i) k++;
+    const i0 = indices[k - 1];
+    const i1 = indices[k];
+    return inputs[k - 1] + (inputs[k] - inputs[k - 1]) * (i - i0) / (i1 - i0);
+  });
+}
+
+/**
+ * Axes whose points are stored in the image: the axis itself, or both tables of a rescaled axis
+ */
+export function storedAxes(axis: AxisDefinition | undefined): AxisDefinition[] {
+  if (!axis) return [];
+  if (axis.rescale) return [...storedAxes(axis.rescale.input), ...storedAxes(axis.rescale.index)];
+  return axis.address !== undefined && axis.dataType && !axis.values ? [axis] : [];
+}
+
+/**
+ * Bytes spanned by a stored axis, from its first to its last point
+ */
+export function axisByteLength(axis: AxisDefinition): number {
+  if (!axis.dataType) return 0;
+  const size = DATA_TYPE_INFO[axis.dataType].size;
+  return (axis.points - 1) * (axis.stride ?? size) + size;
 }
 
-export function readAxisData(data: Uint8Array, axis: AxisDefinition, calOffset: number = 0, baseAddress: number = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false): number[] {
+export function readAxisData(data: Uint8Array, axis: AxisDefinition, calOffset: number = 0, baseAddress: AddressMap = DEFAULT_BASE_ADDRESS, bigEndian: boolean = false, ecc: boolean = false): number[] {
+  if (axis.rescale) {
+    const inputs = readAxisData(data, axis.rescale.input, calOffset, baseAddress, bigEndian, ecc);
+    const indices = readAxisData(data, axis.rescale.index, calOffset, baseAddress, bigEndian, ecc);
+    return invertRescale(inputs, indices, axis.points);
+  }
+
+  if (axis.values) {
+    return Array.from({ length: axis.points }, (_, i) => axis.values![i] ?? i);
+  }
+
   if (!axis.address || !axis.dataType) {
     // Generate index-based axis
     return Array.from({ length: axis.points }, (_, i) => i);
   }
 
-  const typeSize = DATA_TYPE_INFO[axis.dataType].size;
+  const step = axis.stride ?? DATA_TYPE_INFO[axis.dataType].size;
   const result: number[] = [];
   const factor = axis.factor ?? 1;
   const offset = axis.offset ?? 0;
   const dataOffset = axis.dataOffset ?? 0; // Byte offset where data starts
 
   for (let i = 0; i < axis.points; i++) {
-    const addr = axis.address + dataOffset + i * typeSize;
-    const raw = readValue(data, addr, axis.dataType, calOffset, baseAddress, bigEndian);
-    result.push(applyConversion(raw, factor, offset));
+    const addr = axis.address + dataOffset + i * step;
+    const raw = readValue(data, addr, axis.dataType, calOffset, baseAddress, bigEndian, ecc);
+    result.push(applyConversion(raw, factor, offset, axis.conversion));
   }
   return result;
 }
@@ -474,19 +1007,22 @@ export function writeAxisValue(
   index: number,
   physValue: number,
   calOffset: number = 0,
-  baseAddress: number = DEFAULT_BASE_ADDRESS,
-  bigEndian: boolean = false
-): void {
-  if (!axis.address || !axis.dataType) return;
+  baseAddress: AddressMap = DEFAULT_BASE_ADDRESS,
+  bigEndian: boolean = false,
+  ecc: boolean = false
+): StoredValue {
+  if (axis.values || axis.rescale) {
+    throw new Error('The breakpoints of this axis are not stored as values and cannot be edited');
+  }
+  const stored = quantizeAxisValue(axis, physValue);
+  if (!axis.address || !axis.dataType) return stored;
 
-  const typeSize = DATA_TYPE_INFO[axis.dataType].size;
-  const factor = axis.factor ?? 1;
-  const offset = axis.offset ?? 0;
+  const step = axis.stride ?? DATA_TYPE_INFO[axis.dataType].size;
   const dataOffset = axis.dataOffset ?? 0;
 
-  const addr = axis.address + dataOffset + index * typeSize;
-  const raw = reverseConversion(physValue, factor, offset);
-  writeValue(data, addr, axis.dataType, raw, calOffset, baseAddress, bigEndian);
+  const addr = axis.address + dataOffset + index * step;
+  writeValue(data, addr, axis.dataType, stored.raw, calOffset, baseAddress, bigEndian, ecc);
+  return stored;
 }
 
 export function formatValue(value: number, decimals: number = 2): string {
@@ -630,7 +1166,7 @@ export function debugLayoutComparison(data: Uint8Array, param: Parameter, calOff
   for (let i = 0; i < 20 && i < rows * cols; i++) {
     const addr = param.address + dataOffset + i * typeSize;
     const raw = readValue(data, addr, param.dataType, calOffset);
-    const phys = applyConversion(raw, param.factor, param.offset);
+    const phys = applyConversion(raw, param.factor, param.offset, param.conversion);
     rawValues.push(phys);
     const hexVal = raw.toString(16).padStart(4, '0').toUpperCase();
     console.log(`  idx ${i.toString().padStart(2)}: raw=${raw.toString().padStart(5)} (0x${hexVal}) phys=${phys.toFixed(4)}`);
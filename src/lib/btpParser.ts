@@ -24,11 +24,13 @@ export interface PatchCheckResult {
   name: string;
   file: string;
   status: PatchStatus;
-  definition?: string;
+  definition?: string;  // Patch definition in patches/definitions/
   category?: string;
   blocks: BtpBlock[];
   header: BtpHeader;
   crcValid: boolean;
+  libraryId?: number;   // Set for patches from the local library
+  xdf?: string;         // XDF describing the patch parameters (local library patches)
 }
 
 function readU32LE(data: Uint8Array, offset: number): number {
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { ChecksumDefinition, Definition } from '../types';
+import { additiveSum, crc32, crc32Simos, fixChecksums, registerChecksumAlgorithm, verifyChecksums } from './checksum';
+
+const CHECK = new TextEncoder().encode('123456789');
+const EPK = '8V0906259H__0001';
+
+/**
+ * CAL-only Simos image: "CAS" header, EPK, and a CRC header covering 0x400-0xFFF
+ */
+function simosCal(): Uint8Array {
+  const data = new Uint8Array(0x1000);
+  for (let i = 0x400; i < data.length; i++) data[i] = (i * 7) & 0xff;
+  data.set(new TextEncoder().encode('CAS'), 0);
+  data.set(new TextEncoder().encode(EPK), 8);
+  const view = new DataView(data.buffer);
+  view.setUint8(0x308, 1);
+  view.setUint32(0x30c, 0xa0840400, true);
+  view.setUint32(0x310, 0xa0840fff, true);
+  return data;
+}
+
+const simos: Definition = {
+  name: 'SC8',
+  version: '1',
+  verification: { calOffset: 0x840000, expected: EPK },
+  parameters: [],
+};
+
+describe('checksum algorithms', () => {
+  it('computes the zlib CRC32 check value', () => {
+    expect(crc32(CHECK, [{ start: 0, end: CHECK.length }])).toBe(0xcbf43926);
+  });
+
+  it('computes the Simos CRC32 (0x04C11DB7, init 0, no final XOR) check value', () => {
+    expect(crc32Simos(CHECK, [{ start: 0, end: CHECK.length }])).toBe(0x89a1897f);
+  });
+
+  it('concatenates ranges in order', () => {
+    expect(crc32Simos(CHECK, [{ start: 0, end: 4 }, { start: 4, end: 9 }])).toBe(0x89a1897f);
+  });
+
+  it('sums bytes and words in either byte order, truncated to the stored size', () => {
+    const data = new Uint8Array([0x01, 0x02, 0xff, 0xfe, 0x80, 0x00]);
+    const all = [{ start: 0, end: data.length }];
+    expect(additiveSum(data, all, 1, 1, false)).toBe(0x80);
+    expect(additiveSum(data, all, 1, 2, false)).toBe(0x0280);
+    expect(additiveSum(data, all, 2, 2, false)).toBe((0x0201 + 0xfeff + 0x0080) & 0xffff);
+    expect(additiveSum(data, all, 2, 2, true)).toBe((0x0102 + 0xfffe + 0x8000) & 0xffff);
+    expect(additiveSum(data, all, 4, 4, true)).toBe(0x0102fffe);
+  });
+
+  it('ignores a trailing partial word', () => {
+    expect(additiveSum(new Uint8Array([1, 0, 2]), [{ start: 0, end: 3 }], 2, 2, false)).toBe(1);
+  });
+});
+
+describe('declared checksums', () => {
+  const data = () => {
+    const image = new Uint8Array(0x20);
+    for (let i = 0; i < 0x10; i++) image[i] = i + 1;
+    return image;
+  };
+  const definition = (checksum: Partial<ChecksumDefinition>): Definition => ({
+    name: 'TEST',
+    version: '1',
+    baseAddress: 0,
+    parameters: [],
+    checksums: [{ name: 'SUM', algorithm: 'sum16', ranges: [{ start: 0, end: 0x10 }], storage: 0x10, size: 2, ...checksum }],
+  });
+
+  it('writes a sum at its storage address', () => {
+    const image = data();
+    expect(fixChecksums(image, definition({ bigEndian: true }))).toMatchObject([{ status: 'fixed', calculated: 0x4048 }]);
+    expect([image[0x10], image[0x11]]).toEqual([0x40, 0x48]);
+  });
+
+  it('stores the complement so that data and checksum sum to zero', () => {
+    const image = data();
+    fixChecksums(image, definition({ complement: true }));
+    expect(additiveSum(image, [{ start: 0, end: 0x12 }], 2, 2, false)).toBe(0);
+  });
+
+  it('uses registered algorithms', () => {
+    registerChecksumAlgorithm('xor8', { calculate: (d, ranges) => ranges.reduce((x, r) => d.subarray(r.start, r.end).reduce((a, b) => a ^ b, x), 0) });
+    expect(verifyChecksums(data(), definition({ algorithm: 'xor8', size: 1 }))).toMatchObject([{ status: 'failed', calculated: 0x10 }]);
+  });
+
+  it('cannot verify a storage address outside the image', () => {
+    expect(verifyChecksums(data(), definition({ storage: 0x1f }))).toMatchObject([{ status: 'unverified', error: 'Storage address outside binary' }]);
+  });
+});
+
+describe('Simos CAL block CRC', () => {
+  it('reports, fixes and then accepts the CRC of the declared areas', () => {
+    const data = simosCal();
+    const expected = crc32Simos(data, [{ start: 0x400, end: 0x1000 }]);
+
+    expect(verifyChecksums(data, simos, 0x840000)).toMatchObject([{ status: 'failed', offset: 0x304, stored: 0, calculated: expected }]);
+    expect(fixChecksums(data, simos, 0x840000)).toMatchObject([{ status: 'fixed' }]);
+    expect(new DataView(data.buffer).getUint32(0x304, true)).toBe(expected);
+    expect(verifyChecksums(data, simos, 0x840000)).toMatchObject([{ status: 'ok' }]);
+  });
+
+  it('reports a CAL block it cannot locate instead of dropping it', () => {
+    const data = simosCal();
+    data.fill(0, 0, 0x30);
+    const before = data.slice();
+    expect(fixChecksums(data, simos, 0x840000)).toMatchObject([{ status: 'unverified', error: 'CAL block not found' }]);
+    expect(data).toEqual(before);
+  });
+
+  it('has no implicit checksum for DSG definitions', () => {
+    const dsg: Definition = { ...simos, verification: { calOffset: 0, expected: 'F45M' } };
+    expect(verifyChecksums(simosCal(), dsg)).toEqual([]);
+  });
+});
@@ -0,0 +1,328 @@
+import type { AddressMap, ChecksumDefinition, Definition, DefinitionVerification } from '../types';
+import { addressToOffset, detectBinaryMode, getAddressMap, isDsgEpk, logicalToPhysical, readString, scanForCalBlocks, stripEccBytes, writeEccBytes } from './binUtils';
+
+// Simos CAL block checksum header (relative to start of CAL block):
+// +0x00: u32 (unused)
+// +0x04: u32 LE stored CRC32
+// +0x08: u8 number of checksummed areas
+// +0x0C: u32 LE start/end address pairs (end inclusive), one pair per area
+const SIMOS_CHECKSUM_OFFSET = 0x300;
+const SIMOS_EPK_OFFSET = 8;
+const SIMOS_MAX_AREAS = 16;
+
+// TriCore segments 0x8 (cached) and 0xA (uncached) alias the same flash
+const SEGMENT_MASK = 0x0fffffff;
+
+export interface ChecksumRange {
+  start: number; // File offset (inclusive)
+  end: number;   // File offset (exclusive)
+}
+
+export type ChecksumStatus = 'ok' | 'fixed' | 'failed' | 'unverified';
+
+export interface ChecksumResult {
+  name: string;
+  algorithm: string;
+  offset: number;      // File offset where the checksum is stored (-1 if not located)
+  size: number;        // Stored checksum width in bytes
+  ranges: ChecksumRange[];
+  stored: number;
+  calculated: number;
+  status: ChecksumStatus;
+  error?: string;      // Why the checksum could not be evaluated (status 'unverified')
+}
+
+export interface ChecksumContext {
+  calOffset: number;
+  baseAddress: AddressMap;
+  bigEndian: boolean;
+  verification?: DefinitionVerification;
+}
+
+interface ChecksumLocation {
+  offset: number;
+  ranges: ChecksumRange[];
+  size: number;
+  bigEndian: boolean;
+}
+
+export interface ChecksumAlgorithm {
+  // Calculate the checksum over the given file ranges; result must fit in `size` bytes
+  calculate: (data: Uint8Array, ranges: ChecksumRange[], size: number, bigEndian: boolean) => number;
+  // Self-describing checksums read their ranges and storage location from the binary
+  locate?: (data: Uint8Array, checksum: ChecksumDefinition, context: ChecksumContext) => ChecksumLocation | string;
+}
+
+const algorithms = new Map<string, ChecksumAlgorithm>();
+
+/**
+ * Register a checksum algorithm under the key used by ChecksumDefinition.algorithm
+ */
+export function registerChecksumAlgorithm(name: string, algorithm: ChecksumAlgorithm): void {
+  algorithms.set(name, algorithm);
+}
+
+export function getChecksumAlgorithms(): string[] {
+  return [...algorithms.keys()];
+}
+
+function buildCrc32Table(polynomial: number, reflected: boolean): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = reflected ? i : i << 24;
+    for (let j = 0; j < 8; j++) {
+      if (reflected) {
+        c = (c & 1) ? (c >>> 1) ^ polynomial : c >>> 1;
+      } else {
+        c = (c & 0x80000000) ? (c << 1) ^ polynomial : c << 1;
+      }
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+}
+
+let crc32Table: Uint32Array | null = null;
+let crc32SimosTable: Uint32Array | null = null;
+
+/**
+ * Standard CRC32 (zlib): polynomial 0xEDB88320 reflected, init and final XOR 0xFFFFFFFF
+ */
+export function crc32(data: Uint8Array, ranges: ChecksumRange[]): number {
+  crc32Table ??= buildCrc32Table(0xedb88320, true);
+  let crc = 0xffffffff;
+  for (const range of ranges) {
+    for (let i = range.start; i < range.end; i++) {
+      crc = (crc >>> 8) ^ crc32Table[(crc ^ data[i]) & 0xff];
+    }
+  }
+  return (~crc) >>> 0;
+}
+
+/**
+ * CRC32 as used by Simos CAL blocks: polynomial 0x04C11DB7, not reflected,
+ * init 0, no final XOR. Ranges are concatenated in the given order.
+ */
+export function crc32Simos(data: Uint8Array, ranges: ChecksumRange[]): number {
+  crc32SimosTable ??= buildCrc32Table(0x04c11db7, false);
+  let crc = 0;
+  for (const range of ranges) {
+    for (let i = range.start; i < range.end; i++) {
+      crc = (crc << 8) ^ crc32SimosTable[((crc >>> 24) ^ data[i]) & 0xff];
+    }
+  }
+  return crc >>> 0;
+}
+
+/**
+ * Additive checksum over words of `wordSize` bytes, truncated to `size` bytes
+ */
+export function additiveSum(data: Uint8Array, ranges: ChecksumRange[], wordSize: number, size: number, bigEndian: boolean): number {
+  let sum = 0;
+  for (const range of ranges) {
+    for (let i = range.start; i + wordSize <= range.end; i += wordSize) {
+      sum = (sum + readUint(data, i, wordSize, bigEndian)) >>> 0;
+    }
+  }
+  return truncate(sum, size);
+}
+
+function truncate(value: number, size: number): number {
+  return size >= 4 ? value >>> 0 : value & ((1 << (size * 8)) - 1);
+}
+
+function readUint(data: Uint8Array, offset: number, size: number, bigEndian: boolean): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    const b = data[offset + (bigEndian ? i : size - 1 - i)];
+    value = (value * 256) + b;
+  }
+  return value >>> 0;
+}
+
+function writeUint(data: Uint8Array, offset: number, size: number, bigEndian: boolean, value: number): void {
+  for (let i = 0; i < size; i++) {
+    const shift = 8 * (bigEndian ? size - 1 - i : i);
+    data[offset + i] = (value >>> shift) & 0xff;
+  }
+}
+
+/**
+ * Get the file offset of the CAL block (0 for CAL-only bins, verification.calOffset for full bins,
+ * or wherever a scan finds a CAL header in other layouts)
+ * Returns null if the binary does not match the definition
+ */
+export function getCalBlockOffset(data: Uint8Array, verification: DefinitionVerification): number | null {
+  const result = detectBinaryMode(data, verification);
+  // Raw ECC dumps are checksummed on their stripped image (see evaluateAll)
+  if (result.mode === 'ecc' && result.valid) return null;
+  if (!result.valid) {
+    const candidate = scanForCalBlocks(data, verification).find(c => c.header);
+    return candidate ? candidate.calStart : null;
+  }
+  return result.mode === 'full' ? verification.calOffset : 0;
+}
+
+/**
+ * Locate the Simos CAL block CRC32 header and its checksummed areas
+ */
+function locateSimosCal(data: Uint8Array, _checksum: ChecksumDefinition, context: ChecksumContext): ChecksumLocation | string {
+  const { verification } = context;
+  if (!verification) return 'Definition has no verification block';
+
+  const calStart = getCalBlockOffset(data, verification);
+  if (calStart === null) return 'CAL block not found';
+
+  // Only Simos CAL blocks carry the EPK right after the "CAS" header (DSG bins don't)
+  const { expected, length = expected.length } = verification;
+  if (readString(data, calStart + SIMOS_EPK_OFFSET, length) !== expected) return 'Not a Simos CAL block';
+
+  const header = calStart + SIMOS_CHECKSUM_OFFSET;
+  if (header + 12 > data.length) return 'Checksum header outside binary';
+
+  const areaCount = data[header + 8];
+  if (areaCount === 0 || areaCount > SIMOS_MAX_AREAS) return `Implausible area count ${areaCount}`;
+  if (header + 12 + areaCount * 8 > data.length) return 'Checksum header outside binary';
+
+  // Range addresses are memory addresses; map them through the CAL block position
+  const ranges: ChecksumRange[] = [];
+  for (let i = 0; i < areaCount; i++) {
+    const startAddr = readUint(data, header + 12 + i * 8, 4, false);
+    const endAddr = readUint(data, header + 16 + i * 8, 4, false);
+    const start = (startAddr & SEGMENT_MASK) - verification.calOffset + calStart;
+    const end = (endAddr & SEGMENT_MASK) - verification.calOffset + calStart + 1;
+    if (start < 0 || end <= start || end > data.length) return `Area ${i} outside binary`;
+    ranges.push({ start, end });
+  }
+
+  return { offset: header + 4, ranges, size: 4, bigEndian: false };
+}
+
+registerChecksumAlgorithm('crc32', { calculate: (data, ranges) => crc32(data, ranges) });
+registerChecksumAlgorithm('crc32-simos', { calculate: (data, ranges) => crc32Simos(data, ranges) });
+registerChecksumAlgorithm('sum8', { calculate: (data, ranges, size) => additiveSum(data, ranges, 1, size, false) });
+registerChecksumAlgorithm('sum16', { calculate: (data, ranges, size, bigEndian) => additiveSum(data, ranges, 2, size, bigEndian) });
+registerChecksumAlgorithm('sum32', { calculate: (data, ranges, size, bigEndian) => additiveSum(data, ranges, 4, size, bigEndian) });
+registerChecksumAlgorithm('simos-cal', { calculate: (data, ranges) => crc32Simos(data, ranges), locate: locateSimosCal });
+
+/**
+ * Resolve the file location of a checksum declared with explicit ranges and storage address
+ */
+function locateDeclared(data: Uint8Array, checksum: ChecksumDefinition, context: ChecksumContext): ChecksumLocation | string {
+  if (checksum.storage === undefined) return 'No storage address';
+  if (!checksum.ranges || checksum.ranges.length === 0) return 'No ranges';
+
+  const size = checksum.size ?? 4;
+  const offset = addressToOffset(checksum.storage, context.calOffset, context.baseAddress);
+  if (offset < 0 || offset + size > data.length) return 'Storage address outside binary';
+
+  const ranges: ChecksumRange[] = [];
+  for (const range of checksum.ranges) {
+    const start = addressToOffset(range.start, context.calOffset, context.baseAddress);
+    // The exclusive end may lie just past its segment, so translate the last covered byte
+    const end = addressToOffset(range.end - 1, context.calOffset, context.baseAddress) + 1;
+    if (start < 0 || end <= start || end > data.length) {
+      return `Range 0x${range.start.toString(16)}-0x${range.end.toString(16)} outside binary`;
+    }
+    ranges.push({ start, end });
+  }
+
+  return { offset, ranges, size, bigEndian: checksum.bigEndian ?? context.bigEndian };
+}
+
+/**
+ * Checksums declared by the definition, or the Simos CAL block CRC32 by default
+ */
+export function getChecksumDefinitions(definition: Definition): ChecksumDefinition[] {
+  if (definition.checksums) return definition.checksums;
+  // Simos CAL blocks carry their CRC in the header; DSG bins have none
+  if (definition.verification && !isDsgEpk(definition.verification.expected)) return [{ name: 'CAL CRC32', algorithm: 'simos-cal' }];
+  return [];
+}
+
+function evaluate(data: Uint8Array, checksum: ChecksumDefinition, context: ChecksumContext, fix: boolean): ChecksumResult {
+  const result: ChecksumResult = {
+    name: checksum.name,
+    algorithm: checksum.algorithm,
+    offset: -1,
+    size: checksum.size ?? 4,
+    ranges: [],
+    stored: 0,
+    calculated: 0,
+    status: 'failed',
+  };
+
+  const algorithm = algorithms.get(checksum.algorithm);
+  if (!algorithm) {
+    result.error = `Unknown algorithm "${checksum.algorithm}"`;
+    result.status = 'unverified';
+    return result;
+  }
+
+  const location = algorithm.locate
+    ? algorithm.locate(data, checksum, context)
+    : locateDeclared(data, checksum, context);
+  if (typeof location === 'string') {
+    result.error = location;
+    result.status = 'unverified';
+    return result;
+  }
+
+  const { offset, ranges, size, bigEndian } = location;
+  let calculated = algorithm.calculate(data, ranges, size, bigEndian);
+  if (checksum.complement) {
+    calculated = truncate(-calculated, size);
+  }
+
+  result.offset = offset;
+  result.size = size;
+  result.ranges = ranges;
+  result.stored = readUint(data, offset, size, bigEndian);
+  result.calculated = calculated;
+
+  if (result.stored === calculated) {
+    result.status = 'ok';
+  } else if (fix) {
+    writeUint(data, offset, size, bigEndian, calculated);
+    result.status = 'fixed';
+  }
+  return result;
+}
+
+function getContext(definition: Definition, calOffset: number): ChecksumContext {
+  return {
+    calOffset,
+    baseAddress: getAddressMap(definition),
+    bigEndian: definition.bigEndian ?? false,
+    verification: definition.verification,
+  };
+}
+
+function evaluateAll(data: Uint8Array, definition: Definition, calOffset: number, fix: boolean, ecc: boolean): ChecksumResult[] {
+  const context = getContext(definition, calOffset);
+  // Raw ECC dumps: checksum the logical image, then copy fixed values back and regenerate their ECC
+  const image = ecc ? stripEccBytes(data) : data;
+  const results = getChecksumDefinitions(definition).map(c => evaluate(image, c, context, fix));
+  if (ecc) {
+    const writes = results.filter(r => r.status === 'fixed').flatMap(r =>
+      Array.from({ length: r.size }, (_, i) => ({ offset: logicalToPhysical(r.offset + i), value: image[r.offset + i] })));
+    writeEccBytes(data, writes);
+  }
+  return results;
+}
+
+/**
+ * Verify all checksums of a definition against a binary
+ * Offsets in the results of a raw ECC dump are logical (ECC bytes stripped)
+ */
+export function verifyChecksums(data: Uint8Array, definition: Definition, calOffset: number = 0, ecc: boolean = false): ChecksumResult[] {
+  return evaluateAll(data, definition, calOffset, false, ecc);
+}
+
+/**
+ * Recalculate and write all checksums of a definition in place
+ * Checksums are processed in order, so a later checksum may cover an earlier one
+ */
+export function fixChecksums(data: Uint8Array, definition: Definition, calOffset: number = 0, ecc: boolean = false): ChecksumResult[] {
+  return evaluateAll(data, definition, calOffset, true, ecc);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { Conversion } from '../types';
+import { compileFormula, findVerbalEntry, parseVerbalValue, toPhysical, toRaw, tokenizeFormula, type VerbalConversion } from './conversion';
+
+describe('formulas', () => {
+  it('tokenizes numbers, identifiers and operators', () => {
+    expect(tokenizeFormula('0x10 * X1 ** 2 + 1.5e-3')).toEqual(['0x10', '*', 'X1', '**', '2', '+', '1.5e-3']);
+  });
+
+  it('applies precedence, right-associative powers and functions', () => {
+    expect(compileFormula('1 + 2 * X')(3)).toBe(7);
+    expect(compileFormula('(1 + 2) * X')(3)).toBe(9);
+    expect(compileFormula('2 ^ 3 ^ 2')(0)).toBe(512);
+    expect(compileFormula('-X ^ 2')(3)).toBe(-9);
+    expect(compileFormula('max(X, 0x10) / sqrt(4)')(3)).toBe(8);
+    expect(compileFormula('X1 * 2')(4)).toBe(8);
+  });
+
+  it('rejects syntax errors', () => {
+    expect(() => compileFormula('X +')).toThrow(/Invalid formula "X \+"/);
+    expect(() => compileFormula('X # 2')).toThrow('unexpected "#"');
+    expect(() => compileFormula('foo(X)')).toThrow(/Invalid formula/);
+    expect(() => compileFormula('(X + 1')).toThrow(/Invalid formula/);
+  });
+
+  it('round-trips through an explicit inverse', () => {
+    const conversion: Conversion = { type: 'FORMULA', formula: 'X * 0.75 - 40', inverse: '(X + 40) / 0.75' };
+    expect(toRaw(toPhysical(120, conversion), conversion)).toBeCloseTo(120, 9);
+  });
+
+  it('solves for the raw value when there is no inverse', () => {
+    const conversion: Conversion = { type: 'FORMULA', formula: 'X * X / 100 + X' };
+    for (const raw of [0, 7, 250]) {
+      expect(toRaw(toPhysical(raw, conversion), conversion)).toBeCloseTo(raw, 6);
+    }
+  });
+
+  it('returns NaN when no raw value gives the physical value', () => {
+    expect(toRaw(-1, { type: 'FORMULA', formula: 'X * X' })).toBeNaN();
+  });
+});
+
+describe('RAT_FUNC', () => {
+  it('inverts a linear function', () => {
+    // RAW = (2*PHYS + 10) / 1
+    const conversion: Conversion = { type: 'RAT_FUNC', coeffs: [0, 2, 10, 0, 0, 1] };
+    expect(toPhysical(30, conversion)).toBe(10);
+    expect(toRaw(10, conversion)).toBe(30);
+  });
+
+  it('picks the root nearest the linear solution for a quadratic', () => {
+    // RAW = (PHYS² + 4*PHYS) / 1: PHYS = 2 and PHYS = -6 both give RAW 12
+    const conversion: Conversion = { type: 'RAT_FUNC', coeffs: [1, 4, 0, 0, 0, 1] };
+    expect(toPhysical(12, conversion)).toBeCloseTo(2, 9);
+    expect(toRaw(toPhysical(12, conversion), conversion)).toBeCloseTo(12, 9);
+  });
+
+  it('returns NaN when the equation has no solution', () => {
+    expect(toPhysical(-5, { type: 'RAT_FUNC', coeffs: [1, 0, 0, 0, 0, 1] })).toBeNaN();
+    expect(toPhysical(5, { type: 'RAT_FUNC', coeffs: [0, 0, 1, 0, 0, 1] })).toBeNaN();
+  });
+});
+
+describe('tables', () => {
+  const table = [{ raw: 0, phys: -40 }, { raw: 100, phys: 60 }, { raw: 200, phys: 80 }];
+
+  it('interpolates between points and clamps outside the table', () => {
+    const conversion: Conversion = { type: 'TAB_INTP', table };
+    expect(toPhysical(150, conversion)).toBe(70);
+    expect(toRaw(70, conversion)).toBe(150);
+    expect(toPhysical(-10, conversion)).toBe(-40);
+    expect(toPhysical(500, conversion)).toBe(80);
+  });
+
+  it('takes the nearest point without interpolation', () => {
+    const conversion: Conversion = { type: 'TAB_NOINTP', table };
+    expect(toPhysical(140, conversion)).toBe(60);
+    expect(toRaw(75, conversion)).toBe(200);
+  });
+});
+
+describe('TAB_VERB', () => {
+  const conversion: VerbalConversion = {
+    type: 'TAB_VERB',
+    entries: [{ raw: 0, label: 'Off' }, { raw: 1, label: 'On' }, { raw: 2, rawMax: 9, label: 'Fault' }],
+  };
+
+  it('finds states by value and by range', () => {
+    expect(findVerbalEntry(1, conversion)?.label).toBe('On');
+    expect(findVerbalEntry(5, conversion)?.label).toBe('Fault');
+    expect(findVerbalEntry(10, conversion)).toBeNull();
+  });
+
+  it('parses state names case-insensitively and raw numbers', () => {
+    expect(parseVerbalValue(' on ', conversion)).toBe(1);
+    expect(parseVerbalValue('FAULT', conversion)).toBe(2);
+    expect(parseVerbalValue('7', conversion)).toBe(7);
+    expect(parseVerbalValue('Standby', conversion)).toBeNaN();
+    expect(parseVerbalValue('', conversion)).toBeNaN();
+  });
+});
@@ -0,0 +1,292 @@
+import type { Conversion, ConversionTablePoint, VerbalTableEntry } from '../types';
+
+type Formula = (x: number) => number;
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  exp: Math.exp,
+  log: Math.log,
+  ln: Math.log,
+  log10: Math.log10,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+};
+
+const TOKEN_REGEX = /\s*(0x[0-9a-f]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|\*\*|[-+*/^(),])/giy;
+
+/**
+ * Split a conversion formula into numbers, identifiers, operators and parentheses
+ */
+export function tokenizeFormula(expression: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_REGEX.lastIndex = 0;
+  while (TOKEN_REGEX.lastIndex < expression.length) {
+    const start = TOKEN_REGEX.lastIndex;
+    const match = TOKEN_REGEX.exec(expression);
+    if (!match) {
+      if (!expression.slice(start).trim()) break;
+      throw new Error(`Invalid formula "${expression}": unexpected "${expression.slice(start).trim()[0]}"`);
+    }
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+/**
+ * Compile a conversion formula in X (A2L X1 is accepted too) into a function
+ * Supports + - * / ^ (or **), parentheses and common math functions; throws on syntax errors
+ */
+export function compileFormula(expression: string): Formula {
+  const tokens = tokenizeFormula(expression);
+
+  let pos = 0;
+  const fail = (message: string): never => {
+    throw new Error(`Invalid formula "${expression}": ${message}`);
+  };
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) fail(`expected "${token}"`);
+    pos++;
+  };
+
+  // expr := term (('+' | '-') term)*
+  const parseExpr = (): Formula => {
+    let left = parseTerm();
+    while (tokens[pos] === '+' || tokens[pos] === '-') {
+      const op = tokens[pos++];
+      const l = left;
+      const r = parseTerm();
+      left = op === '+' ? x => l(x) + r(x) : x => l(x) - r(x);
+    }
+    return left;
+  };
+
+  // term := unary (('*' | '/') unary)*
+  const parseTerm = (): Formula => {
+    let left = parseUnary();
+    while (tokens[pos] === '*' || tokens[pos] === '/') {
+      const op = tokens[pos++];
+      const l = left;
+      const r = parseUnary();
+      left = op === '*' ? x => l(x) * r(x) : x => l(x) / r(x);
+    }
+    return left;
+  };
+
+  // unary := ('-' | '+') unary | power
+  const parseUnary = (): Formula => {
+    if (tokens[pos] === '-') {
+      pos++;
+      const operand = parseUnary();
+      return x => -operand(x);
+    }
+    if (tokens[pos] === '+') {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary (('^' | '**') unary)?
+  const parsePower = (): Formula => {
+    const base = parsePrimary();
+    if (tokens[pos] === '^' || tokens[pos] === '**') {
+      pos++;
+      const exponent = parseUnary();
+      return x => Math.pow(base(x), exponent(x));
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Formula => {
+    const token = tokens[pos++];
+    if (token === undefined) return fail('unexpected end');
+
+    if (token === '(') {
+      const inner = parseExpr();
+      expect(')');
+      return inner;
+    }
+
+    if (/^(0x|\d|\.)/i.test(token)) {
+      const value = Number(token);
+      return () => value;
+    }
+
+    const name = token.toLowerCase();
+    if (name === 'x' || name === 'x1') return x => x;
+    if (name === 'pi') return () => Math.PI;
+
+    const fn = FUNCTIONS[name];
+    if (!fn) return fail(`unknown identifier "${token}"`);
+    expect('(');
+    const args: Formula[] = [parseExpr()];
+    while (tokens[pos] === ',') {
+      pos++;
+      args.push(parseExpr());
+    }
+    expect(')');
+    return x => fn(...args.map(arg => arg(x)));
+  };
+
+  const formula = parseExpr();
+  if (pos < tokens.length) fail(`unexpected "${tokens[pos]}"`);
+  return formula;
+}
+
+const formulaCache = new Map<string, Formula>();
+
+function getFormula(expression: string): Formula {
+  let formula = formulaCache.get(expression);
+  if (!formula) {
+    formula = compileFormula(expression);
+    formulaCache.set(expression, formula);
+  }
+  return formula;
+}
+
+/**
+ * Solve formula(x) = target numerically (secant method starting from a linear estimate)
+ */
+function solveFormula(formula: Formula, target: number): number {
+  const f0 = formula(0);
+  const f1 = formula(1);
+  let x0 = f1 !== f0 && Number.isFinite(f1 - f0) ? (target - f0) / (f1 - f0) : 0;
+  let x1 = x0 + 1;
+  let y0 = formula(x0) - target;
+  let y1 = formula(x1) - target;
+
+  for (let i = 0; i < 100; i++) {
+    if (Math.abs(y1) <= 1e-9 * Math.max(1, Math.abs(target))) return x1;
+    if (y1 === y0 || !Number.isFinite(y1)) break;
+    const x2 = x1 - y1 * (x1 - x0) / (y1 - y0);
+    x0 = x1; y0 = y1;
+    x1 = x2; y1 = formula(x1) - target;
+  }
+  return Math.abs(y1) <= 1e-6 * Math.max(1, Math.abs(target)) ? x1 : NaN;
+}
+
+/**
+ * Physical value of a rational function: the PHYS solving RAW = (a*PHYS² + b*PHYS + c) / (d*PHYS² + e*PHYS + f)
+ */
+function ratFuncToPhysical(raw: number, coeffs: number[]): number {
+  const [a, b, c, d, e, f] = coeffs;
+  // Rearranged: (a - RAW*d)*PHYS² + (b - RAW*e)*PHYS + (c - RAW*f) = 0
+  const qa = a - raw * d;
+  const qb = b - raw * e;
+  const qc = c - raw * f;
+
+  if (Math.abs(qa) < 1e-12) {
+    return Math.abs(qb) < 1e-12 ? NaN : -qc / qb;
+  }
+
+  const discriminant = qb * qb - 4 * qa * qc;
+  if (discriminant < 0) return NaN;
+  const root1 = (-qb + Math.sqrt(discriminant)) / (2 * qa);
+  const root2 = (-qb - Math.sqrt(discriminant)) / (2 * qa);
+
+  // Two solutions: pick the one closest to the linear (b, c, f only) solution
+  const linear = Math.abs(b) > 1e-12 ? (raw * f - c) / b : 0;
+  return Math.abs(root1 - linear) <= Math.abs(root2 - linear) ? root1 : root2;
+}
+
+function ratFuncToRaw(phys: number, coeffs: number[]): number {
+  const [a, b, c, d, e, f] = coeffs;
+  return (a * phys * phys + b * phys + c) / (d * phys * phys + e * phys + f);
+}
+
+/**
+ * Look up `value` in a table mapping `from` to `to`, interpolating linearly between points
+ * Values outside the table are clamped to the nearest end point
+ */
+function lookupTable(table: ConversionTablePoint[], value: number, from: 'raw' | 'phys', interpolate: boolean): number {
+  const to = from === 'raw' ? 'phys' : 'raw';
+  if (table.length === 0) return value;
+
+  let nearest = table[0];
+  for (let i = 0; i < table.length; i++) {
+    const p = table[i];
+    if (Math.abs(p[from] - value) < Math.abs(nearest[from] - value)) nearest = p;
+
+    const next = table[i + 1];
+    if (!interpolate || !next) continue;
+    const lo = Math.min(p[from], next[from]);
+    const hi = Math.max(p[from], next[from]);
+    if (value >= lo && value <= hi) {
+      if (hi === lo) return p[to];
+      return p[to] + (value - p[from]) * (next[to] - p[to]) / (next[from] - p[from]);
+    }
+  }
+  return nearest[to];
+}
+
+/**
+ * Convert a raw value to its physical value
+ */
+export function toPhysical(raw: number, conversion: Conversion): number {
+  switch (conversion.type) {
+    case 'RAT_FUNC': return ratFuncToPhysical(raw, conversion.coeffs);
+    case 'TAB_INTP': return lookupTable(conversion.table, raw, 'raw', true);
+    case 'TAB_NOINTP': return lookupTable(conversion.table, raw, 'raw', false);
+    case 'TAB_VERB': return raw;
+    case 'FORMULA': return getFormula(conversion.formula)(raw);
+  }
+}
+
+/**
+ * Convert a physical value back to its raw value
+ */
+export function toRaw(phys: number, conversion: Conversion): number {
+  switch (conversion.type) {
+    case 'RAT_FUNC': return ratFuncToRaw(phys, conversion.coeffs);
+    case 'TAB_INTP': return lookupTable(conversion.table, phys, 'phys', true);
+    case 'TAB_NOINTP': return lookupTable(conversion.table, phys, 'phys', false);
+    case 'TAB_VERB': return phys;
+    case 'FORMULA':
+      return conversion.inverse
+        ? getFormula(conversion.inverse)(phys)
+        : solveFormula(getFormula(conversion.formula), phys);
+  }
+}
+
+export type VerbalConversion = Extract<Conversion, { type: 'TAB_VERB' }>;
+
+/**
+ * Get the verbal table of a conversion, if it is one
+ */
+export function getVerbalConversion(conversion?: Conversion): VerbalConversion | null {
+  return conversion?.type === 'TAB_VERB' ? conversion : null;
+}
+
+/**
+ * Find the named state of a raw value, or null if it is not a defined state
+ */
+export function findVerbalEntry(raw: number, conversion: VerbalConversion): VerbalTableEntry | null {
+  return conversion.entries.find(e => e.rawMax !== undefined
+    ? raw >= e.raw && raw <= e.rawMax
+    : raw === e.raw) ?? null;
+}
+
+/**
+ * Parse a state name (case-insensitive) or raw number into a raw value
+ * Returns NaN if the input is neither
+ */
+export function parseVerbalValue(input: string, conversion: VerbalConversion): number {
+  const text = input.trim().toLowerCase();
+  const entry = conversion.entries.find(e => e.label.toLowerCase() === text);
+  if (entry) return entry.raw;
+  return text === '' ? NaN : Number(text);
+}
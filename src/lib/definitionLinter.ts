@@ -0,0 +1,164 @@
+import { DATA_TYPE_INFO } from '../types';
+import type { AxisDefinition, DataType, Definition, Parameter } from '../types';
+import { addressToOffset, axisByteLength, findSegment, getAddressMap, logicalToPhysical, storedAxes } from './binUtils';
+
+export type LintSeverity = 'error' | 'warning';
+export type LintCode = 'out-of-bounds' | 'overlap' | 'misaligned' | 'size-mismatch';
+
+export interface LintFinding {
+  severity: LintSeverity;
+  code: LintCode;
+  param: Parameter;
+  message: string;
+}
+
+interface Region {
+  param: Parameter;
+  kind: 'data' | 'x axis' | 'y axis';
+  start: number;  // Address of the first byte
+  end: number;    // Address after the last byte
+  dataType: DataType;
+}
+
+function hex(value: number): string {
+  return '0x' + value.toString(16).toUpperCase();
+}
+
+function regionLabel(kind: Region['kind']): string {
+  return kind === 'data' ? 'Data' : kind === 'x axis' ? 'X axis' : 'Y axis';
+}
+
+/**
+ * Regions of an axis: one for a stored axis, the input and index tables for a rescaled one
+ */
+function axisRegions(param: Parameter, axis: AxisDefinition | undefined, kind: 'x axis' | 'y axis'): Region[] {
+  return storedAxes(axis).map(stored => {
+    const start = stored.address! + (stored.dataOffset ?? 0);
+    return { param, kind, start, end: start + axisByteLength(stored), dataType: stored.dataType! };
+  });
+}
+
+/**
+ * Memory regions read by a parameter: its data and any axes stored in the binary
+ */
+function getRegions(param: Parameter): Region[] {
+  const count = param.type === 'ASCII' ? param.length ?? 1 : (param.rows || 1) * (param.cols || 1);
+  const start = param.address + (param.dataOffset ?? 0);
+  return [
+    { param, kind: 'data', start, end: start + count * DATA_TYPE_INFO[param.dataType].size, dataType: param.dataType },
+    ...axisRegions(param, param.xAxis, 'x axis'),
+    ...axisRegions(param, param.yAxis, 'y axis'),
+  ];
+}
+
+/**
+ * Check a definition against a binary for out-of-bounds addresses, overlapping parameters,
+ * misaligned word accesses and table sizes that disagree with their axes
+ */
+export function lintDefinition(data: Uint8Array, definition: Definition, calOffset: number = 0, ecc: boolean = false): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const baseAddress = getAddressMap(definition);
+  const regions: Region[] = [];
+
+  for (const param of definition.parameters) {
+    const paramRegions = getRegions(param);
+    regions.push(...paramRegions);
+
+    for (const region of paramRegions) {
+      const label = regionLabel(region.kind);
+
+      // Out of bounds: any byte of the region outside the file
+      const first = addressToOffset(region.start, calOffset, baseAddress);
+      const last = addressToOffset(region.end - 1, calOffset, baseAddress);
+      const lastInFile = ecc ? logicalToPhysical(last) : last;
+      if (typeof baseAddress !== 'number' && (!findSegment(region.start, baseAddress) || !findSegment(region.end - 1, baseAddress))) {
+        findings.push({
+          severity: 'error',
+          code: 'out-of-bounds',
+          param,
+          message: `${label} ${hex(region.start)}-${hex(region.end - 1)} is outside the definition's memory segments`,
+        });
+      } else if (first < 0 || lastInFile >= data.length) {
+        findings.push({
+          severity: 'error',
+          code: 'out-of-bounds',
+          param,
+          message: `${label} ${hex(region.start)}-${hex(region.end - 1)} maps to file offset ${first < 0 ? '-' + hex(-first) : hex(first)}, outside the ${hex(data.length)}-byte binary`,
+        });
+      }
+
+      // Misaligned: word accesses must be aligned to their size (at most 4 bytes)
+      const alignment = Math.min(DATA_TYPE_INFO[region.dataType].size, 4);
+      if (alignment > 1 && region.start % alignment !== 0) {
+        findings.push({
+          severity: 'warning',
+          code: 'misaligned',
+          param,
+          message: `${label} ${region.dataType} at ${hex(region.start)} is not ${alignment}-byte aligned`,
+        });
+      }
+    }
+
+    // Size mismatch: table dimensions vs axis points
+    if (param.type === 'CURVE' || param.type === 'MAP') {
+      const cols = param.cols || 1;
+      const rows = param.rows || 1;
+      if (param.xAxis && param.xAxis.points !== cols) {
+        findings.push({
+          severity: 'warning',
+          code: 'size-mismatch',
+          param,
+          message: `X axis has ${param.xAxis.points} points but the table has ${cols} columns`,
+        });
+      }
+      if (param.yAxis && param.yAxis.points !== rows) {
+        findings.push({
+          severity: 'warning',
+          code: 'size-mismatch',
+          param,
+          message: `Y axis has ${param.yAxis.points} points but the table has ${rows} rows`,
+        });
+      }
+    }
+  }
+
+  // Overlaps: sweep regions sorted by start address
+  regions.sort((a, b) => a.start - b.start || a.end - b.end);
+  const reported = new Set<string>();
+  let active: Region[] = [];
+
+  for (const region of regions) {
+    active = active.filter(r => r.end > region.start);
+    for (const other of active) {
+      const sameRange = region.start === other.start && region.end === other.end;
+      // Shared axes (COM_AXIS) and axes also exposed as their own parameter are read by several parameters
+      // (within one parameter only its two axes may share storage, not an axis and the table)
+      const sharedAxis = sameRange && (region.kind !== 'data' || other.kind !== 'data')
+        && (region.param !== other.param || (region.kind !== 'data' && other.kind !== 'data'));
+      // The input and index tables of a rescaled axis may be interleaved
+      const rescaleTables = region.param === other.param && region.kind === other.kind && region.kind !== 'data';
+      // Bit fields of the same word only overlap bitwise
+      const bitFields = region.kind === 'data' && other.kind === 'data'
+        && region.param.bitMask !== undefined && other.param.bitMask !== undefined;
+      if (sharedAxis || rescaleTables || bitFields) continue;
+
+      const key = [region.param.name, region.kind, other.param.name, other.kind].join('|');
+      if (reported.has(key)) continue;
+      reported.add(key);
+
+      const owner = other.param === region.param ? `its own ${other.kind}` : `${other.kind} of ${other.param.name}`;
+      findings.push({
+        // Identical ranges are duplicate entries, partial overlaps read the wrong bytes
+        severity: sameRange ? 'warning' : 'error',
+        code: 'overlap',
+        param: region.param,
+        message: sameRange
+          ? `${regionLabel(region.kind)} ${hex(region.start)}-${hex(region.end - 1)} duplicates ${owner}`
+          : `${regionLabel(region.kind)} ${hex(region.start)}-${hex(region.end - 1)} overlaps ${owner} (${hex(other.start)}-${hex(other.end - 1)})`,
+      });
+    }
+    active.push(region);
+  }
+
+  return findings;
+}
@@ -1,17 +1,24 @@
-import type { Definition, DefinitionVerification } from '../types';
-import { detectBinaryMode } from './binUtils';
+import type { BinaryMode, Definition, DefinitionVerification } from '../types';
+import { detectBinaryMode, isDsgEpk, scanForCalBlocks } from './binUtils';
+import { parseDefinition } from './definitionSchema';
+import { getLibraryDefinition, listLibraryDefinitions } from './library';
 
 export interface DefinitionIndexEntry {
   name: string;
   file: string;
-  verification: DefinitionVerification;
+  boxcode?: string;     // Hardware part number (e.g. "5G0906259P", "0D9300012L")
+  swVersion?: string;   // Software version (e.g. "X621", "4517")
+  ecuFamily?: string;   // ECU/TCU family (e.g. "Simos 18.1", "DQ250")
+  verification?: DefinitionVerification;  // Missing for library definitions without an EPK check (never auto-detected)
   paramCount: number;
+  patches?: string[];   // Patch categories available for this software (see patches/index.json)
+  libraryId?: number;   // Set for definitions from the local library; file is then the imported file name
 }
 
 let definitionIndex: DefinitionIndexEntry[] | null = null;
 
 /**
- * Load the definition index from the server
+ * Load the definition index from the server (bundled definitions only)
  */
 export async function loadDefinitionIndex(): Promise<DefinitionIndexEntry[]> {
   if (definitionIndex) return definitionIndex;
@@ -25,49 +32,116 @@ export async function loadDefinitionIndex(): Promise<DefinitionIndexEntry[]> {
   return definitionIndex!;
 }
 
+/**
+ * Index entries for the definitions in the local library
+ */
+async function loadLibraryIndex(): Promise<DefinitionIndexEntry[]> {
+  const entries = await listLibraryDefinitions();
+  return entries.map(entry => ({
+    name: entry.name,
+    file: entry.fileName,
+    ...(entry.definition.verification && { verification: entry.definition.verification }),
+    paramCount: entry.definition.parameters.length,
+    libraryId: entry.id,
+  }));
+}
+
+export interface DefinitionMatch {
+  entry: DefinitionIndexEntry;
+  mode: BinaryMode;
+  confidence: 'exact' | 'partial';
+  calStart: number; // File offset of the CAL block in CAL mode (0 unless found by scanning)
+  reason: string;   // Why the binary matched, for display
+}
+
+const hex = (n: number) => `0x${n.toString(16).toUpperCase()}`;
+
+/**
+ * Describe where the EPK was found
+ */
+function describeMatch(verification: DefinitionVerification, mode: BinaryMode, confidence: 'exact' | 'partial', calStart: number, header: boolean): string {
+  const { expected, calOffset } = verification;
+  if (isDsgEpk(expected)) {
+    return confidence === 'exact' ? `EPK ${expected} in the version info block` : `EPK ${expected} found outside the known version info blocks`;
+  }
+  if (confidence === 'partial') {
+    return header
+      ? `CAL header with EPK ${expected} at ${hex(calStart)}`
+      : `EPK ${expected} at ${hex(calStart + 8)} (no CAL header)`;
+  }
+  switch (mode) {
+    case 'full': return `EPK ${expected} at ${hex(calOffset + 8)} (full BIN)`;
+    case 'ecc': return `EPK ${expected} at ${hex(calOffset + 8)} in a raw ECC dump`;
+    default: return `EPK ${expected} at the start of the CAL block`;
+  }
+}
+
 /**
  * Find matching definitions for a binary file
+ * EPKs at their expected position are exact matches; EPKs found elsewhere
+ * in the file are partial matches with the CAL block position inferred from them
  * Returns all matches sorted by confidence
  */
-export async function findMatchingDefinitions(
-  binData: Uint8Array
-): Promise<{ entry: DefinitionIndexEntry; mode: 'full' | 'cal'; confidence: 'exact' | 'partial' }[]> {
-  const index = await loadDefinitionIndex();
-  const matches: { entry: DefinitionIndexEntry; mode: 'full' | 'cal'; confidence: 'exact' | 'partial' }[] = [];
+export async function findMatchingDefinitions(binData: Uint8Array): Promise<DefinitionMatch[]> {
+  const index = await getAllDefinitions();
+  const matches: DefinitionMatch[] = [];
 
   for (const entry of index) {
+    if (!entry.verification) continue;
     const result = detectBinaryMode(binData, entry.verification);
 
     if (result.valid) {
       matches.push({
         entry,
         mode: result.mode,
-        confidence: 'exact'
+        confidence: 'exact',
+        calStart: 0,
+        reason: describeMatch(entry.verification, result.mode, 'exact', 0, false)
+      });
+      continue;
+    }
+
+    const [candidate] = scanForCalBlocks(binData, entry.verification);
+    if (candidate) {
+      matches.push({
+        entry,
+        mode: 'cal',
+        confidence: 'partial',
+        calStart: candidate.calStart,
+        reason: describeMatch(entry.verification, 'cal', 'partial', candidate.calStart, candidate.header)
       });
     }
   }
 
-  // Sort by name for consistent ordering
-  matches.sort((a, b) => a.entry.name.localeCompare(b.entry.name));
+  // Exact matches first, then by name for consistent ordering
+  matches.sort((a, b) =>
+    (a.confidence === b.confidence ? 0 : a.confidence === 'exact' ? -1 : 1) ||
+    a.entry.name.localeCompare(b.entry.name)
+  );
 
   return matches;
 }
 
 /**
- * Load a specific definition by filename
+ * Load the definition of an index entry, from the server or the local library
  */
-export async function loadDefinition(filename: string): Promise<Definition> {
-  const response = await fetch(`./definitions/${filename}`);
+export async function loadDefinition(entry: DefinitionIndexEntry): Promise<Definition> {
+  if (entry.libraryId !== undefined) {
+    return (await getLibraryDefinition(entry.libraryId)).definition;
+  }
+
+  const response = await fetch(`./definitions/${entry.file}`);
   if (!response.ok) {
-    throw new Error(`Failed to load definition: ${filename}`);
+    throw new Error(`Failed to load definition: ${entry.file}`);
   }
 
-  return response.json();
+  return parseDefinition(await response.text());
 }
 
 /**
- * Get all available definitions (for manual selection)
+ * Get all available definitions, bundled and from the local library (for manual selection)
  */
 export async function getAllDefinitions(): Promise<DefinitionIndexEntry[]> {
-  return loadDefinitionIndex();
+  const [bundled, library] = await Promise.all([loadDefinitionIndex(), loadLibraryIndex()]);
+  return [...bundled, ...library];
 }
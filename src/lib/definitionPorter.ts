@@ -0,0 +1,377 @@
+/**
+ * Port a definition to another software version of the same ECU
+ *
+ * Every parameter's bytes (data and stored axes) are taken from the source BIN
+ * and searched for in the target BIN. Parameters whose bytes are found at exactly
+ * one place are relocated there; the shifts of those anchor the rest: candidates
+ * in line with the neighbouring shifts are accepted, and parameters whose values
+ * changed are placed between neighbours that moved by the same amount.
+ *
+ * Both images are searched as logical images (raw ECC dumps are stripped first).
+ */
+
+import { DATA_TYPE_INFO } from '../types';
+import type { AxisDefinition, BinaryMode, Definition, Parameter } from '../types';
+import { addressToOffset, axisByteLength, findDsgEpk, getAddressMap, isDsgEpk, isPrintableAscii, logicalToPhysical, offsetToAddress, readString, storedAxes, stripEccBytes } from './binUtils';
+
+const SIMOS_EPK_OFFSET = 8;
+
+// Short patterns are padded with the surrounding source bytes to this length
+const MIN_PATTERN_LENGTH = 16;
+// Bytes hashed per position of the target
+const KEY_LENGTH = 8;
+const HASH_BITS = 22;
+// More hits than this count as "everywhere" (filler, repeated defaults)
+const MAX_HITS = 8;
+// Axes stored this close to their data are expected to move with it
+const BLOCK_GAP = 64;
+
+// Scores of the ways a region can be located
+const SCORE_UNIQUE = 1;
+const SCORE_CANDIDATE = 0.8;     // One of several hits, in line with the neighbours
+const SCORE_COMMON = 0.6;        // Common pattern, present where the neighbours predict
+const SCORE_WITH_BLOCK = 0.5;    // Not found, moved with the other part of its block
+const SCORE_NEIGHBOURS = 0.3;    // Not found, placed between neighbours with equal shifts
+
+export type PortStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+export interface PortedParameter {
+  source: Parameter;
+  ported: Parameter | null;  // Relocated copy, null if the parameter needs manual review
+  status: PortStatus;
+  confidence: number;        // 0..1, lowest score of the parameter's regions
+  delta: number | null;      // Shift of the data in bytes
+  note: string;
+}
+
+export interface PortResult {
+  definition: Definition;
+  parameters: PortedParameter[];
+}
+
+export interface BinLayout {
+  mode: BinaryMode;
+  calOffset: number;
+}
+
+interface Region {
+  kind: 'data' | 'x axis' | 'y axis';
+  offset: number;  // Logical file offset in the source
+  length: number;
+}
+
+interface Resolution {
+  delta: number | null;
+  score: number;
+  hits: number;    // Occurrences found (MAX_HITS + 1 for "many")
+  note: string;
+}
+
+interface Anchor {
+  offset: number;
+  delta: number;
+}
+
+function hex(value: number): string {
+  return '0x' + value.toString(16).toUpperCase();
+}
+
+function hashAt(data: Uint8Array, offset: number): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < KEY_LENGTH; i++) {
+    h = Math.imul(h ^ data[offset + i], 0x01000193);
+  }
+  return h >>> (32 - HASH_BITS);
+}
+
+/**
+ * Hash chains over every position of the target image, for exact pattern search
+ */
+class PatternIndex {
+  private heads = new Int32Array(1 << HASH_BITS).fill(-1);
+  private next: Int32Array;
+
+  constructor(private data: Uint8Array) {
+    this.next = new Int32Array(Math.max(0, data.length - KEY_LENGTH + 1));
+    // Inserted backwards so that chains run in ascending offset order
+    for (let i = this.next.length - 1; i >= 0; i--) {
+      const h = hashAt(data, i);
+      this.next[i] = this.heads[h];
+      this.heads[h] = i;
+    }
+  }
+
+  matchesAt(pattern: Uint8Array, offset: number): boolean {
+    if (offset < 0 || offset + pattern.length > this.data.length) return false;
+    for (let i = 0; i < pattern.length; i++) {
+      if (this.data[offset + i] !== pattern[i]) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Offsets where the pattern occurs, at most `limit + 1` of them
+   * The chain is looked up by the pattern's most varied key, so that leading filler does not make it slow
+   */
+  find(pattern: Uint8Array, limit: number): number[] {
+    if (pattern.length < KEY_LENGTH) return [];
+    let keyOffset = 0;
+    let best = -1;
+    for (let i = 0; i + KEY_LENGTH <= pattern.length; i++) {
+      const distinct = new Set(pattern.subarray(i, i + KEY_LENGTH)).size;
+      if (distinct > best) {
+        best = distinct;
+        keyOffset = i;
+      }
+    }
+
+    const hits: number[] = [];
+    for (let pos = this.heads[hashAt(pattern, keyOffset)]; pos >= 0 && hits.length <= limit; pos = this.next[pos]) {
+      if (this.matchesAt(pattern, pos - keyOffset)) hits.push(pos - keyOffset);
+    }
+    return hits;
+  }
+}
+
+function axisRegions(axis: AxisDefinition | undefined, kind: 'x axis' | 'y axis', calOffset: number, baseAddress: ReturnType<typeof getAddressMap>): Region[] {
+  return storedAxes(axis).map(stored => ({
+    kind,
+    offset: addressToOffset(stored.address! + (stored.dataOffset ?? 0), calOffset, baseAddress),
+    length: axisByteLength(stored),
+  }));
+}
+
+/**
+ * Bytes of the source image read by a parameter: its data first, then stored axes
+ * (in `storedAxes` order, the input and index tables of a rescaled axis each get a region)
+ */
+function getRegions(param: Parameter, calOffset: number, baseAddress: ReturnType<typeof getAddressMap>): Region[] {
+  const size = DATA_TYPE_INFO[param.dataType].size;
+  const length = param.type === 'ASCII' ? param.length ?? 0
+    : param.type === 'VALUE' ? size
+    : (param.rows || 1) * (param.cols || 1) * size;
+  return [
+    {
+      kind: 'data',
+      offset: addressToOffset(param.address + (param.dataOffset ?? 0), calOffset, baseAddress),
+      length,
+    },
+    ...axisRegions(param.xAxis, 'x axis', calOffset, baseAddress),
+    ...axisRegions(param.yAxis, 'y axis', calOffset, baseAddress),
+  ];
+}
+
+/**
+ * Pattern for a region: its bytes, padded with the bytes around it when short
+ */
+function regionPattern(source: Uint8Array, region: Region): { pattern: Uint8Array; lead: number } {
+  const padding = Math.max(0, MIN_PATTERN_LENGTH - region.length);
+  const end = Math.min(source.length, region.offset + region.length + Math.ceil(padding / 2));
+  const start = Math.max(0, Math.min(region.offset - Math.floor(padding / 2), end - Math.max(MIN_PATTERN_LENGTH, region.length)));
+  return { pattern: source.subarray(start, end), lead: region.offset - start };
+}
+
+/**
+ * Shift predicted by the nearest anchors around an offset
+ * `bracketed` is set when the anchors on both sides moved by the same amount
+ */
+function predictDelta(anchors: Anchor[], offset: number): { delta: number; bracketed: boolean } | null {
+  let lo = 0;
+  let hi = anchors.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (anchors[mid].offset < offset) lo = mid + 1;
+    else hi = mid;
+  }
+  const before = anchors[lo - 1];
+  const after = anchors[lo];
+  if (before && after) {
+    if (before.delta === after.delta) return { delta: before.delta, bracketed: true };
+    return { delta: offset - before.offset <= after.offset - offset ? before.delta : after.delta, bracketed: false };
+  }
+  const nearest = before ?? after;
+  return nearest ? { delta: nearest.delta, bracketed: false } : null;
+}
+
+/**
+ * Read a string at a logical offset of a raw ECC dump
+ */
+function readEccString(data: Uint8Array, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    const physical = logicalToPhysical(offset + i);
+    if (physical >= data.length) return '';
+    text += String.fromCharCode(data[physical]);
+  }
+  return text;
+}
+
+/**
+ * Guess the layout of a target BIN from the CAL header position (Simos)
+ * Falls back to the source layout, e.g. for DSG bins which carry no header
+ */
+export function detectTargetLayout(definition: Definition, data: Uint8Array, sourceLayout: BinLayout): BinLayout {
+  const verification = definition.verification;
+  if (!verification || isDsgEpk(verification.expected)) return sourceLayout;
+
+  const defOffset = definition.offset ?? verification.calOffset;
+  if (readString(data, defOffset, 3) === 'CAS') return { mode: 'full', calOffset: 0 };
+  if (readString(data, 0, 3) === 'CAS') return { mode: 'cal', calOffset: defOffset };
+  if (readEccString(data, defOffset, 3) === 'CAS') return { mode: 'ecc', calOffset: 0 };
+  return sourceLayout;
+}
+
+function logicalImage(data: Uint8Array, layout: BinLayout): Uint8Array {
+  return layout.mode === 'ecc' ? stripEccBytes(data) : data;
+}
+
+/**
+ * Relocate a definition from a source BIN to a target BIN of another software version
+ * Only parameters that were located go into the new definition; the others are
+ * listed with status 'ambiguous' or 'unmatched' for manual review
+ */
+export function portDefinition(
+  definition: Definition,
+  sourceData: Uint8Array,
+  sourceLayout: BinLayout,
+  targetData: Uint8Array,
+  targetLayout: BinLayout,
+  name: string = definition.name + '_ported'
+): PortResult {
+  const source = logicalImage(sourceData, sourceLayout);
+  const target = logicalImage(targetData, targetLayout);
+  const baseAddress = getAddressMap(definition);
+  const index = new PatternIndex(target);
+
+  // Pass 1: search every region
+  const searched = definition.parameters.map(param => {
+    return getRegions(param, sourceLayout.calOffset, baseAddress).map(region => {
+      const valid = region.length > 0 && region.offset >= 0 && region.offset + region.length <= source.length;
+      const { pattern, lead } = valid ? regionPattern(source, region) : { pattern: new Uint8Array(0), lead: 0 };
+      const hits = valid ? index.find(pattern, MAX_HITS).map(offset => offset + lead) : [];
+      return { region, pattern, lead, valid, hits };
+    });
+  });
+
+  // Data found at exactly one place anchors its neighbourhood
+  const anchors: Anchor[] = [];
+  for (const regions of searched) {
+    const data = regions[0];
+    if (data.hits.length === 1) anchors.push({ offset: data.region.offset, delta: data.hits[0] - data.region.offset });
+  }
+  anchors.sort((a, b) => a.offset - b.offset);
+
+  // Pass 2: pick a shift for every region
+  const resolveRegion = (r: typeof searched[number][number]): Resolution => {
+    const { region, hits } = r;
+    if (!r.valid) return { delta: null, score: 0, hits: 0, note: `${region.kind} is outside the source BIN` };
+    if (hits.length === 1) return { delta: hits[0] - region.offset, score: SCORE_UNIQUE, hits: 1, note: '' };
+
+    const predicted = predictDelta(anchors, region.offset);
+    if (hits.length > 0) {
+      if (predicted && index.matchesAt(r.pattern, region.offset + predicted.delta - r.lead)) {
+        return {
+          delta: predicted.delta,
+          score: hits.length > MAX_HITS ? SCORE_COMMON : SCORE_CANDIDATE,
+          hits: hits.length,
+          note: `${region.kind} found at ${hits.length > MAX_HITS ? 'many places' : `${hits.length} places`}, picked the one in line with its neighbours`,
+        };
+      }
+      return { delta: null, score: 0, hits: hits.length, note: `${region.kind} found at ${hits.length > MAX_HITS ? 'many places' : `${hits.length} places`}` };
+    }
+    if (predicted?.bracketed) {
+      return { delta: predicted.delta, score: SCORE_NEIGHBOURS, hits: 0, note: `${region.kind} changed, placed between neighbours` };
+    }
+    return { delta: null, score: 0, hits: 0, note: `${region.kind} not found` };
+  };
+
+  const parameters: PortedParameter[] = definition.parameters.map((param, i) => {
+    const regions = searched[i];
+    const resolved = regions.map(resolveRegion);
+
+    // Data and axes stored next to each other move together: a part that was
+    // not found follows the part that was
+    const block = (a: number, b: number) => {
+      const ra = regions[a].region;
+      const rb = regions[b].region;
+      return ra.offset < rb.offset ? rb.offset - (ra.offset + ra.length) <= BLOCK_GAP : ra.offset - (rb.offset + rb.length) <= BLOCK_GAP;
+    };
+    for (let a = 0; a < resolved.length; a++) {
+      if (resolved[a].hits > 0 || resolved[a].score >= SCORE_WITH_BLOCK || !regions[a].valid) continue;
+      const partner = resolved.findIndex((r, b) => b !== a && r.score >= SCORE_CANDIDATE && block(a, b));
+      if (partner >= 0) {
+        resolved[a] = {
+          delta: resolved[partner].delta,
+          score: SCORE_WITH_BLOCK,
+          hits: 0,
+          note: `${regions[a].region.kind} changed, moved with the ${regions[partner].region.kind}`,
+        };
+      }
+    }
+
+    const notes = resolved.map(r => r.note).filter(Boolean);
+    const failed = resolved.find(r => r.delta === null);
+    if (failed) {
+      return {
+        source: param,
+        ported: null,
+        status: failed.hits > 0 ? 'ambiguous' : 'unmatched',
+        confidence: 0,
+        delta: resolved[0].delta,
+        note: notes.join('; '),
+      };
+    }
+
+    // Move the address fields by their region's shift
+    const relocate = (address: number, delta: number): number | null =>
+      offsetToAddress(addressToOffset(address, sourceLayout.calOffset, baseAddress) + delta, targetLayout.calOffset, baseAddress);
+
+    const ported: Parameter = structuredClone(param);
+    const address = relocate(param.address, resolved[0].delta!);
+    let outside = address === null;
+    if (address !== null) ported.address = address;
+    const axes = [...storedAxes(ported.xAxis), ...storedAxes(ported.yAxis)];
+    for (let r = 1; r < regions.length; r++) {
+      const axis = axes[r - 1];
+      const moved = relocate(axis.address!, resolved[r].delta!);
+      if (moved === null) outside = true;
+      else axis.address = moved;
+    }
+    if (outside) {
+      return { source: param, ported: null, status: 'unmatched', confidence: 0, delta: resolved[0].delta, note: 'New address is outside the memory segments' };
+    }
+
+    const delta = resolved[0].delta!;
+    return {
+      source: param,
+      ported,
+      status: 'matched',
+      confidence: Math.min(...resolved.map(r => r.score)),
+      delta,
+      note: notes.length > 0 ? notes.join('; ') : delta === 0 ? 'Unchanged address' : `Moved by ${delta < 0 ? '-' : '+'}${hex(Math.abs(delta))}`,
+    };
+  });
+
+  // Simos CAL blocks name their EPK; a DSG EPK is read where the source BIN has its own
+  let verification = definition.verification;
+  if (verification && isDsgEpk(verification.expected)) {
+    const match = findDsgEpk(source, verification.expected);
+    const expected = match ? readString(target, match.offset, verification.expected.length) : '';
+    const delimited = match !== null && (match.offset === 0 || /[\s_]/.test(String.fromCharCode(target[match.offset - 1])));
+    verification = delimited && isDsgEpk(expected) ? { ...verification, expected } : undefined;
+  } else if (verification) {
+    const defOffset = definition.offset ?? verification.calOffset;
+    const expected = readString(target, defOffset - targetLayout.calOffset + SIMOS_EPK_OFFSET, verification.expected.length);
+    verification = expected && isPrintableAscii(expected) ? { ...verification, expected } : undefined;
+  }
+
+  return {
+    definition: {
+      ...definition,
+      name,
+      verification,
+      parameters: parameters.flatMap(p => p.ported ? [p.ported] : []),
+    },
+    parameters,
+  };
+}
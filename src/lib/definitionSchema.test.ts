@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parseDefinition, validateDefinition } from './definitionSchema';
+
+function definition(fields: Record<string, unknown> = {}, parameter: Record<string, unknown> = {}) {
+  return {
+    name: 'TEST',
+    version: '1',
+    parameters: [{
+      name: 'VALUE',
+      address: 0x100,
+      type: 'VALUE',
+      dataType: 'UWORD',
+      unit: '',
+      min: 0,
+      max: 100,
+      factor: 1,
+      offset: 0,
+      categories: ['Test'],
+      ...parameter,
+    }],
+    ...fields,
+  };
+}
+
+describe('definition schema', () => {
+  it('accepts a valid definition', () => {
+    expect(validateDefinition(definition())).toEqual([]);
+  });
+
+  it('accepts a negative baseAddress from an XDF BASEOFFSET', () => {
+    expect(parseDefinition(JSON.stringify(definition({ baseAddress: -4096 }))).baseAddress).toBe(-4096);
+  });
+
+  it('reports missing and mistyped fields with their path', () => {
+    const { name: _name, ...unnamed } = definition();
+    expect(validateDefinition(unnamed)).toEqual(['name missing']);
+    expect(validateDefinition(definition({}, { address: '0x100' }))).toEqual(['parameters[0].address must be a number, got "0x100"']);
+    expect(validateDefinition(definition({}, { rows: 1.5 }))).toEqual(['parameters[0].rows must be an integer, got 1.5']);
+  });
+
+  it('rejects unknown enum values', () => {
+    expect(validateDefinition(definition({}, { dataType: 'UINT' }))[0]).toMatch(/^parameters\[0\]\.dataType must be one of .*got "UINT"$/);
+  });
+
+  it('rejects a bit mask wider than the data type', () => {
+    expect(validateDefinition(definition({}, { dataType: 'UBYTE', bitMask: 0x100 }))).toEqual(['parameters[0].bitMask does not fit in UBYTE']);
+  });
+
+  it('reports formula syntax errors', () => {
+    const errors = validateDefinition(definition({}, { conversion: { type: 'FORMULA', formula: 'X1 +' } }));
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^parameters\[0\]\.conversion\.formula /);
+  });
+
+  it('refuses files from a newer format version', () => {
+    expect(validateDefinition(definition({ formatVersion: 999 }))).toEqual([expect.stringMatching(/^formatVersion 999 is newer/)]);
+  });
+
+  it('throws on invalid JSON and lists the problems', () => {
+    expect(() => parseDefinition('{')).toThrow(/^Invalid JSON/);
+    expect(() => parseDefinition(JSON.stringify({ parameters: [] }))).toThrow('Invalid definition (2 problems):\nname missing\nversion missing');
+  });
+});
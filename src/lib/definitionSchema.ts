@@ -0,0 +1,385 @@
+/**
+ * Runtime validation of definition JSON files
+ *
+ * Checks the structure against the Definition types and the consistency of
+ * parameter types with their dimensions and axes. Every problem is reported
+ * with the path of the offending value, e.g. "parameters[412].xAxis.points missing".
+ */
+
+import { DATA_TYPE_INFO, DEFINITION_FORMAT_VERSION } from '../types';
+import type { Definition } from '../types';
+import { getChecksumAlgorithms } from './checksum';
+import { compileFormula } from './conversion';
+
+// Errors listed in the message of a rejected file
+const MAX_REPORTED = 10;
+
+type Json = Record<string, unknown>;
+
+const PARAMETER_TYPES = ['VALUE', 'CURVE', 'MAP', 'ASCII'];
+const AXIS_TYPES = ['STD_AXIS', 'COM_AXIS', 'FIX_AXIS', 'CURVE_AXIS', 'RES_AXIS'];
+const CONVERSION_TYPES = ['RAT_FUNC', 'TAB_INTP', 'TAB_NOINTP', 'TAB_VERB', 'FORMULA'];
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 20 ? value.slice(0, 20) + '…' : value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+/**
+ * Collects errors while walking a value; field checks return the value if it is valid
+ */
+class Validator {
+  readonly errors: string[] = [];
+
+  error(path: string, message: string): void {
+    this.errors.push(`${path} ${message}`);
+  }
+
+  private field(obj: Json, path: string, key: string, required: boolean): unknown {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) this.error(`${path}.${key}`.replace(/^\./, ''), 'missing');
+      return undefined;
+    }
+    return value;
+  }
+
+  string(obj: Json, path: string, key: string, required = true): string | undefined {
+    const value = this.field(obj, path, key, required);
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string') {
+      this.error(`${path}.${key}`.replace(/^\./, ''), `must be a string, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  number(obj: Json, path: string, key: string, required = true, { integer = false, min }: { integer?: boolean; min?: number } = {}): number | undefined {
+    const value = this.field(obj, path, key, required);
+    if (value === undefined) return undefined;
+    const at = `${path}.${key}`.replace(/^\./, '');
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.error(at, `must be a number, got ${describe(value)}`);
+      return undefined;
+    }
+    if (integer && !Number.isInteger(value)) {
+      this.error(at, `must be an integer, got ${value}`);
+      return undefined;
+    }
+    if (min !== undefined && value < min) {
+      this.error(at, `must be at least ${min}, got ${value}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  boolean(obj: Json, path: string, key: string): boolean | undefined {
+    const value = this.field(obj, path, key, false);
+    if (value === undefined) return undefined;
+    if (typeof value !== 'boolean') {
+      this.error(`${path}.${key}`.replace(/^\./, ''), `must be true or false, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  oneOf(obj: Json, path: string, key: string, options: string[], required = true): string | undefined {
+    const value = this.string(obj, path, key, required);
+    if (value !== undefined && !options.includes(value)) {
+      this.error(`${path}.${key}`.replace(/^\./, ''), `must be one of ${options.join(', ')}, got "${value}"`);
+      return undefined;
+    }
+    return value;
+  }
+
+  object(obj: Json, path: string, key: string, required = true): Json | undefined {
+    const value = this.field(obj, path, key, required);
+    if (value === undefined) return undefined;
+    if (!isObject(value)) {
+      this.error(`${path}.${key}`.replace(/^\./, ''), `must be an object, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  array(obj: Json, path: string, key: string, required = true): unknown[] | undefined {
+    const value = this.field(obj, path, key, required);
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+      this.error(`${path}.${key}`.replace(/^\./, ''), `must be an array, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * Elements of an array that are objects, with their paths
+   */
+  objects(obj: Json, path: string, key: string, required = true): [Json, string][] {
+    const items = this.array(obj, path, key, required) ?? [];
+    const result: [Json, string][] = [];
+    items.forEach((item, i) => {
+      const at = `${path}.${key}[${i}]`.replace(/^\./, '');
+      if (isObject(item)) result.push([item, at]);
+      else this.error(at, `must be an object, got ${describe(item)}`);
+    });
+    return result;
+  }
+}
+
+function validateConversion(v: Validator, conversion: Json, path: string) {
+  switch (v.oneOf(conversion, path, 'type', CONVERSION_TYPES)) {
+    case 'RAT_FUNC': {
+      const coeffs = v.array(conversion, path, 'coeffs');
+      if (coeffs && (coeffs.length !== 6 || coeffs.some(c => typeof c !== 'number'))) {
+        v.error(`${path}.coeffs`, 'must be 6 numbers');
+      }
+      break;
+    }
+    case 'TAB_INTP':
+    case 'TAB_NOINTP':
+      for (const [point, at] of v.objects(conversion, path, 'table')) {
+        v.number(point, at, 'raw');
+        v.number(point, at, 'phys');
+      }
+      break;
+    case 'TAB_VERB':
+      for (const [entry, at] of v.objects(conversion, path, 'entries')) {
+        v.number(entry, at, 'raw');
+        v.number(entry, at, 'rawMax', false);
+        v.string(entry, at, 'label');
+      }
+      v.string(conversion, path, 'defaultLabel', false);
+      break;
+    case 'FORMULA':
+      for (const key of ['formula', 'inverse']) {
+        const formula = v.string(conversion, path, key, key === 'formula');
+        if (formula === undefined) continue;
+        try {
+          compileFormula(formula);
+        } catch (err) {
+          v.error(`${path}.${key}`, err instanceof Error ? err.message : String(err));
+        }
+      }
+      break;
+  }
+}
+
+function validateAxis(v: Validator, axis: Json, path: string, expectedPoints: number | undefined) {
+  const type = v.oneOf(axis, path, 'type', AXIS_TYPES);
+  const points = v.number(axis, path, 'points', true, { integer: true, min: 1 });
+  v.number(axis, path, 'min');
+  v.number(axis, path, 'max');
+  v.string(axis, path, 'unit');
+  const address = v.number(axis, path, 'address', false, { integer: true, min: 0 });
+  const dataType = v.oneOf(axis, path, 'dataType', Object.keys(DATA_TYPE_INFO), false);
+  v.number(axis, path, 'factor', false);
+  v.number(axis, path, 'offset', false);
+  v.number(axis, path, 'dataOffset', false, { integer: true, min: 0 });
+  v.number(axis, path, 'stride', false, { integer: true, min: 1 });
+  const conversion = v.object(axis, path, 'conversion', false);
+  if (conversion) validateConversion(v, conversion, `${path}.conversion`);
+
+  const values = v.array(axis, path, 'values', false);
+  if (values && values.some(x => typeof x !== 'number' || !Number.isFinite(x))) {
+    v.error(`${path}.values`, 'must be numbers');
+  } else if (values && points !== undefined && values.length !== points) {
+    v.error(`${path}.values`, `has ${values.length} breakpoints but the axis has ${points} points`);
+  }
+  const rescale = v.object(axis, path, 'rescale', false);
+  if (rescale) {
+    v.string(rescale, `${path}.rescale`, 'name');
+    for (const key of ['input', 'index']) {
+      const mapping = v.object(rescale, `${path}.rescale`, key);
+      if (mapping) validateAxis(v, mapping, `${path}.rescale.${key}`, undefined);
+    }
+  }
+
+  if (type !== 'FIX_AXIS' && address !== undefined && dataType === undefined && axis.dataType === undefined) {
+    v.error(`${path}.dataType`, `missing (required for a ${type} with an address)`);
+  }
+  // A single point is a placeholder axis without breakpoints (shown as indices)
+  if (points !== undefined && expectedPoints !== undefined && points !== expectedPoints && points !== 1) {
+    v.error(`${path}.points`, `is ${points} but the table has ${expectedPoints}`);
+  }
+}
+
+function validateBitMask(v: Validator, obj: Json, path: string, dataType: string | undefined) {
+  const bitMask = v.number(obj, path, 'bitMask', false, { integer: true, min: 1 });
+  if (bitMask !== undefined && dataType && bitMask >= 2 ** (DATA_TYPE_INFO[dataType as keyof typeof DATA_TYPE_INFO].size * 8)) {
+    v.error(`${path}.bitMask`, `does not fit in ${dataType}`);
+  }
+}
+
+function validateParameter(v: Validator, param: Json, path: string) {
+  v.string(param, path, 'name');
+  v.string(param, path, 'description', false);
+  v.number(param, path, 'address', true, { integer: true, min: 0 });
+  const type = v.oneOf(param, path, 'type', PARAMETER_TYPES);
+  const dataType = v.oneOf(param, path, 'dataType', Object.keys(DATA_TYPE_INFO));
+  v.string(param, path, 'unit', false);
+  v.number(param, path, 'min');
+  v.number(param, path, 'max');
+  v.number(param, path, 'factor');
+  v.number(param, path, 'offset');
+  v.number(param, path, 'dataOffset', false, { integer: true, min: 0 });
+  v.boolean(param, path, 'columnDir');
+  v.string(param, path, 'customName', false);
+
+  const categories = v.array(param, path, 'categories');
+  categories?.forEach((c, i) => {
+    if (typeof c !== 'string') v.error(`${path}.categories[${i}]`, `must be a string, got ${describe(c)}`);
+  });
+
+  const conversion = v.object(param, path, 'conversion', false);
+  if (conversion) validateConversion(v, conversion, `${path}.conversion`);
+
+  validateBitMask(v, param, path, dataType);
+  for (const [bit, at] of v.objects(param, path, 'bits', false)) {
+    v.number(bit, at, 'bit', true, { integer: true, min: 0 });
+    v.string(bit, at, 'name');
+  }
+
+  // Dimensions and axes must match the parameter type
+  const rows = v.number(param, path, 'rows', false, { integer: true, min: 1 });
+  const cols = v.number(param, path, 'cols', false, { integer: true, min: 1 });
+  const length = v.number(param, path, 'length', false, { integer: true, min: 1 });
+  const xAxis = v.object(param, path, 'xAxis', false);
+  const yAxis = v.object(param, path, 'yAxis', false);
+
+  switch (type) {
+    case 'VALUE':
+      if ((rows ?? 1) !== 1 || (cols ?? 1) !== 1) v.error(path, `is a VALUE but has ${rows ?? 1}×${cols ?? 1} cells`);
+      break;
+    case 'ASCII':
+      if (length === undefined && param.length === undefined) v.error(`${path}.length`, 'missing (required for ASCII)');
+      if (dataType && dataType !== 'UBYTE') v.error(`${path}.dataType`, `must be UBYTE for ASCII, got "${dataType}"`);
+      break;
+    case 'CURVE':
+      if (cols === undefined && param.cols === undefined) v.error(`${path}.cols`, 'missing (required for CURVE)');
+      if ((rows ?? 1) !== 1) v.error(`${path}.rows`, `must be 1 for a CURVE, got ${rows}`);
+      if (yAxis) v.error(`${path}.yAxis`, 'not allowed for a CURVE');
+      break;
+    case 'MAP':
+      if (rows === undefined && param.rows === undefined) v.error(`${path}.rows`, 'missing (required for MAP)');
+      if (cols === undefined && param.cols === undefined) v.error(`${path}.cols`, 'missing (required for MAP)');
+      break;
+  }
+
+  if (xAxis) validateAxis(v, xAxis, `${path}.xAxis`, type === 'CURVE' || type === 'MAP' ? cols : undefined);
+  if (yAxis) validateAxis(v, yAxis, `${path}.yAxis`, type === 'MAP' ? rows : undefined);
+}
+
+function validateMeasurement(v: Validator, measurement: Json, path: string) {
+  v.string(measurement, path, 'name');
+  v.string(measurement, path, 'description', false);
+  v.number(measurement, path, 'address', true, { integer: true, min: 0 });
+  const dataType = v.oneOf(measurement, path, 'dataType', Object.keys(DATA_TYPE_INFO));
+  v.string(measurement, path, 'unit', false);
+  v.number(measurement, path, 'min');
+  v.number(measurement, path, 'max');
+  v.number(measurement, path, 'factor');
+  v.number(measurement, path, 'offset');
+
+  const conversion = v.object(measurement, path, 'conversion', false);
+  if (conversion) validateConversion(v, conversion, `${path}.conversion`);
+
+  validateBitMask(v, measurement, path, dataType);
+}
+
+/**
+ * Validate a parsed definition file
+ * Returns the list of problems, empty if the definition is valid
+ */
+export function validateDefinition(value: unknown): string[] {
+  const v = new Validator();
+  if (!isObject(value)) {
+    v.error('definition', `must be an object, got ${describe(value)}`);
+    return v.errors;
+  }
+
+  const formatVersion = v.number(value, '', 'formatVersion', false, { integer: true, min: 1 });
+  if (formatVersion !== undefined && formatVersion > DEFINITION_FORMAT_VERSION) {
+    // Newer files may mean something else by the same fields: don't guess
+    v.error('formatVersion', `${formatVersion} is newer than the supported version ${DEFINITION_FORMAT_VERSION}`);
+    return v.errors;
+  }
+
+  v.string(value, '', 'name');
+  v.string(value, '', 'version');
+  v.number(value, '', 'offset', false, { integer: true });
+  // Negative for XDF imports whose BASEOFFSET is added to the addresses
+  v.number(value, '', 'baseAddress', false, { integer: true });
+  v.boolean(value, '', 'bigEndian');
+
+  const verification = v.object(value, '', 'verification', false);
+  if (verification) {
+    v.number(verification, 'verification', 'calOffset', true, { integer: true });
+    v.string(verification, 'verification', 'expected');
+    v.number(verification, 'verification', 'length', false, { integer: true, min: 1 });
+  }
+
+  for (const [segment, at] of v.objects(value, '', 'segments', false)) {
+    v.string(segment, at, 'name');
+    v.number(segment, at, 'address', true, { integer: true, min: 0 });
+    v.number(segment, at, 'size', true, { integer: true, min: 1 });
+    v.number(segment, at, 'fileOffset', true, { integer: true, min: 0 });
+    v.array(segment, at, 'aliases', false)?.forEach((alias, i) => {
+      if (typeof alias !== 'number' || !Number.isInteger(alias)) v.error(`${at}.aliases[${i}]`, `must be an integer, got ${describe(alias)}`);
+    });
+  }
+
+  const algorithms = getChecksumAlgorithms();
+  for (const [checksum, at] of v.objects(value, '', 'checksums', false)) {
+    v.string(checksum, at, 'name');
+    v.oneOf(checksum, at, 'algorithm', algorithms);
+    for (const [range, rangeAt] of v.objects(checksum, at, 'ranges', false)) {
+      const start = v.number(range, rangeAt, 'start', true, { integer: true, min: 0 });
+      const end = v.number(range, rangeAt, 'end', true, { integer: true, min: 0 });
+      if (start !== undefined && end !== undefined && end <= start) v.error(`${rangeAt}.end`, `must be greater than start`);
+    }
+    v.number(checksum, at, 'storage', false, { integer: true, min: 0 });
+    const size = v.number(checksum, at, 'size', false, { integer: true });
+    if (size !== undefined && ![1, 2, 4].includes(size)) v.error(`${at}.size`, `must be 1, 2 or 4, got ${size}`);
+    v.boolean(checksum, at, 'bigEndian');
+    v.boolean(checksum, at, 'complement');
+  }
+
+  for (const [param, at] of v.objects(value, '', 'parameters')) {
+    validateParameter(v, param, at);
+  }
+
+  for (const [measurement, at] of v.objects(value, '', 'measurements', false)) {
+    validateMeasurement(v, measurement, at);
+  }
+
+  return v.errors;
+}
+
+/**
+ * Parse and validate the text of a definition file
+ * Throws an error listing the problems if the file is not a valid definition
+ */
+export function parseDefinition(text: string): Definition {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const errors = validateDefinition(value);
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_REPORTED).join('\n');
+    const more = errors.length > MAX_REPORTED ? `\n… and ${errors.length - MAX_REPORTED} more` : '';
+    throw new Error(`Invalid definition (${errors.length} problem${errors.length !== 1 ? 's' : ''}):\n${shown}${more}`);
+  }
+  return value as Definition;
+}
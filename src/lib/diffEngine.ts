@@ -0,0 +1,195 @@
+import { DATA_TYPE_INFO } from '../types';
+import type { AddressMap, AxisDefinition, Definition, Parameter } from '../types';
+import { addressToOffset, axisByteLength, getAddressMap, logicalToPhysical, readAxisData, readParameterString, readParameterValue, readTableData, storedAxes } from './binUtils';
+
+const TOLERANCE = 0.0001;
+
+export interface CellDiff {
+  row: number;
+  col: number;
+  original: number;
+  current: number;
+}
+
+export interface AxisDiff {
+  axis: 'x' | 'y';
+  original: number[];
+  current: number[];
+  changedIndices: number[];
+}
+
+export interface ParamDiff {
+  param: Parameter;
+  originalValue: number | number[][] | string;
+  currentValue: number | number[][] | string;
+  cellDiffs?: CellDiff[];
+  axisDiffs?: AxisDiff[];
+  xAxis?: number[];
+  yAxis?: number[];
+}
+
+export interface ByteRange {
+  start: number;  // File offset (inclusive)
+  end: number;    // File offset (exclusive)
+}
+
+interface IndexEntry extends ByteRange {
+  param: number;  // Index into definition.parameters
+}
+
+export interface ReadContext {
+  calOffset: number;
+  addressMap: AddressMap;
+  bigEndian: boolean;
+  ecc: boolean;
+}
+
+export function getReadContext(definition: Definition, calOffset: number, ecc: boolean): ReadContext {
+  return { calOffset, addressMap: getAddressMap(definition), bigEndian: definition.bigEndian ?? false, ecc };
+}
+
+/**
+ * Byte ranges where two buffers differ (bytes past the shorter buffer count as changed)
+ */
+export function diffRanges(a: Uint8Array, b: Uint8Array): ByteRange[] {
+  const ranges: ByteRange[] = [];
+  const length = Math.min(a.length, b.length);
+  let start = -1;
+
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      if (start < 0) start = i;
+    } else if (start >= 0) {
+      ranges.push({ start, end: i });
+      start = -1;
+    }
+  }
+  if (start >= 0) ranges.push({ start, end: length });
+  if (a.length !== b.length) ranges.push({ start: length, end: Math.max(a.length, b.length) });
+  return ranges;
+}
+
+/**
+ * File range of `size` bytes at an address (for raw ECC dumps, spanning the physical bytes)
+ */
+function fileRange(address: number, size: number, context: ReadContext): ByteRange | null {
+  const first = addressToOffset(address, context.calOffset, context.addressMap);
+  const last = addressToOffset(address + size - 1, context.calOffset, context.addressMap);
+  if (first < 0 || last < first) return null;
+  return context.ecc
+    ? { start: logicalToPhysical(first), end: logicalToPhysical(last) + 1 }
+    : { start: first, end: last + 1 };
+}
+
+/**
+ * Index of the file ranges read by each parameter (data and axes), sorted by start offset
+ */
+export function buildAddressIndex(definition: Definition, context: ReadContext): IndexEntry[] {
+  const index: IndexEntry[] = [];
+
+  definition.parameters.forEach((p, i) => {
+    const size = p.type === 'ASCII' ? p.length ?? 1 : (p.rows || 1) * (p.cols || 1) * DATA_TYPE_INFO[p.dataType].size;
+    const start = p.type === 'VALUE' || p.type === 'ASCII' ? p.address : p.address + (p.dataOffset ?? 0);
+    const data = fileRange(start, size, context);
+    if (data) index.push({ ...data, param: i });
+
+    for (const axis of [...storedAxes(p.xAxis), ...storedAxes(p.yAxis)]) {
+      const range = fileRange(axis.address! + (axis.dataOffset ?? 0), axisByteLength(axis), context);
+      if (range) index.push({ ...range, param: i });
+    }
+  });
+
+  return index.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Parameters whose data or axes overlap any of the (sorted) byte ranges
+ */
+export function findAffectedParameters(index: IndexEntry[], ranges: ByteRange[]): Set<number> {
+  const affected = new Set<number>();
+  if (ranges.length === 0) return affected;
+
+  for (const entry of index) {
+    // First range ending after the entry starts
+    let lo = 0;
+    let hi = ranges.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (ranges[mid].end <= entry.start) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo < ranges.length && ranges[lo].start < entry.end) affected.add(entry.param);
+  }
+
+  return affected;
+}
+
+function diffAxis(axis: 'x' | 'y', definition: AxisDefinition, original: Uint8Array, current: Uint8Array, context: ReadContext): AxisDiff | null {
+  const { calOffset, addressMap, bigEndian, ecc } = context;
+  const originalAxis = readAxisData(original, definition, calOffset, addressMap, bigEndian, ecc);
+  const currentAxis = readAxisData(current, definition, calOffset, addressMap, bigEndian, ecc);
+  const changedIndices: number[] = [];
+  for (let i = 0; i < originalAxis.length; i++) {
+    if (Math.abs(originalAxis[i] - currentAxis[i]) > TOLERANCE) {
+      changedIndices.push(i);
+    }
+  }
+  return changedIndices.length > 0 ? { axis, original: originalAxis, current: currentAxis, changedIndices } : null;
+}
+
+/**
+ * Compare one parameter between the original and current binary
+ * Returns null if its values (after conversion) are unchanged
+ */
+export function diffParameter(param: Parameter, original: Uint8Array, current: Uint8Array, context: ReadContext): ParamDiff | null {
+  const { calOffset, addressMap, bigEndian, ecc } = context;
+
+  if (param.type === 'ASCII') {
+    const originalValue = readParameterString(original, param, calOffset, addressMap, ecc);
+    const currentValue = readParameterString(current, param, calOffset, addressMap, ecc);
+    return originalValue !== currentValue ? { param, originalValue, currentValue } : null;
+  }
+
+  if (param.type === 'VALUE') {
+    const originalValue = readParameterValue(original, param, calOffset, addressMap, bigEndian, ecc);
+    const currentValue = readParameterValue(current, param, calOffset, addressMap, bigEndian, ecc);
+    return Math.abs(originalValue - currentValue) > TOLERANCE ? { param, originalValue, currentValue } : null;
+  }
+
+  const originalTable = readTableData(original, param, calOffset, addressMap, bigEndian, ecc);
+  const currentTable = readTableData(current, param, calOffset, addressMap, bigEndian, ecc);
+  const cellDiffs: CellDiff[] = [];
+
+  for (let r = 0; r < originalTable.length; r++) {
+    for (let c = 0; c < originalTable[r].length; c++) {
+      if (Math.abs(originalTable[r][c] - currentTable[r][c]) > TOLERANCE) {
+        cellDiffs.push({
+          row: r,
+          col: c,
+          original: originalTable[r][c],
+          current: currentTable[r][c],
+        });
+      }
+    }
+  }
+
+  // Check axis changes
+  const axisDiffs: AxisDiff[] = [];
+  const xDiff = storedAxes(param.xAxis).length > 0 ? diffAxis('x', param.xAxis!, original, current, context) : null;
+  const yDiff = storedAxes(param.yAxis).length > 0 ? diffAxis('y', param.yAxis!, original, current, context) : null;
+  if (xDiff) axisDiffs.push(xDiff);
+  if (yDiff) axisDiffs.push(yDiff);
+
+  if (cellDiffs.length === 0 && axisDiffs.length === 0) return null;
+
+  return {
+    param,
+    originalValue: originalTable,
+    currentValue: currentTable,
+    cellDiffs,
+    axisDiffs,
+    // Current axis data for display
+    xAxis: param.xAxis ? readAxisData(current, param.xAxis, calOffset, addressMap, bigEndian, ecc) : undefined,
+    yAxis: param.yAxis ? readAxisData(current, param.yAxis, calOffset, addressMap, bigEndian, ecc) : undefined,
+  };
+}
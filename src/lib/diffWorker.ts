@@ -0,0 +1,69 @@
+/**
+ * Background change detection
+ *
+ * Keeps copies of the original and the last seen BIN. Each update diffs the new
+ * copy against the previous one and only re-reads the parameters whose bytes changed.
+ */
+
+import type { Definition } from '../types';
+import { buildAddressIndex, diffParameter, diffRanges, findAffectedParameters, getReadContext, type ParamDiff, type ReadContext } from './diffEngine';
+
+export type DiffRequest =
+  | { type: 'init'; generation: number; definition: Definition; original: Uint8Array; current: Uint8Array; calOffset: number; ecc: boolean }
+  | { type: 'update'; generation: number; current: Uint8Array };
+
+// Parameters are referenced by index: objects sent back would be copies
+export type IndexedDiff = Omit<ParamDiff, 'param'> & { index: number };
+
+export interface DiffResponse {
+  generation: number;
+  diffs: IndexedDiff[];
+}
+
+interface State {
+  definition: Definition;
+  context: ReadContext;
+  index: ReturnType<typeof buildAddressIndex>;
+  original: Uint8Array;
+  current: Uint8Array;
+  diffs: Map<number, IndexedDiff>;
+}
+
+let state: State | null = null;
+
+function refresh(s: State, affected: Set<number>) {
+  for (const i of affected) {
+    const diff = diffParameter(s.definition.parameters[i], s.original, s.current, s.context);
+    if (diff) {
+      const { param: _, ...rest } = diff;
+      s.diffs.set(i, { ...rest, index: i });
+    } else {
+      s.diffs.delete(i);
+    }
+  }
+}
+
+self.onmessage = (e: MessageEvent<DiffRequest>) => {
+  const msg = e.data;
+
+  if (msg.type === 'init') {
+    const context = getReadContext(msg.definition, msg.calOffset, msg.ecc);
+    state = {
+      definition: msg.definition,
+      context,
+      index: buildAddressIndex(msg.definition, context),
+      original: msg.original,
+      current: msg.current,
+      diffs: new Map(),
+    };
+    refresh(state, findAffectedParameters(state.index, diffRanges(msg.original, msg.current)));
+  } else {
+    if (!state) return;
+    const ranges = diffRanges(state.current, msg.current);
+    state.current = msg.current;
+    refresh(state, findAffectedParameters(state.index, ranges));
+  }
+
+  const diffs = [...state.diffs.values()].sort((a, b) => a.index - b.index);
+  self.postMessage({ generation: msg.generation, diffs } satisfies DiffResponse);
+};
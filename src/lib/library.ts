@@ -0,0 +1,159 @@
+/**
+ * Local library of definitions and patches, stored in IndexedDB
+ *
+ * Keeps imported and converted definitions and custom .btp patches (with the
+ * XDF describing their parameters) across sessions, next to the bundled ones.
+ */
+
+import type { Definition } from '../types';
+
+const DB_NAME = 'tune-editor-library';
+const DB_VERSION = 1;
+
+export type LibraryStore = 'definitions' | 'patches';
+
+export interface LibraryDefinition {
+  id: number;
+  name: string;
+  fileName: string;       // File the definition was imported or converted from
+  added: number;          // Timestamp (ms)
+  definition: Definition;
+}
+
+export interface LibraryXdf {
+  fileName: string;
+  text: string;
+}
+
+export interface LibraryPatch {
+  id: number;
+  name: string;
+  fileName: string;
+  added: number;
+  data: Uint8Array;       // Raw .btp file
+  xdf?: LibraryXdf;       // XDF describing the patch parameters, merged into the definition when applied
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of ['definitions', 'patches'] as LibraryStore[]) {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open the library'));
+    });
+    // Allow a later retry if opening failed
+    database.catch(() => { database = null; });
+  }
+  return database;
+}
+
+/**
+ * Run a single request in a transaction and wait for the transaction to complete
+ */
+async function run<T>(store: LibraryStore, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error ?? new Error('Library request failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Library request aborted'));
+  });
+}
+
+/**
+ * List a library store, newest first
+ * Returns an empty list if IndexedDB is not available (e.g. private browsing)
+ */
+async function list<T extends { added: number }>(store: LibraryStore): Promise<T[]> {
+  try {
+    const entries = await run(store, 'readonly', s => s.getAll() as IDBRequest<T[]>);
+    return entries.sort((a, b) => b.added - a.added);
+  } catch (err) {
+    console.warn(`Local library unavailable: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+export function listLibraryDefinitions(): Promise<LibraryDefinition[]> {
+  return list<LibraryDefinition>('definitions');
+}
+
+export function listLibraryPatches(): Promise<LibraryPatch[]> {
+  return list<LibraryPatch>('patches');
+}
+
+export async function getLibraryDefinition(id: number): Promise<LibraryDefinition> {
+  const entry = await run('definitions', 'readonly', s => s.get(id) as IDBRequest<LibraryDefinition | undefined>);
+  if (!entry) throw new Error(`Definition ${id} is not in the local library`);
+  return entry;
+}
+
+/**
+ * Add a definition to the library, replacing the entry from the same file if there is one
+ * Returns the id of the entry
+ */
+export async function addLibraryDefinition(definition: Definition, fileName: string): Promise<number> {
+  const entry: Omit<LibraryDefinition, 'id'> = { name: definition.name, fileName, added: Date.now(), definition };
+  const entries = await run('definitions', 'readonly', s => s.getAll() as IDBRequest<LibraryDefinition[]>);
+  const existing = entries.find(e => e.fileName === fileName);
+  if (existing) {
+    await run('definitions', 'readwrite', s => s.put({ ...entry, id: existing.id }));
+    return existing.id;
+  }
+  return await run('definitions', 'readwrite', s => s.add(entry)) as number;
+}
+
+/**
+ * Add a .btp patch to the library
+ * Returns the id of the new entry
+ */
+export async function addLibraryPatch(data: Uint8Array, fileName: string, xdf?: LibraryXdf): Promise<number> {
+  const entry: Omit<LibraryPatch, 'id'> = {
+    name: fileName.replace(/\.btp$/i, '').replace(/_/g, ' '),
+    fileName,
+    added: Date.now(),
+    data,
+    ...(xdf && { xdf }),
+  };
+  return await run('patches', 'readwrite', s => s.add(entry)) as number;
+}
+
+/**
+ * Replace the XDF of a library patch (undefined removes it)
+ */
+export async function setLibraryPatchXdf(id: number, xdf: LibraryXdf | undefined): Promise<void> {
+  const patch = await run('patches', 'readonly', s => s.get(id) as IDBRequest<LibraryPatch | undefined>);
+  if (!patch) throw new Error(`Patch ${id} is not in the local library`);
+  const updated: LibraryPatch = { ...patch, xdf };
+  if (!xdf) delete updated.xdf;
+  await run('patches', 'readwrite', s => s.put(updated));
+}
+
+/**
+ * Rename a library entry; definitions get the new name inside the definition too
+ */
+export async function renameLibraryEntry(store: LibraryStore, id: number, name: string): Promise<void> {
+  const entry = await run(store, 'readonly', s => s.get(id) as IDBRequest<LibraryDefinition | LibraryPatch | undefined>);
+  if (!entry) throw new Error(`Entry ${id} is not in the local library`);
+  const renamed = 'definition' in entry
+    ? { ...entry, name, definition: { ...entry.definition, name } }
+    : { ...entry, name };
+  await run(store, 'readwrite', s => s.put(renamed));
+}
+
+export async function deleteLibraryEntry(store: LibraryStore, id: number): Promise<void> {
+  await run(store, 'readwrite', s => s.delete(id));
+}
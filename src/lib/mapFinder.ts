@@ -0,0 +1,340 @@
+/**
+ * Heuristic map finder for binaries without a definition
+ *
+ * Looks for strictly increasing axis runs followed by a data block, either
+ * behind Bosch/Continental style size headers (Kf: nx, ny, x axis, y axis, data;
+ * Kl: n, x axis, data) or without header. Data blocks are scored by how smooth
+ * they are: calibration tables change gradually between neighbouring cells.
+ *
+ * Offsets are logical file offsets (raw ECC dumps must be stripped first).
+ */
+
+import { DATA_TYPE_INFO } from '../types';
+import type { AxisDefinition, DataType, Parameter } from '../types';
+
+export const FOUND_MAPS_CATEGORY = 'Found maps';
+
+const MIN_POINTS = 3;
+const MAX_POINTS = 32;
+// Steps between neighbouring cells, relative to the value range, above which data looks random
+const MAX_ROUGHNESS = 0.35;
+const MIN_SCORE = 0.6;
+const MAX_RESULTS = 2000;
+
+export interface FoundMap {
+  param: Parameter;
+  offset: number;  // Logical file offset of the record
+  size: number;    // Record size in bytes
+  score: number;   // 0..1
+  layout: string;
+}
+
+export interface MapFinderOptions {
+  bigEndian?: boolean;
+  toAddress?: (offset: number) => number | null;  // Address of a file offset in the definition's address space
+}
+
+interface RecordLayout {
+  name: string;
+  header: DataType | null;  // Type of the point counts, null for records without size header
+  axis: DataType;
+}
+
+const RECORD_LAYOUTS: RecordLayout[] = [
+  { name: 'UBYTE counts, UBYTE axes', header: 'UBYTE', axis: 'UBYTE' },
+  { name: 'UBYTE counts, UWORD axes', header: 'UBYTE', axis: 'UWORD' },
+  { name: 'UWORD counts, UWORD axes', header: 'UWORD', axis: 'UWORD' },
+];
+
+// Data types tried for a data block of each element size
+const DATA_TYPES: Record<number, DataType[]> = {
+  1: ['UBYTE', 'SBYTE'],
+  2: ['UWORD', 'SWORD'],
+};
+
+interface Candidate {
+  offset: number;
+  size: number;
+  score: number;
+  layout: string;
+  type: 'CURVE' | 'MAP';
+  axisType: DataType;
+  dataType: DataType;
+  xOffset: number;     // Relative to the record start
+  yOffset: number;
+  dataOffset: number;
+  nx: number;
+  ny: number;
+}
+
+function hex(value: number): string {
+  return '0x' + value.toString(16).toUpperCase();
+}
+
+function typeRange(dataType: DataType): { min: number; max: number } {
+  const bits = DATA_TYPE_INFO[dataType].size * 8;
+  return DATA_TYPE_INFO[dataType].signed
+    ? { min: -(2 ** (bits - 1)), max: 2 ** (bits - 1) - 1 }
+    : { min: 0, max: 2 ** bits - 1 };
+}
+
+class Reader {
+  constructor(private data: Uint8Array, private bigEndian: boolean) {}
+
+  get length(): number {
+    return this.data.length;
+  }
+
+  read(offset: number, dataType: DataType): number {
+    const d = this.data;
+    switch (dataType) {
+      case 'UBYTE': return d[offset];
+      case 'SBYTE': return (d[offset] << 24) >> 24;
+      case 'UWORD': return this.bigEndian ? (d[offset] << 8) | d[offset + 1] : d[offset] | (d[offset + 1] << 8);
+      case 'SWORD': return (this.read(offset, 'UWORD') << 16) >> 16;
+      default: return 0;
+    }
+  }
+
+  /**
+   * Length of the strictly increasing run of values starting at an offset (at most MAX_POINTS + 1)
+   */
+  increasingRun(offset: number, dataType: DataType): number {
+    const size = DATA_TYPE_INFO[dataType].size;
+    if (offset + size > this.data.length) return 0;
+    let count = 1;
+    let prev = this.read(offset, dataType);
+    for (let o = offset + size; o + size <= this.data.length && count <= MAX_POINTS; o += size) {
+      const value = this.read(o, dataType);
+      if (value <= prev) break;
+      prev = value;
+      count++;
+    }
+    return count;
+  }
+}
+
+/**
+ * How axis-like a run of points is: rules out counters (0, 1, 2, ...) and tiny spans
+ */
+function axisQuality(reader: Reader, offset: number, points: number, dataType: DataType): number {
+  const size = DATA_TYPE_INFO[dataType].size;
+  const first = reader.read(offset, dataType);
+  const last = reader.read(offset + (points - 1) * size, dataType);
+  if (last - first <= points - 1) return 0.3;
+  return points >= 4 ? 1 : 0.8;
+}
+
+/**
+ * Smoothness of a data block (1 = neighbouring cells equal, 0 = noise)
+ * Both the mean and the largest step count: a value read with the wrong
+ * signedness wraps around and shows up as a single jump over the whole range
+ * Returns null for constant blocks and noise
+ */
+function dataSmoothness(reader: Reader, offset: number, rows: number, cols: number, dataType: DataType): number | null {
+  const size = DATA_TYPE_INFO[dataType].size;
+  const values: number[] = [];
+  for (let i = 0; i < rows * cols; i++) values.push(reader.read(offset + i * size, dataType));
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const range = max - min;
+  if (range === 0) return null;
+
+  let sum = 0;
+  let largest = 0;
+  let pairs = 0;
+  const step = (a: number, b: number) => {
+    const d = Math.abs(a - b);
+    sum += d;
+    if (d > largest) largest = d;
+    pairs++;
+  };
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const v = values[r * cols + c];
+      if (c + 1 < cols) step(values[r * cols + c + 1], v);
+      if (r + 1 < rows) step(values[(r + 1) * cols + c], v);
+    }
+  }
+  const roughness = (sum / pairs + largest) / (2 * range);
+  return roughness > MAX_ROUGHNESS ? null : 1 - roughness / MAX_ROUGHNESS / 2;
+}
+
+/**
+ * Best data type interpretation of a data block
+ */
+function scoreData(reader: Reader, offset: number, rows: number, cols: number, sizes: number[]): { dataType: DataType; score: number } | null {
+  let best: { dataType: DataType; score: number } | null = null;
+  for (const size of sizes) {
+    if (offset + rows * cols * size > reader.length) continue;
+    for (const dataType of DATA_TYPES[size]) {
+      const score = dataSmoothness(reader, offset, rows, cols, dataType);
+      if (score !== null && (!best || score > best.score)) best = { dataType, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Score a record with known axis positions and point counts
+ */
+function evaluate(reader: Reader, layout: RecordLayout, offset: number, xOffset: number, nx: number, ny: number): Candidate | null {
+  const axisSize = DATA_TYPE_INFO[layout.axis].size;
+  const isMap = ny > 0;
+  const yOffset = xOffset + nx * axisSize;
+  const dataOffset = yOffset + (isMap ? ny * axisSize : 0);
+
+  // Data usually has the axis element size; byte data behind word axes is common too
+  const data = scoreData(reader, offset + dataOffset, isMap ? ny : 1, nx, axisSize === 2 ? [2, 1] : [1, 2]);
+  if (!data) return null;
+
+  let axisScore = axisQuality(reader, offset + xOffset, nx, layout.axis);
+  if (isMap) axisScore = Math.min(axisScore, axisQuality(reader, offset + yOffset, ny, layout.axis));
+
+  const cells = nx * (isMap ? ny : 1);
+  const score = 0.5 * data.score + 0.3 * axisScore + (layout.header ? 0.15 : 0) + 0.05 * Math.min(1, cells / 64);
+  if (score < MIN_SCORE) return null;
+
+  return {
+    offset,
+    size: dataOffset + cells * DATA_TYPE_INFO[data.dataType].size,
+    score,
+    layout: layout.header ? layout.name : `${layout.axis} axes, no header`,
+    type: isMap ? 'MAP' : 'CURVE',
+    axisType: layout.axis,
+    dataType: data.dataType,
+    xOffset,
+    yOffset,
+    dataOffset,
+    nx,
+    ny: Math.max(1, ny),
+  };
+}
+
+function validCount(n: number): boolean {
+  return n >= MIN_POINTS && n <= MAX_POINTS;
+}
+
+/**
+ * Records with size headers: Kf (nx, ny, x, y, data) and Kl (n, x, data)
+ */
+function scanHeaderRecords(reader: Reader, layout: RecordLayout, found: Candidate[]) {
+  const header = layout.header!;
+  const headerSize = DATA_TYPE_INFO[header].size;
+  const axisSize = DATA_TYPE_INFO[layout.axis].size;
+  const align = Math.max(headerSize, axisSize);
+
+  for (let offset = 0; offset + 2 * headerSize < reader.length; offset += align) {
+    const nx = reader.read(offset, header);
+    if (!validCount(nx)) continue;
+
+    // Kl: count, then axis
+    if (reader.increasingRun(offset + headerSize, layout.axis) >= nx) {
+      const curve = evaluate(reader, layout, offset, headerSize, nx, 0);
+      if (curve) found.push(curve);
+    }
+
+    // Kf: both counts, then both axes (the axis starts aligned behind the counts)
+    const ny = reader.read(offset + headerSize, header);
+    if (!validCount(ny)) continue;
+    const xOffset = Math.ceil((2 * headerSize) / axisSize) * axisSize;
+    if (reader.increasingRun(offset + xOffset, layout.axis) < nx) continue;
+    if (reader.increasingRun(offset + xOffset + nx * axisSize, layout.axis) < ny) continue;
+    const map = evaluate(reader, layout, offset, xOffset, nx, ny);
+    if (map) found.push(map);
+  }
+}
+
+/**
+ * Records without header: maximal increasing runs taken as axes, the data following them
+ * The y axis run may continue into the data, so every shorter split is tried as well
+ */
+function scanAxisRuns(reader: Reader, axis: DataType, found: Candidate[]) {
+  const layout: RecordLayout = { name: '', header: null, axis };
+  const size = DATA_TYPE_INFO[axis].size;
+
+  for (let offset = 0; offset + size < reader.length;) {
+    const nx = reader.increasingRun(offset, axis);
+    if (!validCount(nx)) {
+      offset += Math.max(1, nx - 1) * size;
+      continue;
+    }
+
+    const yStart = offset + nx * size;
+    const yRun = Math.min(reader.increasingRun(yStart, axis), MAX_POINTS);
+    let best: Candidate | null = null;
+    for (let ny = MIN_POINTS; ny <= yRun; ny++) {
+      const map = evaluate(reader, layout, offset, 0, nx, ny);
+      if (map && (!best || map.score > best.score)) best = map;
+    }
+    if (best) found.push(best);
+    const curve = evaluate(reader, layout, offset, 0, nx, 0);
+    if (curve) found.push(curve);
+    offset = yStart;
+  }
+}
+
+function toParameter(candidate: Candidate, address: number): Parameter {
+  const { type, nx, ny, axisType, dataType } = candidate;
+  const axis = (points: number, axisOffset: number): AxisDefinition => ({
+    type: 'STD_AXIS',
+    points,
+    ...typeRange(axisType),
+    unit: '',
+    address,
+    dataType: axisType,
+    factor: 1,
+    offset: 0,
+    dataOffset: axisOffset,
+  });
+
+  return {
+    name: `${type}_${hex(candidate.offset)}`,
+    description: `${type === 'MAP' ? `${ny}×${nx} map` : `${nx}-point curve`} (${candidate.layout}, score ${Math.round(candidate.score * 100)}%)`,
+    address,
+    type,
+    dataType,
+    unit: '',
+    ...typeRange(dataType),
+    factor: 1,
+    offset: 0,
+    rows: ny,
+    cols: nx,
+    dataOffset: candidate.dataOffset,
+    xAxis: axis(nx, candidate.xOffset),
+    ...(type === 'MAP' ? { yAxis: axis(ny, candidate.yOffset) } : {}),
+    categories: [FOUND_MAPS_CATEGORY, type === 'MAP' ? 'Maps' : 'Curves'],
+  };
+}
+
+/**
+ * Scan a binary for likely tables
+ * Overlapping candidates are resolved in favour of the higher score; results are sorted by offset
+ */
+export function findMaps(data: Uint8Array, options: MapFinderOptions = {}): FoundMap[] {
+  const reader = new Reader(data, options.bigEndian ?? false);
+  const candidates: Candidate[] = [];
+  for (const layout of RECORD_LAYOUTS) scanHeaderRecords(reader, layout, candidates);
+  scanAxisRuns(reader, 'UBYTE', candidates);
+  scanAxisRuns(reader, 'UWORD', candidates);
+
+  candidates.sort((a, b) => b.score - a.score || b.size - a.size);
+  const used = new Uint8Array(data.length);
+  const accepted: FoundMap[] = [];
+  for (const c of candidates) {
+    if (accepted.length >= MAX_RESULTS) break;
+    if (used.subarray(c.offset, c.offset + c.size).some(b => b !== 0)) continue;
+
+    const address = options.toAddress ? options.toAddress(c.offset) : c.offset;
+    if (address === null) continue;
+    used.fill(1, c.offset, c.offset + c.size);
+    accepted.push({ param: toParameter(c, address), offset: c.offset, size: c.size, score: c.score, layout: c.layout });
+  }
+
+  return accepted.sort((a, b) => a.offset - b.offset);
+}
@@ -0,0 +1,27 @@
+/**
+ * Background map finder
+ *
+ * Scanning a full flash image takes seconds, so it runs off the UI thread. File offsets
+ * are turned into addresses here: the address map is sent instead of a function.
+ */
+
+import type { AddressMap } from '../types';
+import { offsetToAddress } from './binUtils';
+import { findMaps, type FoundMap } from './mapFinder';
+
+export interface MapFinderRequest {
+  data: Uint8Array;  // Logical image (ECC bytes stripped)
+  bigEndian: boolean;
+  calOffset: number;
+  addressMap: AddressMap;
+}
+
+export interface MapFinderResponse {
+  found: FoundMap[];
+}
+
+self.onmessage = (e: MessageEvent<MapFinderRequest>) => {
+  const { data, bigEndian, calOffset, addressMap } = e.data;
+  const found = findMaps(data, { bigEndian, toAddress: o => offsetToAddress(o, calOffset, addressMap) });
+  self.postMessage({ found } satisfies MapFinderResponse);
+};
@@ -9,6 +9,9 @@
  * S7/S8/S9 - End records
  */
 
+import type { MemorySegment } from '../types';
+import { addressToOffset } from './binUtils';
+
 interface Chunk {
   address: number;
   data: number[];
@@ -44,7 +47,7 @@ function parseS19(content: string): Chunk[] {
 
     // Data starts after address, ends before checksum (1 byte)
     const dataStart = 4 + addrSize * 2;
-    const dataEnd = 2 + byteCount * 2 - 2; // -2 for checksum
+    const dataEnd = 4 + byteCount * 2 - 2; // Byte count covers address, data and checksum (1 byte)
     const dataHex = trimmed.substring(dataStart, dataEnd);
 
     const data: number[] = [];
@@ -73,14 +76,10 @@ function normalizeAddress(addr: number): number {
 }
 
 /**
- * Convert S19 content to Uint8Array binary
+ * Flatten chunks into one contiguous buffer from the lowest to the highest address
+ * Used when no memory segments are known; assumes TriCore aliasing
  */
-export function s19ToBinary(content: string): Uint8Array {
-  const chunks = parseS19(content);
-  if (chunks.length === 0) {
-    throw new Error('No data records found in S19 file');
-  }
-
+function flattenChunks(chunks: Chunk[]): Uint8Array {
   // Normalize addresses (handle TriCore aliasing)
   const normalizedChunks = chunks.map(chunk => ({
     address: normalizeAddress(chunk.address),
@@ -119,6 +118,56 @@ export function s19ToBinary(content: string): Uint8Array {
   return buffer;
 }
 
+/**
+ * Place chunks at their segments' positions in a full image
+ * Gaps stay erased (0xFF); data outside every segment is dropped
+ */
+function layoutChunks(chunks: Chunk[], segments: MemorySegment[]): Uint8Array {
+  let size = 0;
+  for (const segment of segments) {
+    size = Math.max(size, segment.fileOffset + segment.size);
+  }
+
+  const buffer = new Uint8Array(size);
+  buffer.fill(0xFF);
+
+  let dropped = 0;
+  for (const chunk of chunks) {
+    // Records normally lie within one segment: copy them in one go
+    const start = addressToOffset(chunk.address, 0, segments);
+    const last = addressToOffset(chunk.address + chunk.data.length - 1, 0, segments);
+    if (start >= 0 && last === start + chunk.data.length - 1) {
+      buffer.set(chunk.data, start);
+      continue;
+    }
+    for (let i = 0; i < chunk.data.length; i++) {
+      const offset = addressToOffset(chunk.address + i, 0, segments);
+      if (offset < 0) {
+        dropped++;
+        continue;
+      }
+      buffer[offset] = chunk.data[i];
+    }
+  }
+  if (dropped > 0) {
+    console.warn(`${dropped} bytes outside the memory segments were skipped`);
+  }
+
+  return buffer;
+}
+
+/**
+ * Convert S19 content to Uint8Array binary
+ * With memory segments the image is laid out like a full bin, otherwise the records are flattened
+ */
+export function s19ToBinary(content: string, segments?: MemorySegment[]): Uint8Array {
+  const chunks = parseS19(content);
+  if (chunks.length === 0) {
+    throw new Error('No data records found in S19 file');
+  }
+  return segments?.length ? layoutChunks(chunks, segments) : flattenChunks(chunks);
+}
+
 /**
  * Check if filename is an S19 file
  */
@@ -138,17 +187,12 @@ export function isS19File(filename: string): boolean {
  * CC - Checksum
  */
 
-interface HexChunk {
-  address: number;
-  data: number[];
-}
-
 /**
  * Parse Intel HEX content into address/data chunks
  */
-function parseHex(content: string): HexChunk[] {
+function parseHex(content: string): Chunk[] {
   const lines = content.split('\n');
-  const chunks: HexChunk[] = [];
+  const chunks: Chunk[] = [];
   let extendedAddress = 0; // Upper 16 bits from type 04 records
 
   for (const line of lines) {
@@ -179,7 +223,7 @@ function parseHex(content: string): HexChunk[] {
     } else if (recordType === 0x04) {
       // Extended linear address (upper 16 bits)
       const upper = parseInt(trimmed.substring(9, 13), 16);
-      extendedAddress = upper << 16;
+      extendedAddress = (upper << 16) >>> 0;
     } else if (recordType === 0x01) {
       // EOF
       break;
@@ -191,49 +235,14 @@ function parseHex(content: string): HexChunk[] {
 
 /**
  * Convert Intel HEX content to Uint8Array binary
+ * With memory segments the image is laid out like a full bin, otherwise the records are flattened
  */
-export function hexToBinary(content: string): Uint8Array {
+export function hexToBinary(content: string, segments?: MemorySegment[]): Uint8Array {
   const chunks = parseHex(content);
   if (chunks.length === 0) {
     throw new Error('No data records found in HEX file');
   }
-
-  // Normalize addresses (handle TriCore aliasing)
-  const normalizedChunks = chunks.map(chunk => ({
-    address: normalizeAddress(chunk.address),
-    data: chunk.data
-  }));
-
-  // Sort by address
-  normalizedChunks.sort((a, b) => a.address - b.address);
-
-  // Find address range
-  const minAddr = normalizedChunks[0].address;
-  let maxAddr = 0;
-  for (const chunk of normalizedChunks) {
-    const end = chunk.address + chunk.data.length;
-    if (end > maxAddr) maxAddr = end;
-  }
-
-  // Use base offset for high addresses
-  const baseOffset = minAddr >= 0x80000000 ? minAddr : 0;
-  const size = maxAddr - baseOffset;
-
-  // Create buffer filled with 0xFF (erased flash)
-  const buffer = new Uint8Array(size);
-  buffer.fill(0xFF);
-
-  // Write chunks
-  for (const chunk of normalizedChunks) {
-    const offset = chunk.address - baseOffset;
-    if (offset >= 0 && offset + chunk.data.length <= size) {
-      for (let i = 0; i < chunk.data.length; i++) {
-        buffer[offset + i] = chunk.data[i];
-      }
-    }
-  }
-
-  return buffer;
+  return segments?.length ? layoutChunks(chunks, segments) : flattenChunks(chunks);
 }
 
 /**
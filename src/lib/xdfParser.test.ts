@@ -0,0 +1,44 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { addressToOffset, getAddressMap } from './binUtils';
+import { XDFParser } from './xdfParser';
+
+function parse(baseOffset: string): ReturnType<XDFParser['generateDefinition']> {
+  const parser = new XDFParser();
+  parser.parseXDFString(`<XDFFORMAT version="1.70">
+  <XDFHEADER>
+    ${baseOffset}
+    <CATEGORY index="0x0" name="Test" />
+  </XDFHEADER>
+  <XDFCONSTANT uniqueid="0x1">
+    <title>VALUE</title>
+    <CATEGORYMEM index="0" category="1" />
+    <EMBEDDEDDATA mmedaddress="0x100" mmedelementsizebits="16" />
+    <MATH equation="X" />
+  </XDFCONSTANT>
+</XDFFORMAT>`);
+  return parser.generateDefinition('test');
+}
+
+function fileOffset(baseOffset: string): number {
+  const definition = parse(baseOffset);
+  return addressToOffset(definition.parameters[0].address, 0, getAddressMap(definition));
+}
+
+describe('XDF import', () => {
+  it('reads a decimal BASEOFFSET', () => {
+    expect(fileOffset('<BASEOFFSET offset="4096" subtract="0" />')).toBe(0x100 + 4096);
+  });
+
+  it('reads a hex BASEOFFSET with a 0x prefix', () => {
+    expect(fileOffset('<BASEOFFSET offset="0x1000" subtract="0" />')).toBe(0x1100);
+  });
+
+  it('subtracts the BASEOFFSET with subtract="1"', () => {
+    expect(fileOffset('<BASEOFFSET offset="16" subtract="1" />')).toBe(0xf0);
+  });
+
+  it('uses the addresses as file offsets without a BASEOFFSET', () => {
+    expect(fileOffset('')).toBe(0x100);
+  });
+});
@@ -1,4 +1,15 @@
-import { Parameter, DataType, AxisDefinition, Definition } from '../types';
+import { Parameter, DataType, AxisDefinition, Definition, DEFINITION_FORMAT_VERSION, Conversion, VerbalTableEntry } from '../types';
+import { compileFormula } from './conversion';
+
+// mmedtypeflags bits
+const TYPE_SIGNED = 0x01;
+const TYPE_LSB_FIRST = 0x02;
+const TYPE_COLUMN_MAJOR = 0x04;
+const TYPE_FLOAT = 0x10000;
+
+// "X", "X*factor", "X*factor+offset", "X+offset" (read exactly instead of sampling the formula)
+const NUMBER = '[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:e[-+]?\\d+)?';
+const LINEAR_EQUATION = new RegExp(`^\\s*X\\s*(?:\\*\\s*(${NUMBER}))?\\s*(?:([-+])\\s*(${NUMBER}))?\\s*$`, 'i');
 
 interface CsvMapping {
   categories: string[];
@@ -12,6 +23,7 @@ export class XDFParser {
   private matchedCount = 0;
   private baseOffset = 0;
   private categoryMap: Map<number, string> = new Map();
+  private byteOrder = { lsbFirst: 0, msbFirst: 0 };
 
   parseCsv(csvContent: string): void {
     const lines = csvContent.split('\n');
@@ -66,10 +78,14 @@ export class XDFParser {
     const parser = new DOMParser();
     this.xmlDoc = parser.parseFromString(text, 'text/xml');
 
-    // Parse BASEOFFSET from XDFHEADER
+    // Parse BASEOFFSET from XDFHEADER: added to every address (subtracted with subtract="1") to get the file offset
     const baseOffsetEl = this.xmlDoc.querySelector('XDFHEADER > BASEOFFSET');
+    this.baseOffset = 0;
     if (baseOffsetEl) {
-      this.baseOffset = parseInt(baseOffsetEl.getAttribute('offset') || '0', 10);
+      // Decimal in TunerPro headers, hex only with a 0x prefix
+      const offsetStr = baseOffsetEl.getAttribute('offset') || '0';
+      const offset = parseInt(offsetStr, /^0x/i.test(offsetStr) ? 16 : 10) || 0;
+      this.baseOffset = baseOffsetEl.getAttribute('subtract') === '1' ? -offset : offset;
     }
 
     // Parse CATEGORY elements from XDFHEADER
@@ -96,6 +112,7 @@ export class XDFParser {
 
     const parameters: Parameter[] = [];
     this.matchedCount = 0;
+    this.byteOrder = { lsbFirst: 0, msbFirst: 0 };
 
     // Parse XDFTABLE elements (tables and curves)
     const tables = this.xmlDoc.querySelectorAll('XDFTABLE');
@@ -115,9 +132,25 @@ export class XDFParser {
       }
     }
 
+    // Parse XDFFLAG elements (single bits)
+    const flags = this.xmlDoc.querySelectorAll('XDFFLAG');
+    for (const flag of flags) {
+      const param = this.parseFlag(flag, addressTransform);
+      if (param) {
+        parameters.push(param);
+      }
+    }
+
+    // Multi-byte elements without the LSB-first flag are Motorola byte order
+    const bigEndian = this.byteOrder.msbFirst > 0 && this.byteOrder.lsbFirst === 0;
+
     return {
       name,
       version: '1.0',
+      formatVersion: DEFINITION_FORMAT_VERSION,
+      // XDF addresses are file offsets (shifted by BASEOFFSET) unless the caller translates them
+      ...(!addressTransform && { baseAddress: 0 - this.baseOffset }),
+      ...(bigEndian && { bigEndian }),
       parameters,
     };
   }
@@ -128,8 +161,9 @@ export class XDFParser {
     const categories: string[] = [];
 
     for (const catMem of catMems) {
+      // CATEGORYMEM numbers categories from 1 (CATEGORY index 0x0 is category="1")
       const catIndex = parseInt(catMem.getAttribute('category') || '0', 10);
-      const catName = this.categoryMap.get(catIndex);
+      const catName = this.categoryMap.get(catIndex - 1);
       if (catName) {
         categories.push(catName);
       }
@@ -161,10 +195,11 @@ export class XDFParser {
     const sizeBits = parseInt(embeddedData.getAttribute('mmedelementsizebits') || '8', 10);
     const typeFlags = parseInt(embeddedData.getAttribute('mmedtypeflags') || '0', 16);
     const dataType = this.getDataType(sizeBits, typeFlags);
+    const columnDir = (typeFlags & TYPE_COLUMN_MAJOR) !== 0;
 
     // Parse math equation from z-axis or table-level MATH
     const mathElement = zAxis?.querySelector('MATH') || element.querySelector(':scope > MATH');
-    const { factor, offset } = this.parseMath(mathElement);
+    const { factor, offset, conversion } = this.parseMath(mathElement);
 
     // Get units/min/max from z-axis or table level
     const unitSource = zAxis || element;
@@ -242,10 +277,12 @@ export class XDFParser {
       max,
       factor,
       offset,
+      conversion,
       xAxis,
       yAxis,
       rows: type === 'MAP' ? rows : undefined,
       cols: type !== 'VALUE' ? cols : undefined,
+      columnDir: columnDir || undefined,
       categories,
       customName: customName || undefined,
     };
@@ -267,7 +304,7 @@ export class XDFParser {
     const typeFlags = parseInt(embeddedData.getAttribute('mmedtypeflags') || '0', 16);
     const dataType = this.getDataType(sizeBits, typeFlags);
 
-    const { factor, offset } = this.parseMath(element.querySelector('MATH'));
+    const { factor, offset, conversion } = this.parseEnumeration(element) ?? this.parseMath(element.querySelector('MATH'));
 
     let categories: string[];
     let customName = '';
@@ -298,6 +335,58 @@ export class XDFParser {
       max,
       factor,
       offset,
+      conversion,
+      categories,
+      customName: customName || undefined,
+    };
+  }
+
+  private parseFlag(element: Element, addressTransform?: (addr: number) => number): Parameter | null {
+    const title = element.querySelector('title')?.textContent || '';
+    const description = element.querySelector('description')?.textContent || title;
+
+    const embeddedData = element.querySelector('embeddedData') || element.querySelector('EMBEDDEDDATA');
+    if (!embeddedData) return null;
+
+    const address = this.parseAddress(embeddedData.getAttribute('mmedaddress'));
+    if (address === null) return null;
+
+    // Flag masks are hex like addresses (e.g. "0x80")
+    const mask = parseInt(element.querySelector('mask')?.textContent?.trim() || '0', 16);
+    if (!mask) return null;
+
+    const finalAddress = addressTransform ? addressTransform(address) : address;
+    const sizeBits = parseInt(embeddedData.getAttribute('mmedelementsizebits') || '8', 10);
+    const typeFlags = parseInt(embeddedData.getAttribute('mmedtypeflags') || '0', 16);
+    const dataType = this.getDataType(sizeBits, typeFlags & ~(TYPE_SIGNED | TYPE_FLOAT));
+
+    let categories: string[];
+    let customName = '';
+
+    if (this.csvMappings.length > 0) {
+      const mapping = this.findMapping(title);
+      categories = mapping.categories;
+      customName = mapping.customName;
+      if (categories.length === 0) return null;
+      this.matchedCount++;
+    } else {
+      categories = this.resolveCategories(element);
+      if (categories.length === 0) categories = ['Uncategorized'];
+    }
+
+    return {
+      name: title,
+      description,
+      address: finalAddress,
+      type: 'VALUE',
+      dataType,
+      unit: '',
+      min: 0,
+      max: 1,
+      factor: 1,
+      offset: 0,
+      bitMask: mask,
+      bits: [{ bit: 0, name: title }],
       categories,
       customName: customName || undefined,
     };
@@ -311,7 +400,7 @@ export class XDFParser {
     if (indexCount <= 1) return null;
 
     let address: number | undefined;
-    let dataType: DataType = 'UWORD';
+    let dataType: DataType | undefined;
 
     if (embeddedData) {
       const addr = this.parseAddress(embeddedData.getAttribute('mmedaddress'));
@@ -324,11 +413,14 @@ export class XDFParser {
       dataType = this.getDataType(sizeBits, typeFlags);
     }
 
-    const { factor, offset } = this.parseMath(element.querySelector('MATH'));
+    const { factor, offset, conversion } = this.parseMath(element.querySelector('MATH'));
     const unit = element.querySelector('units')?.textContent || '';
     const min = parseFloat(element.querySelector('min')?.textContent || '0');
     const max = parseFloat(element.querySelector('max')?.textContent || '65535');
 
+    // Axes without data list their breakpoints as LABEL elements
+    const values = address === undefined ? this.parseAxisLabels(element, indexCount) : null;
+
     return {
       type: address !== undefined ? 'STD_AXIS' : 'FIX_AXIS',
       points: indexCount,
@@ -339,68 +431,81 @@ export class XDFParser {
       dataType,
       factor,
       offset,
+      conversion,
       dataOffset: 0,
+      ...(values && { values }),
     };
   }
 
-  private parseMath(mathElement: Element | null): { factor: number; offset: number } {
-    if (!mathElement) {
-      return { factor: 1, offset: 0 };
+  /**
+   * Numeric axis labels, one per index; null if any is missing or not a number
+   */
+  private parseAxisLabels(element: Element, indexCount: number): number[] | null {
+    const labels = element.querySelectorAll(':scope > LABEL');
+    if (labels.length === 0) return null;
+    const values: number[] = new Array(indexCount).fill(NaN);
+    for (const label of labels) {
+      const index = parseInt(label.getAttribute('index') || '', 10);
+      const value = parseFloat(label.getAttribute('value') || '');
+      if (index >= 0 && index < indexCount) values[index] = value;
     }
+    return values.every(Number.isFinite) ? values : null;
+  }
 
-    const equation = mathElement.getAttribute('equation') || 'X';
-
-    // Try rational function format: ((a * X) - b) / (c - (d * X))
-    const rationalMatch = equation.match(
-      /\(\(\s*([\d.]+)\s*\*\s*X\s*\)\s*-\s*([\d.]+)\s*\)\s*\/\s*\(\s*([\d.]+)\s*-\s*\(\s*([\d.]+)\s*\*\s*X\s*\)\s*\)/i
-    );
-    if (rationalMatch) {
-      const a = parseFloat(rationalMatch[1]);
-      const b = parseFloat(rationalMatch[2]);
-      const c = parseFloat(rationalMatch[3]);
-      const d = parseFloat(rationalMatch[4]);
-
-      if (d === 0 && c !== 0) {
-        // Simplifies to (a*X - b) / c = (a/c)*X - (b/c)
-        return { factor: a / c, offset: -(b / c) };
-      }
-      // Non-zero d: can't represent as simple factor+offset, approximate
-      // For display purposes, use a/c as factor and -b/c as offset
-      if (c !== 0) {
-        return { factor: a / c, offset: -(b / c) };
-      }
+  /**
+   * Enumerated constants list their states as LABEL elements (index = raw value, value = state name)
+   */
+  private parseEnumeration(element: Element): { factor: number; offset: number; conversion: Conversion } | null {
+    const labels = element.querySelectorAll(':scope > LABEL');
+    if (labels.length === 0) return null;
+
+    const entries: VerbalTableEntry[] = [];
+    for (const label of labels) {
+      const index = label.getAttribute('index') || '';
+      const raw = parseInt(index, index.toLowerCase().startsWith('0x') ? 16 : 10);
+      if (isNaN(raw)) continue;
+      entries.push({ raw, label: label.getAttribute('value') || String(raw) });
     }
+    if (entries.length === 0) return null;
 
-    // Parse simpler XDF math equations like "X * 0.1" or "X * 0.01 + 10"
-    let factor = 1;
-    let offset = 0;
+    return { factor: 1, offset: 0, conversion: { type: 'TAB_VERB', entries } };
+  }
 
-    // Match: X * number
-    const mulMatch = equation.match(/X\s*\*\s*([\d.]+)/i);
-    if (mulMatch) {
-      factor = parseFloat(mulMatch[1]);
+  private parseMath(mathElement: Element | null): { factor: number; offset: number; conversion?: Conversion } {
+    if (!mathElement) {
+      return { factor: 1, offset: 0 };
     }
 
-    // Match: number * X
-    const mulMatch2 = equation.match(/([\d.]+)\s*\*\s*X/i);
-    if (!mulMatch && mulMatch2) {
-      factor = parseFloat(mulMatch2[1]);
+    const equation = mathElement.getAttribute('equation') || 'X';
+
+    const linear = equation.match(LINEAR_EQUATION);
+    if (linear) {
+      const factor = linear[1] !== undefined ? parseFloat(linear[1]) : 1;
+      const offset = linear[3] !== undefined ? parseFloat(linear[3]) * (linear[2] === '-' ? -1 : 1) : 0;
+      return { factor, offset };
     }
 
-    // Match: X / number
-    const divMatch = equation.match(/X\s*\/\s*([\d.]+)/i);
-    if (divMatch) {
-      factor = 1 / parseFloat(divMatch[1]);
+    let formula: (x: number) => number;
+    try {
+      formula = compileFormula(equation);
+    } catch (err) {
+      console.warn('Unsupported XDF equation:', err);
+      return { factor: 1, offset: 0 };
     }
 
-    // Match: + number or - number at the end
-    const addMatch = equation.match(/([+-])\s*([\d.]+)\s*$/);
-    if (addMatch) {
-      offset = parseFloat(addMatch[2]);
-      if (addMatch[1] === '-') offset = -offset;
+    // Linear equations (e.g. "X * 0.1 + 10") reduce to factor/offset
+    const offset = formula(0);
+    const factor = formula(1) - offset;
+    const isLinear = [2, 255, 65535, -32768].every(x => {
+      const expected = factor * x + offset;
+      return Math.abs(formula(x) - expected) <= 1e-9 * Math.max(1, Math.abs(expected));
+    });
+    if (isLinear && Number.isFinite(factor) && Number.isFinite(offset)) {
+      return { factor, offset };
     }
 
-    return { factor, offset };
+    // Rational and other non-linear equations are kept as formulas (inverted numerically on write)
+    return { factor: 1, offset: 0, conversion: { type: 'FORMULA', formula: equation } };
   }
 
   private parseAddress(addrStr: string | null): number | null {
@@ -413,10 +518,16 @@ export class XDFParser {
   }
 
   private getDataType(sizeBits: number, typeFlags: number): DataType {
-    const signed = (typeFlags & 0x01) !== 0;
-    const isFloat = (typeFlags & 0x10000) !== 0;
+    const signed = (typeFlags & TYPE_SIGNED) !== 0;
+    const isFloat = (typeFlags & TYPE_FLOAT) !== 0;
+
+    if (sizeBits > 8) {
+      if (typeFlags & TYPE_LSB_FIRST) this.byteOrder.lsbFirst++;
+      else this.byteOrder.msbFirst++;
+    }
 
     if (isFloat && sizeBits === 32) return 'FLOAT32';
+    if (isFloat && sizeBits === 64) return 'FLOAT64';
 
     switch (sizeBits) {
       case 8:
@@ -425,6 +536,8 @@ export class XDFParser {
         return signed ? 'SWORD' : 'UWORD';
       case 32:
         return signed ? 'SLONG' : 'ULONG';
+      case 64:
+        return signed ? 'A_INT64' : 'A_UINT64';
       default:
         return 'UWORD';
     }
@@ -451,12 +564,13 @@ export class XDFParser {
     return lowerName === lowerPattern;
   }
 
-  getStats(): { tables: number; constants: number; matched: number } {
-    if (!this.xmlDoc) return { tables: 0, constants: 0, matched: 0 };
+  getStats(): { tables: number; constants: number; flags: number; matched: number } {
+    if (!this.xmlDoc) return { tables: 0, constants: 0, flags: 0, matched: 0 };
 
     return {
       tables: this.xmlDoc.querySelectorAll('XDFTABLE').length,
       constants: this.xmlDoc.querySelectorAll('XDFCONSTANT').length,
+      flags: this.xmlDoc.querySelectorAll('XDFFLAG').length,
       matched: this.matchedCount,
     };
   }
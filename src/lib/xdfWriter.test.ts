@@ -0,0 +1,78 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import type { Definition, Parameter } from '../types';
+import { addressToOffset, getAddressMap } from './binUtils';
+import { XDFParser } from './xdfParser';
+import { generateXdf } from './xdfWriter';
+
+function parameter(fields: Partial<Parameter> & Pick<Parameter, 'name' | 'address' | 'type'>): Parameter {
+  return { description: fields.name, dataType: 'UWORD', unit: '', min: 0, max: 65535, factor: 1, offset: 0, categories: ['Test'], ...fields };
+}
+
+// Simos addresses: file offset = address - 0xA0000000
+const simos: Definition = {
+  name: 'SC8LB70',
+  version: '1',
+  baseAddress: 0xa0000000,
+  parameters: [
+    parameter({ name: 'VALUE_SCALED', address: 0xa0840010, type: 'VALUE', factor: 0.1, offset: -40 }),
+    parameter({ name: 'VALUE_OFFSET', address: 0xa0840020, type: 'VALUE', dataOffset: 4 }),
+    parameter({ name: 'VALUE_FORMULA', address: 0xa0840030, type: 'VALUE', conversion: { type: 'FORMULA', formula: '(X1 - 0x10) / 4' } }),
+    parameter({ name: 'VALUE_FUNCTION', address: 0xa0840040, type: 'VALUE', conversion: { type: 'FORMULA', formula: 'sqrt(X1)' } }),
+    parameter({
+      name: 'MAP',
+      address: 0xa0850000,
+      type: 'MAP',
+      rows: 2,
+      cols: 3,
+      xAxis: { type: 'STD_AXIS', points: 3, min: 0, max: 8000, unit: 'rpm', address: 0xa0851000, dataType: 'UWORD', factor: 1, offset: 0 },
+      yAxis: { type: 'STD_AXIS', points: 2, min: 0, max: 100, unit: '%', address: 0xa0851010, dataType: 'UBYTE', factor: 0.5, offset: 0 },
+    }),
+    parameter({
+      name: 'CURVE_FIXED',
+      address: 0xa0860000,
+      type: 'CURVE',
+      rows: 1,
+      cols: 4,
+      xAxis: { type: 'FIX_AXIS', points: 4, min: 0, max: 30, unit: '', values: [0, 10, 20, 30] },
+    }),
+  ],
+};
+
+function roundTrip(definition: Definition): Definition {
+  const { xml } = generateXdf(definition);
+  const parser = new XDFParser();
+  parser.parseXDFString(xml);
+  return parser.generateDefinition(definition.name);
+}
+
+describe('XDF export', () => {
+  it('imports a Simos definition at the same file offsets', () => {
+    const imported = roundTrip(simos);
+    const offsetOf = (def: Definition, address: number) => addressToOffset(address, 0, getAddressMap(def));
+    const byName = new Map(imported.parameters.map(p => [p.name, p]));
+
+    for (const original of simos.parameters.filter(p => p.name !== 'VALUE_FUNCTION')) {
+      const copy = byName.get(original.name);
+      expect(copy, original.name).toBeDefined();
+      expect(offsetOf(imported, copy!.address + (copy!.dataOffset ?? 0))).toBe(offsetOf(simos, original.address + (original.dataOffset ?? 0)));
+    }
+
+    const map = byName.get('MAP')!;
+    expect(offsetOf(imported, map.xAxis!.address!)).toBe(0x851000);
+    expect(offsetOf(imported, map.yAxis!.address!)).toBe(0x851010);
+    expect(map.yAxis!.factor).toBe(0.5);
+    expect(byName.get('VALUE_SCALED')).toMatchObject({ factor: 0.1, offset: -40 });
+  });
+
+  it('keeps fixed axis breakpoints', () => {
+    const curve = roundTrip(simos).parameters.find(p => p.name === 'CURVE_FIXED')!;
+    expect(curve.xAxis?.values).toEqual([0, 10, 20, 30]);
+  });
+
+  it('translates arithmetic formulas and skips functions', () => {
+    const { xml, skipped } = generateXdf(simos);
+    expect(xml).toContain('equation="(X-16)/4"');
+    expect(skipped.map(s => s.name)).toEqual(['VALUE_FUNCTION']);
+  });
+});
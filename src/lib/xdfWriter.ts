@@ -0,0 +1,310 @@
+/**
+ * TunerPro XDF writer (inverse of XDFParser)
+ *
+ * Addresses are written as offsets into the full image, as TunerPro expects.
+ * Parameters TunerPro cannot represent (strings, multi-bit fields, lookup-table
+ * conversions, formulas using functions) are left out and reported.
+ */
+
+import { DATA_TYPE_INFO } from '../types';
+import type { AxisDefinition, Conversion, DataType, Definition, Parameter } from '../types';
+import { addressToOffset, getAddressMap } from './binUtils';
+import { compileFormula, tokenizeFormula } from './conversion';
+
+// mmedtypeflags bits
+const TYPE_SIGNED = 0x01;
+const TYPE_LSB_FIRST = 0x02;
+const TYPE_COLUMN_MAJOR = 0x04;
+const TYPE_FLOAT = 0x10000;
+
+export interface XdfExportOptions {
+  binSize?: number;  // Size of the full image (written as the XDF region)
+}
+
+export interface XdfExport {
+  xml: string;
+  skipped: { name: string; reason: string }[];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function hex(value: number): string {
+  return '0x' + value.toString(16).toUpperCase();
+}
+
+function typeFlags(dataType: DataType, bigEndian: boolean, columnMajor = false): number {
+  const info = DATA_TYPE_INFO[dataType];
+  let flags = 0;
+  if (info.float) flags |= TYPE_FLOAT;
+  else if (info.signed) flags |= TYPE_SIGNED;
+  if (!bigEndian && info.size > 1) flags |= TYPE_LSB_FIRST;
+  if (columnMajor) flags |= TYPE_COLUMN_MAJOR;
+  return flags;
+}
+
+/**
+ * TunerPro equation for a conversion formula: plain arithmetic in X (A2L X1) is carried over,
+ * functions and powers have no TunerPro equivalent
+ */
+function formulaEquation(formula: string): string | null {
+  let tokens: string[];
+  try {
+    compileFormula(formula);
+    tokens = tokenizeFormula(formula);
+  } catch {
+    return null;
+  }
+
+  const parts: string[] = [];
+  for (const token of tokens) {
+    const name = token.toLowerCase();
+    if (name === 'x' || name === 'x1') parts.push('X');
+    else if (/^(0x|\d|\.)/i.test(token)) parts.push(String(Number(token)));
+    else if (['+', '-', '*', '/', '(', ')'].includes(token)) parts.push(token);
+    else return null;
+  }
+  return parts.join('');
+}
+
+/**
+ * XDF equation (physical value from raw X) for a conversion
+ * Returns null if the conversion has no closed form TunerPro understands
+ */
+function equationFor(factor: number, offset: number, conversion?: Conversion): string | null {
+  if (conversion) {
+    switch (conversion.type) {
+      case 'FORMULA':
+        return formulaEquation(conversion.formula);
+      case 'TAB_VERB':
+        // Physical value is the raw value; the states are written as labels
+        return 'X';
+      case 'RAT_FUNC': {
+        // Only linear rational functions invert to a formula: RAW = (b*PHYS + c) / f
+        const [a, b, c, d, e, f] = conversion.coeffs;
+        if (a !== 0 || d !== 0 || e !== 0 || b === 0 || f === 0) return null;
+        return equationFor(f / b, -c / b);
+      }
+      default:
+        return null;
+    }
+  }
+
+  if (factor === 1 && offset === 0) return 'X';
+  const scaled = factor === 1 ? 'X' : `X*${factor}`;
+  if (offset === 0) return scaled;
+  return offset < 0 ? `${scaled}-${-offset}` : `${scaled}+${offset}`;
+}
+
+function mathElement(equation: string, indent: string): string {
+  return `${indent}<MATH equation="${escapeXml(equation)}">\n${indent}  <VAR id="X" />\n${indent}</MATH>`;
+}
+
+function decimals(factor: number): number {
+  if (factor === 0 || !Number.isFinite(factor)) return 2;
+  return Math.min(6, Math.max(0, Math.ceil(-Math.log10(Math.abs(factor)))));
+}
+
+class XdfBuilder {
+  private nextId = 0;
+  private categories = new Map<string, number>();
+  readonly skipped: XdfExport['skipped'] = [];
+
+  constructor(private definition: Definition) {}
+
+  private offsetOf(address: number): number {
+    return addressToOffset(address, 0, getAddressMap(this.definition));
+  }
+
+  private get bigEndian(): boolean {
+    return this.definition.bigEndian ?? false;
+  }
+
+  private uniqueId(): string {
+    return hex(this.nextId++);
+  }
+
+  private categoryIndex(name: string): number {
+    let index = this.categories.get(name);
+    if (index === undefined) {
+      index = this.categories.size;
+      this.categories.set(name, index);
+    }
+    return index;
+  }
+
+  private categoryMembers(param: Parameter, indent: string): string[] {
+    // CATEGORYMEM refers to categories 1-based
+    return param.categories.map((name, i) => `${indent}<CATEGORYMEM index="${i}" category="${this.categoryIndex(name) + 1}" />`);
+  }
+
+  private embeddedData(address: number, dataType: DataType, extra: string, flags: number): string {
+    return `<EMBEDDEDDATA mmedtypeflags="${hex(flags)}" mmedaddress="${hex(this.offsetOf(address))}" mmedelementsizebits="${DATA_TYPE_INFO[dataType].size * 8}"${extra} mmedmajorstridebits="0" mmedminorstridebits="0" />`;
+  }
+
+  private axis(id: 'x' | 'y', axis: AxisDefinition | undefined, points: number): string[] | null {
+    // TunerPro needs one label per row/column: axes of another length are written as plain indices
+    if (axis && axis.points !== points) axis = undefined;
+
+    const lines = [`    <XDFAXIS id="${id}" uniqueid="${this.uniqueId()}">`];
+    if (axis?.address !== undefined && axis.dataType) {
+      lines.push(`      ${this.embeddedData(axis.address + (axis.dataOffset ?? 0), axis.dataType, '', typeFlags(axis.dataType, this.bigEndian))}`);
+    }
+    lines.push(`      <indexcount>${points}</indexcount>`);
+    // Fixed breakpoints are written as axis labels
+    if (axis?.values && axis.address === undefined) {
+      lines.push(...axis.values.map((value, i) => `      <LABEL index="${i}" value="${value}" />`));
+    }
+
+    const equation = axis ? equationFor(axis.factor ?? 1, axis.offset ?? 0, axis.conversion) : 'X';
+    if (equation === null) return null;
+    lines.push(
+      `      <units>${escapeXml(axis?.unit ?? '')}</units>`,
+      `      <min>${axis?.min ?? 0}</min>`,
+      `      <max>${axis?.max ?? points - 1}</max>`,
+      `      <decimalpl>${decimals(axis?.factor ?? 1)}</decimalpl>`,
+      `      <datatype>0</datatype>`,
+      `      <unittype>0</unittype>`,
+      `      <DALINK index="0" />`,
+      mathElement(equation, '      '),
+      `    </XDFAXIS>`,
+    );
+    return lines;
+  }
+
+  private table(param: Parameter): string[] | null {
+    const rows = param.rows || 1;
+    const cols = param.cols || 1;
+    const equation = equationFor(param.factor, param.offset, param.conversion);
+    if (equation === null) return null;
+
+    const xAxis = this.axis('x', param.xAxis, cols);
+    const yAxis = this.axis('y', param.type === 'MAP' ? param.yAxis : undefined, rows);
+    if (!xAxis || !yAxis) return null;
+
+    const address = param.address + (param.dataOffset ?? 0);
+    const extra = ` mmedrowcount="${rows}" mmedcolcount="${cols}"`;
+    return [
+      `  <XDFTABLE uniqueid="${this.uniqueId()}" flags="0x0">`,
+      `    <title>${escapeXml(param.name)}</title>`,
+      `    <description>${escapeXml(param.description)}</description>`,
+      ...this.categoryMembers(param, '    '),
+      ...xAxis,
+      ...yAxis,
+      `    <XDFAXIS id="z">`,
+      `      ${this.embeddedData(address, param.dataType, extra, typeFlags(param.dataType, this.bigEndian, param.columnDir))}`,
+      `      <units>${escapeXml(param.unit)}</units>`,
+      `      <min>${param.min}</min>`,
+      `      <max>${param.max}</max>`,
+      `      <decimalpl>${decimals(param.factor)}</decimalpl>`,
+      `      <outputtype>1</outputtype>`,
+      mathElement(equation, '      '),
+      `    </XDFAXIS>`,
+      `  </XDFTABLE>`,
+    ];
+  }
+
+  private constant(param: Parameter): string[] | null {
+    const equation = equationFor(param.factor, param.offset, param.conversion);
+    if (equation === null) return null;
+
+    const labels = param.conversion?.type === 'TAB_VERB'
+      ? param.conversion.entries.map(e => `    <LABEL index="${e.raw}" value="${escapeXml(e.label)}" />`)
+      : [];
+    return [
+      `  <XDFCONSTANT uniqueid="${this.uniqueId()}" flags="0x0">`,
+      `    <title>${escapeXml(param.name)}</title>`,
+      `    <description>${escapeXml(param.description)}</description>`,
+      ...this.categoryMembers(param, '    '),
+      `    ${this.embeddedData(param.address + (param.dataOffset ?? 0), param.dataType, '', typeFlags(param.dataType, this.bigEndian))}`,
+      `    <units>${escapeXml(param.unit)}</units>`,
+      `    <min>${param.min}</min>`,
+      `    <max>${param.max}</max>`,
+      `    <decimalpl>${decimals(param.factor)}</decimalpl>`,
+      `    <datatype>0</datatype>`,
+      `    <unittype>0</unittype>`,
+      ...labels,
+      `    <DALINK index="0" />`,
+      mathElement(equation, '    '),
+      `  </XDFCONSTANT>`,
+    ];
+  }
+
+  private flag(param: Parameter): string[] {
+    return [
+      `  <XDFFLAG uniqueid="${this.uniqueId()}" flags="0x0">`,
+      `    <title>${escapeXml(param.name)}</title>`,
+      `    <description>${escapeXml(param.description)}</description>`,
+      ...this.categoryMembers(param, '    '),
+      `    ${this.embeddedData(param.address + (param.dataOffset ?? 0), param.dataType, '', typeFlags(param.dataType, this.bigEndian))}`,
+      `    <mask>${hex(param.bitMask!)}</mask>`,
+      `  </XDFFLAG>`,
+    ];
+  }
+
+  private parameter(param: Parameter): string[] | string {
+    if (param.type === 'ASCII') return 'TunerPro has no string type';
+    if (this.offsetOf(param.address) < 0) return 'Address outside the memory segments';
+
+    if (param.bitMask !== undefined) {
+      // XDFFLAG covers single bits only
+      if ((param.bitMask & (param.bitMask - 1)) !== 0) return 'Multi-bit fields are not supported by TunerPro';
+      return this.flag(param);
+    }
+
+    const lines = param.type === 'VALUE' ? this.constant(param) : this.table(param);
+    if (lines) return lines;
+    return param.conversion?.type === 'FORMULA'
+      ? `Formula "${param.conversion.formula}" has no TunerPro equation`
+      : `Conversion ${param.conversion?.type} has no XDF equation`;
+  }
+
+  build(options: XdfExportOptions): string {
+    const body: string[] = [];
+    for (const param of this.definition.parameters) {
+      const result = this.parameter(param);
+      if (typeof result === 'string') {
+        this.skipped.push({ name: param.name, reason: result });
+      } else {
+        body.push(...result);
+      }
+    }
+
+    // Header last: categories are collected while writing the parameters
+    const lsbFirst = this.bigEndian ? 0 : 1;
+    const header = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<XDFFORMAT version="1.70">`,
+      `  <XDFHEADER>`,
+      `    <flags>0x1</flags>`,
+      `    <fileversion>${escapeXml(this.definition.version)}</fileversion>`,
+      `    <deftitle>${escapeXml(this.definition.name)}</deftitle>`,
+      `    <description>${escapeXml(this.definition.verification ? `EPK ${this.definition.verification.expected}` : '')}</description>`,
+      `    <BASEOFFSET offset="0" subtract="0" />`,
+      `    <DEFAULTS datasizeinbits="8" sigdigits="2" outputtype="1" signed="0" lsbfirst="${lsbFirst}" float="0" />`,
+    ];
+    if (options.binSize) {
+      header.push(`    <REGION type="0xFFFFFFFF" startaddress="0x0" size="${hex(options.binSize)}" regionflags="0x0" name="Binary File" desc="This region describes the bin file edited by this XDF" />`);
+    }
+    for (const [name, index] of this.categories) {
+      header.push(`    <CATEGORY index="${hex(index)}" name="${escapeXml(name)}" />`);
+    }
+    header.push(`  </XDFHEADER>`);
+
+    return [...header, ...body, `</XDFFORMAT>`, ''].join('\n');
+  }
+}
+
+/**
+ * Convert a definition to a TunerPro XDF document
+ */
+export function generateXdf(definition: Definition, options: XdfExportOptions = {}): XdfExport {
+  const builder = new XdfBuilder(definition);
+  const xml = builder.build(options);
+  return { xml, skipped: builder.skipped };
+}
@@ -1,7 +1,32 @@
-export type DataType = 'UBYTE' | 'SBYTE' | 'UWORD' | 'SWORD' | 'ULONG' | 'SLONG' | 'FLOAT32';
+export type DataType = 'UBYTE' | 'SBYTE' | 'UWORD' | 'SWORD' | 'ULONG' | 'SLONG' | 'A_UINT64' | 'A_INT64' | 'FLOAT32' | 'FLOAT64';
+
+export interface ConversionTablePoint {
+  raw: number;
+  phys: number;
+}
+
+export interface VerbalTableEntry {
+  raw: number;      // Raw value (lower bound for ranges)
+  rawMax?: number;  // Upper bound (inclusive) for COMPU_VTAB_RANGE entries
+  label: string;
+}
+
+// Non-linear raw <-> physical conversion; when set it replaces factor/offset
+export type Conversion =
+  | { type: 'RAT_FUNC'; coeffs: number[] }                                  // A2L [a..f]: RAW = (a*PHYS² + b*PHYS + c) / (d*PHYS² + e*PHYS + f)
+  | { type: 'TAB_INTP' | 'TAB_NOINTP'; table: ConversionTablePoint[] }      // Lookup table (COMPU_TAB), with or without interpolation
+  | { type: 'TAB_VERB'; entries: VerbalTableEntry[]; defaultLabel?: string } // Named states (COMPU_VTAB), physical value = raw value
+  | { type: 'FORMULA'; formula: string; inverse?: string };                 // PHYS = formula(X); inverse(X) gives RAW (solved numerically if missing)
+
+// Mapping of an axis' input quantity to a (fractional) axis index, read from the BIN
+export interface AxisRescale {
+  name: string;            // CURVE (CURVE_AXIS) or AXIS_PTS (RES_AXIS) holding the mapping
+  input: AxisDefinition;   // Input values
+  index: AxisDefinition;   // Axis index at each input value
+}
 
 export interface AxisDefinition {
-  type: 'STD_AXIS' | 'COM_AXIS' | 'FIX_AXIS';
+  type: 'STD_AXIS' | 'COM_AXIS' | 'FIX_AXIS' | 'CURVE_AXIS' | 'RES_AXIS';
   points: number;
   min: number;
   max: number;
@@ -10,47 +35,108 @@ export interface AxisDefinition {
   dataType?: DataType;
   factor?: number;
   offset?: number;
+  conversion?: Conversion;
   dataOffset?: number; // Byte offset where axis data starts
+  stride?: number;     // Bytes from one point to the next (default: data type size)
+  values?: number[];   // FIX_AXIS breakpoints (physical values); indices when missing
+  rescale?: AxisRescale;  // CURVE_AXIS / RES_AXIS: breakpoints are the input values at each axis index
+}
+
+export interface BitDefinition {
+  bit: number;   // Bit index within the (masked and shifted) value
+  name: string;
 }
 
 export interface Parameter {
   name: string;
   description: string;
   address: number;
-  type: 'VALUE' | 'CURVE' | 'MAP';
+  type: 'VALUE' | 'CURVE' | 'MAP' | 'ASCII';
   dataType: DataType;
   unit: string;
   min: number;
   max: number;
   factor: number;
   offset: number;
+  conversion?: Conversion;  // Non-linear conversion (factor/offset are ignored when set)
+  bitMask?: number;  // Only these bits of the stored value belong to the parameter (value is shifted down to bit 0)
+  bits?: BitDefinition[];  // Named bits, edited as checkboxes
   xAxis?: AxisDefinition;
   yAxis?: AxisDefinition;
   rows?: number;
   cols?: number;
+  length?: number; // String length in bytes (ASCII parameters, dataType UBYTE)
   columnDir?: boolean; // true if data is stored column-wise
   dataOffset?: number; // Byte offset where table data starts (for STD_AXIS)
   categories: string[];
   customName?: string;
 }
 
+// RAM variable readable while the ECU runs (A2L MEASUREMENT), used as a datalogger channel
+export interface Measurement {
+  name: string;
+  description: string;
+  address: number;   // ECU address of the variable
+  dataType: DataType;
+  unit: string;
+  min: number;
+  max: number;
+  factor: number;
+  offset: number;
+  conversion?: Conversion;  // Non-linear conversion (factor/offset are ignored when set)
+  bitMask?: number;
+}
+
 export interface DefinitionVerification {
   calOffset: number;     // Offset in full bin where CAL block starts (e.g. 0x340000)
   expected: string;      // Expected string at start of CAL block (e.g. "SC8LB4")
   length?: number;       // Length to check (default: expected.length)
 }
 
+export interface ChecksumAddressRange {
+  start: number;  // First address covered (same address space as parameters)
+  end: number;    // Address after the last covered byte (exclusive)
+}
+
+export interface ChecksumDefinition {
+  name: string;
+  algorithm: string;               // Key into the checksum algorithm registry (e.g. 'crc32', 'sum16', 'simos-cal')
+  ranges?: ChecksumAddressRange[]; // Covered ranges, concatenated in order (not needed for self-describing algorithms)
+  storage?: number;                // Address where the checksum is stored
+  size?: 1 | 2 | 4;                // Stored checksum width in bytes (default: 4)
+  bigEndian?: boolean;             // Stored byte order (default: definition.bigEndian)
+  complement?: boolean;            // Store two's complement so that data + checksum sums to zero
+}
+
+export interface MemorySegment {
+  name: string;
+  address: number;      // First address of the segment
+  size: number;         // Length in bytes
+  fileOffset: number;   // Where the segment starts in a full image
+  aliases?: number[];   // Other addresses the same memory is visible at (e.g. TriCore cached 0x80000000 view of 0xA0000000)
+}
+
+// Address translation: a base address subtracted from every address, or a segment map
+export type AddressMap = number | MemorySegment[];
+
 export interface Definition {
   name: string;
   version: string;
+  formatVersion?: number;  // Version of the definition file format (DEFINITION_FORMAT_VERSION when written, treated as 1 when missing)
   verification?: DefinitionVerification;  // Check to verify definition matches file
   offset?: number;  // CAL block offset in full bin (e.g., 0x30000 for DSG, 0x800000 for Simos18)
-  baseAddress?: number;  // Memory base address to subtract from parameter addresses (0xa0000000 for Simos, 0 for DSG/direct offsets)
+  baseAddress?: number;  // Memory base address to subtract from parameter addresses (0xa0000000 for Simos, 0 for DSG/direct offsets, negative to add an offset)
+  segments?: MemorySegment[];  // Address ranges and their place in a full image (replaces baseAddress when set)
   bigEndian?: boolean;  // True if binary data is stored in big-endian (Motorola) byte order (e.g., DSG/TCU)
+  checksums?: ChecksumDefinition[];  // Checksums to verify/correct (default: Simos CAL block CRC32 when verification is set)
   parameters: Parameter[];
+  measurements?: Measurement[];  // Loggable RAM variables (from A2L MEASUREMENT)
 }
 
-export type BinaryMode = 'full' | 'cal';  // full bin or just CAL block
+// Newest definition file format this build reads and writes
+export const DEFINITION_FORMAT_VERSION = 1;
+
+export type BinaryMode = 'full' | 'cal' | 'ecc';  // full bin, just CAL block, or raw flash dump with interleaved ECC bytes
 
 export const DATA_TYPE_INFO: Record<DataType, { size: number; signed: boolean; float: boolean }> = {
   UBYTE: { size: 1, signed: false, float: false },
@@ -59,5 +145,8 @@ export const DATA_TYPE_INFO: Record<DataType, { size: number; signed: boolean; f
   SWORD: { size: 2, signed: true, float: false },
   ULONG: { size: 4, signed: false, float: false },
   SLONG: { size: 4, signed: true, float: false },
+  A_UINT64: { size: 8, signed: false, float: false },
+  A_INT64: { size: 8, signed: true, float: false },
   FLOAT32: { size: 4, signed: true, float: true },
+  FLOAT64: { size: 8, signed: true, float: true },
 };